@@ -6,25 +6,245 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import type {
   CSVFieldMapping,
+  CSVFileResult,
+  CSVImportOptions,
+  CSVLayout,
+  CSVParseResult,
+  CSVProduct,
+  DuplicateSkuChoice,
+  DuplicateSkuPolicy,
+  FieldSuggestion,
+  FieldSuggestions,
+  FieldTransform,
+  FieldTransforms,
+  MappedRowPreview,
+  MappingConfidence,
+  MappingProfile,
+  MatchSuggestion,
+  PriceRounding,
+  PriceRoundingRule,
+  PricingRule,
+  PricingRuleCondition,
   NormalizedProduct,
+  NumberLocale,
+  OptionalFieldKey,
+  ReconcileAction,
+  ReconcilePreview,
+  ReconcileScope,
+  ReconcileScopeType,
+  ReconcileVariant,
+  RowFilter,
+  RowFilterOperator,
+  RowFilterSummary,
+  ExchangeRate,
+  ShopSettings,
+  SkuRule,
+  SkuTestResult,
+  SourceCost,
+  SpreadsheetWorkbook,
+  SupplierCurrency,
+  SupplierTax,
+  SupplierFieldKey,
+  SupplierFile,
+  UpdateResponse,
+  ValidationIssueCode,
+  ValidationReport,
   FilterType,
 } from "../../types/supplier-updates";
-import { formatCurrency, formatMargin } from "../../lib/supplier-updates";
+import {
+  formatCurrency,
+  formatMargin,
+  getCSVDataRows,
+  getFieldChanges,
+  getProductAdminUrl,
+  isFieldMappingComplete,
+} from "../../lib/supplier-updates";
+import { getDraftPrice } from "../../lib/product-drafts";
+import type { DraftPricing } from "../../lib/product-drafts";
+import {
+  PRICE_ROUNDING_TYPES,
+  describePriceRounding,
+  getPriceRoundingError,
+  roundPrice,
+} from "../../lib/price-rounding";
+import {
+  PRICING_RULE_TYPES,
+  describePricingRule,
+  getPricingRuleError,
+} from "../../lib/pricing-rules";
+import {
+  DISCONTINUED_TAG,
+  OPTIONAL_FIELDS,
+  SUPPLIER_FIELDS,
+  getFieldDefinition,
+  getFieldName,
+} from "../../lib/field-registry";
+import {
+  TRANSFORM_TYPES,
+  describeTransform,
+  getExpressionError,
+  getPatternError,
+} from "../../lib/transforms";
+import {
+  SKU_RULE_TYPES,
+  describeSkuRule,
+  getSkuRuleError,
+  normalizeSku,
+} from "../../lib/sku-normalization";
+import {
+  SUPPLIER_CURRENCIES,
+  getExchangeRate,
+  isCurrencyCode,
+} from "../../lib/currency";
+import { ROW_FILTER_OPERATORS, describeRowFilter } from "../../lib/row-filters";
+import { CSV_DELIMITERS, CSV_ENCODINGS, readCSVFile } from "../../lib/csv-file";
+import { NUMBER_LOCALES } from "../../lib/number-format";
+import {
+  VALIDATION_ISSUE_LABELS,
+  validationReportToCSV,
+} from "../../lib/validation";
+import {
+  getSpreadsheetFormat,
+  readSpreadsheetFile,
+} from "../../lib/spreadsheet";
 
 /**
  * CSV File Upload Component
+ * Also accepts XLSX/ODS workbooks, with a worksheet picker. Each uploaded
+ * file gets an id; re-reading it (sheet, encoding or delimiter change) reuses
+ * that id, and the file is mapped again if its headers come out different.
+ * The worksheet and read options shown are those of the active file; files
+ * no longer in fileIds are forgotten
  */
 interface CSVUploaderProps {
-  onFileLoad: (data: string[][], fileName: string) => void;
+  activeFileId: string | null;
+  fileIds: string[];
+  onFileLoad: (
+    data: string[][],
+    fileName: string,
+    result: CSVParseResult,
+    fileId: string,
+  ) => void;
   onError: (error: string) => void;
   disabled?: boolean;
 }
 
+// An uploaded file and how it was read, kept so it can be read again
+interface UploadedFile {
+  file: File;
+  options: CSVImportOptions;
+  detected: CSVFileResult | null;
+  workbook: SpreadsheetWorkbook | null;
+  sheetIndex: number;
+  loaded: boolean; // Passed to onFileLoad at least once
+}
+
 export function CSVUploader({
+  activeFileId,
+  fileIds,
   onFileLoad,
   onError,
   disabled,
 }: CSVUploaderProps) {
+  const [uploads, setUploads] = useState<Record<string, UploadedFile>>({});
+  const upload = activeFileId ? uploads[activeFileId] : undefined;
+  const detected = upload?.detected ?? null;
+  const workbook = upload?.workbook ?? null;
+
+  const updateUpload = useCallback(
+    (fileId: string, changes: Partial<UploadedFile>) => {
+      setUploads((prev) =>
+        prev[fileId]
+          ? { ...prev, [fileId]: { ...prev[fileId], ...changes } }
+          : prev,
+      );
+    },
+    [],
+  );
+
+  // Drop removed files, and files whose first read failed, so their rows are
+  // not kept in memory
+  const forgetUploads = useCallback(
+    (isStale: (fileId: string, upload: UploadedFile) => boolean) => {
+      setUploads((prev) => {
+        const stale = Object.keys(prev).filter((id) => isStale(id, prev[id]));
+        if (stale.length === 0) return prev;
+        const next = { ...prev };
+        for (const id of stale) delete next[id];
+        return next;
+      });
+    },
+    [],
+  );
+
+  useEffect(() => {
+    forgetUploads((id, entry) => entry.loaded && !fileIds.includes(id));
+  }, [fileIds, forgetUploads]);
+
+  const loadSheet = useCallback(
+    (
+      nextWorkbook: SpreadsheetWorkbook,
+      index: number,
+      fileName: string,
+      fileId: string,
+    ) => {
+      const sheet = nextWorkbook.sheets[index];
+      const rows = sheet?.rows || [];
+      updateUpload(fileId, { sheetIndex: index, loaded: true });
+      onFileLoad(
+        rows,
+        fileName,
+        {
+          rows,
+          rowCount: rows.length,
+          malformedRows: [],
+          lines: sheet?.lines || [],
+        },
+        fileId,
+      );
+    },
+    [onFileLoad, updateUpload],
+  );
+
+  const loadFile = useCallback(
+    async (nextFile: File, nextOptions: CSVImportOptions, fileId: string) => {
+      try {
+        if (getSpreadsheetFormat(nextFile.name)) {
+          const nextWorkbook = await readSpreadsheetFile(nextFile);
+          if (nextWorkbook.sheets.length === 0) {
+            forgetUploads((id, entry) => id === fileId && !entry.loaded);
+            onError("This spreadsheet has no worksheets to import.");
+            return;
+          }
+          updateUpload(fileId, { detected: null, workbook: nextWorkbook });
+          // Start on the first sheet that has data
+          const firstWithRows = nextWorkbook.sheets.findIndex(
+            (sheet) => sheet.rows.length > 0,
+          );
+          loadSheet(
+            nextWorkbook,
+            Math.max(firstWithRows, 0),
+            nextFile.name,
+            fileId,
+          );
+          return;
+        }
+
+        const result = await readCSVFile(nextFile, nextOptions);
+        updateUpload(fileId, {
+          detected: result,
+          workbook: null,
+          loaded: true,
+        });
+        onFileLoad(result.rows, nextFile.name, result, fileId);
+      } catch {
+        forgetUploads((id, entry) => id === fileId && !entry.loaded);
+        onError("Error reading supplier file. Please check the format.");
+      }
+    },
+    [forgetUploads, loadSheet, onFileLoad, onError, updateUpload],
+  );
+
   const handleChange = useCallback(
     async (event: Event) => {
       const target = event.currentTarget as { files?: FileList } | null;
@@ -33,169 +253,2369 @@ export function CSVUploader({
         | FileList
         | File[]
         | undefined;
-      const file =
-        target?.files?.[0] || eventTarget?.files?.[0] || detailFiles?.[0];
-      if (!file) return;
+      const nextFiles = Array.from(
+        target?.files || eventTarget?.files || detailFiles || [],
+      );
 
-      try {
-        const text = await file.text();
+      // Several files can be dropped at once; each is read with detected
+      // settings and can be re-read on its own once active
+      for (const nextFile of nextFiles) {
+        const id = crypto.randomUUID();
+        const options: CSVImportOptions = {
+          encoding: "auto",
+          delimiter: "auto",
+        };
+        setUploads((prev) => ({
+          ...prev,
+          [id]: {
+            file: nextFile,
+            options,
+            detected: null,
+            workbook: null,
+            sheetIndex: 0,
+            loaded: false,
+          },
+        }));
+        await loadFile(nextFile, options, id);
+      }
+    },
+    [loadFile],
+  );
 
-        // Simple CSV parser
-        const rows: string[][] = [];
-        const lines = text.split(/\r?\n/);
+  const handleSheetChange = useCallback(
+    (event: Event) => {
+      const customEvent = event as CustomEvent;
+      const detailValue = customEvent.detail?.value as string | undefined;
+      const currentTargetValue = (
+        event.currentTarget as { value?: string } | null
+      )?.value;
+      const targetValue = (event.target as { value?: string } | null)?.value;
+      const value = detailValue ?? currentTargetValue ?? targetValue ?? "0";
+      const index = parseInt(value, 10);
+      if (!activeFileId || !upload?.workbook || index === upload.sheetIndex) {
+        return;
+      }
+      loadSheet(upload.workbook, index, upload.file.name, activeFileId);
+    },
+    [activeFileId, loadSheet, upload],
+  );
 
-        for (const line of lines) {
-          if (line.trim() === "") continue;
+  const handleOptionChange = useCallback(
+    (option: keyof CSVImportOptions) => (event: Event) => {
+      const customEvent = event as CustomEvent;
+      const detailValue = customEvent.detail?.value as string | undefined;
+      const currentTargetValue = (
+        event.currentTarget as { value?: string } | null
+      )?.value;
+      const targetValue = (event.target as { value?: string } | null)?.value;
+      const value = detailValue ?? currentTargetValue ?? targetValue ?? "auto";
+      if (!activeFileId || !upload || value === upload.options[option]) return;
 
-          const row: string[] = [];
-          let current = "";
-          let inQuotes = false;
+      const nextOptions = {
+        ...upload.options,
+        [option]: value,
+      } as CSVImportOptions;
+      updateUpload(activeFileId, { options: nextOptions });
+      void loadFile(upload.file, nextOptions, activeFileId);
+    },
+    [activeFileId, loadFile, updateUpload, upload],
+  );
 
-          for (let i = 0; i < line.length; i++) {
-            const char = line[i];
+  const delimiterLabel = detected
+    ? CSV_DELIMITERS.find((d) => d.value === detected.delimiter)?.label
+    : null;
+  const encodingLabel = detected
+    ? CSV_ENCODINGS.find((e) => e.value === detected.encoding)?.label
+    : null;
 
-            if (char === '"') {
-              if (inQuotes && line[i + 1] === '"') {
-                current += '"';
-                i++;
-              } else {
-                inQuotes = !inQuotes;
-              }
-            } else if (char === "," && !inQuotes) {
-              row.push(current.trim());
-              current = "";
-            } else {
-              current += char;
-            }
-          }
+  return (
+    <s-box>
+      <s-stack gap="base">
+        <s-heading>Upload Supplier File</s-heading>
+        <s-text tone="neutral">
+          CSV, TSV, Excel (.xlsx) and OpenDocument (.ods) files are supported.
+          For CSV files the delimiter and character encoding are detected
+          automatically. If the columns or special characters look wrong, choose
+          them below; the columns are mapped again if the headers change.
+        </s-text>
+        <s-drop-zone
+          accessibilityLabel="Upload supplier file"
+          accept=".csv,.tsv,.txt,.xlsx,.xlsm,.ods"
+          multiple
+          onChange={handleChange}
+          disabled={disabled}
+        />
 
-          row.push(current.trim());
-          rows.push(row);
-        }
+        {workbook && upload && (
+          <s-select
+            value={upload.sheetIndex.toString()}
+            onChange={handleSheetChange}
+            onInput={handleSheetChange}
+            label="Worksheet"
+            disabled={disabled}
+          >
+            {workbook.sheets.map((sheet, i) => (
+              <s-option key={i} value={i.toString()}>
+                {sheet.name} ({sheet.rows.length} rows)
+              </s-option>
+            ))}
+          </s-select>
+        )}
 
-        onFileLoad(rows, file.name);
-      } catch {
-        onError("Error parsing CSV file. Please check the format.");
+        {upload && !workbook && (
+          <s-stack gap="small-100" direction="inline">
+            <s-select
+              value={upload.options.delimiter}
+              onChange={handleOptionChange("delimiter")}
+              onInput={handleOptionChange("delimiter")}
+              label="Delimiter"
+              disabled={disabled}
+            >
+              <s-option value="auto">Auto-detect</s-option>
+              {CSV_DELIMITERS.map((delimiter) => (
+                <s-option key={delimiter.label} value={delimiter.value}>
+                  {delimiter.label}
+                </s-option>
+              ))}
+            </s-select>
+
+            <s-select
+              value={upload.options.encoding}
+              onChange={handleOptionChange("encoding")}
+              onInput={handleOptionChange("encoding")}
+              label="Character encoding"
+              disabled={disabled}
+            >
+              <s-option value="auto">Auto-detect</s-option>
+              {CSV_ENCODINGS.map((encoding) => (
+                <s-option key={encoding.value} value={encoding.value}>
+                  {encoding.label}
+                </s-option>
+              ))}
+            </s-select>
+          </s-stack>
+        )}
+
+        {detected && (
+          <s-text tone="neutral">
+            Reading as {encodingLabel}
+            {detected.hasBOM ? " (with BOM)" : ""}, separated by{" "}
+            {delimiterLabel?.toLowerCase()}.
+          </s-text>
+        )}
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Supplier File List Component - files merged into this update session
+ */
+const DUPLICATE_SKU_POLICIES: Array<{
+  value: DuplicateSkuPolicy;
+  label: string;
+}> = [
+  { value: "first", label: "First file wins" },
+  { value: "last", label: "Last file wins" },
+  { value: "lowestCost", label: "Lowest cost wins" },
+  { value: "sumStock", label: "Add up stock (first cost)" },
+];
+
+interface SupplierFileListProps {
+  files: SupplierFile[];
+  activeFileId: string | null;
+  onSelectFile: (id: string) => void;
+  onRemoveFile: (id: string) => void;
+  duplicatePolicy: DuplicateSkuPolicy;
+  onDuplicatePolicyChange: (policy: DuplicateSkuPolicy) => void;
+}
+
+export function SupplierFileList({
+  files,
+  activeFileId,
+  onSelectFile,
+  onRemoveFile,
+  duplicatePolicy,
+  onDuplicatePolicyChange,
+}: SupplierFileListProps) {
+  const handlePolicyChange = useCallback(
+    (event: Event) => {
+      const customEvent = event as CustomEvent;
+      const detailValue = customEvent.detail?.value as string | undefined;
+      const currentTargetValue = (
+        event.currentTarget as { value?: string } | null
+      )?.value;
+      const targetValue = (event.target as { value?: string } | null)?.value;
+      const value = detailValue ?? currentTargetValue ?? targetValue ?? "first";
+      onDuplicatePolicyChange(value as DuplicateSkuPolicy);
+    },
+    [onDuplicatePolicyChange],
+  );
+
+  if (files.length === 0) return null;
+
+  return (
+    <s-box>
+      <s-stack gap="base">
+        <s-heading>Files in this update</s-heading>
+
+        {files.map((file) => {
+          const mapped = isFieldMappingComplete(file.fields);
+          const rowCount = getCSVDataRows(file.data, file.layout).length;
+          return (
+            <s-stack key={file.id} gap="small-200" direction="inline">
+              <s-text>
+                {file.id === activeFileId ? (
+                  <strong>{file.fileName}</strong>
+                ) : (
+                  file.fileName
+                )}{" "}
+                ({rowCount} rows)
+              </s-text>
+              <s-badge tone={mapped ? "success" : "warning"}>
+                {mapped ? "Mapped" : "Needs mapping"}
+              </s-badge>
+              {file.id !== activeFileId && (
+                <s-button
+                  variant="tertiary"
+                  onClick={() => onSelectFile(file.id)}
+                >
+                  Edit mapping
+                </s-button>
+              )}
+              <s-button
+                variant="tertiary"
+                onClick={() => onRemoveFile(file.id)}
+              >
+                Remove
+              </s-button>
+            </s-stack>
+          );
+        })}
+
+        {files.length > 1 && (
+          <s-select
+            value={duplicatePolicy}
+            onChange={handlePolicyChange}
+            onInput={handlePolicyChange}
+            label="When a SKU appears more than once"
+          >
+            {DUPLICATE_SKU_POLICIES.map((policy) => (
+              <s-option key={policy.value} value={policy.value}>
+                {policy.label}
+              </s-option>
+            ))}
+          </s-select>
+        )}
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * CSV Layout Component - header row selector and footer skipping
+ */
+interface CSVLayoutSettingsProps {
+  csvData: string[][];
+  layout: CSVLayout;
+  onLayoutChange: (updates: Partial<CSVLayout>) => void;
+}
+
+export function CSVLayoutSettings({
+  csvData,
+  layout,
+  onLayoutChange,
+}: CSVLayoutSettingsProps) {
+  const headerOptions = useMemo(
+    () =>
+      csvData.slice(0, 30).map((row, i) => {
+        const preview = row
+          .filter((value) => value !== "")
+          .slice(0, 4)
+          .join(", ");
+        return {
+          value: i.toString(),
+          label: `Row ${i + 1}: ${preview.length > 60 ? `${preview.slice(0, 60)}…` : preview}`,
+        };
+      }),
+    [csvData],
+  );
+
+  const skippedFooter = useMemo(
+    () =>
+      layout.footerRows > 0
+        ? csvData.slice(
+            Math.max(layout.headerRow + 1, csvData.length - layout.footerRows),
+          )
+        : [],
+    [csvData, layout],
+  );
+
+  const handleHeaderChange = useCallback(
+    (event: Event) => {
+      const customEvent = event as CustomEvent;
+      const detailValue = customEvent.detail?.value as string | undefined;
+      const currentTargetValue = (
+        event.currentTarget as { value?: string } | null
+      )?.value;
+      const targetValue = (event.target as { value?: string } | null)?.value;
+      const value = detailValue ?? currentTargetValue ?? targetValue ?? "0";
+      onLayoutChange({ headerRow: parseInt(value, 10) || 0 });
+    },
+    [onLayoutChange],
+  );
+
+  const handleFooterChange = useCallback(
+    (event: Event) => {
+      const target = event.currentTarget as HTMLInputElement | null;
+      const value = parseInt(target?.value ?? "", 10);
+      onLayoutChange({ footerRows: isNaN(value) || value < 0 ? 0 : value });
+    },
+    [onLayoutChange],
+  );
+
+  return (
+    <s-box>
+      <s-stack gap="base">
+        <s-heading>File Layout</s-heading>
+        <s-text tone="neutral">
+          The header row was detected automatically. Rows above it (letterheads,
+          notes, blank rows) are ignored.
+        </s-text>
+
+        <s-stack gap="small-100" direction="inline">
+          <s-select
+            value={layout.headerRow.toString()}
+            onChange={handleHeaderChange}
+            onInput={handleHeaderChange}
+            label="Header row"
+          >
+            {headerOptions.map((option) => (
+              <s-option key={option.value} value={option.value}>
+                {option.label}
+              </s-option>
+            ))}
+          </s-select>
+
+          <s-box inlineSize="160px">
+            <s-number-field
+              label="Skip last N rows"
+              value={layout.footerRows.toString()}
+              onChange={handleFooterChange}
+              min={0}
+              step={1}
+            />
+          </s-box>
+        </s-stack>
+
+        {skippedFooter.length > 0 && (
+          <s-stack gap="small-300">
+            <s-text tone="neutral">Ignoring these rows at the end:</s-text>
+            {skippedFooter.slice(-5).map((row, i) => (
+              <s-text key={i} tone="neutral">
+                {row.filter((value) => value !== "").join(", ")}
+              </s-text>
+            ))}
+          </s-stack>
+        )}
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Field Mapping Component
+ * Shows a confidence badge while a field is still on its suggested column
+ */
+const CONFIDENCE_TONES: Record<
+  MappingConfidence,
+  "success" | "info" | "warning"
+> = {
+  high: "success",
+  medium: "info",
+  low: "warning",
+};
+
+function SuggestionBadge({
+  suggestion,
+  value,
+}: {
+  suggestion?: FieldSuggestion;
+  value: number | "none" | null;
+}) {
+  if (!suggestion || suggestion.column !== value) return null;
+  return (
+    <s-badge tone={CONFIDENCE_TONES[suggestion.confidence]}>
+      Suggested ({suggestion.confidence} confidence)
+    </s-badge>
+  );
+}
+
+interface FieldMapperProps {
+  headers: string[];
+  fields: CSVFieldMapping;
+  onFieldChange: (
+    field: keyof CSVFieldMapping,
+    value: number | "none" | null,
+  ) => void;
+  numberLocale?: NumberLocale;
+  onNumberLocaleChange?: (locale: NumberLocale) => void;
+  suggestions?: FieldSuggestions;
+}
+
+export function FieldMapper({
+  headers,
+  fields,
+  onFieldChange,
+  numberLocale,
+  onNumberLocaleChange,
+  suggestions = {},
+}: FieldMapperProps) {
+  const handleLocaleChange = useCallback(
+    (event: Event) => {
+      if (!onNumberLocaleChange) return;
+      const customEvent = event as CustomEvent;
+      const detailValue = customEvent.detail?.value as string | undefined;
+      const currentTargetValue = (
+        event.currentTarget as { value?: string } | null
+      )?.value;
+      const targetValue = (event.target as { value?: string } | null)?.value;
+      const value = detailValue ?? currentTargetValue ?? targetValue ?? "auto";
+      onNumberLocaleChange(value as NumberLocale);
+    },
+    [onNumberLocaleChange],
+  );
+
+  const handleChange = useCallback(
+    (field: keyof CSVFieldMapping) => (event: Event) => {
+      const customEvent = event as CustomEvent;
+      const detailValue = customEvent.detail?.value as string | undefined;
+      const currentTargetValue = (
+        event.currentTarget as { value?: string } | null
+      )?.value;
+      const targetValue = (event.target as { value?: string } | null)?.value;
+      const value = detailValue ?? currentTargetValue ?? targetValue ?? "";
+      if (value === "") {
+        onFieldChange(field, null);
+      } else if (value === "none") {
+        onFieldChange(field, "none");
+      } else {
+        onFieldChange(field, parseInt(value, 10));
       }
     },
-    [onFileLoad, onError],
+    [onFieldChange],
   );
 
   return (
     <s-box>
       <s-stack gap="base">
-        <s-heading>Upload CSV File</s-heading>
+        <s-heading>Map CSV Columns</s-heading>
+
+        <s-stack gap="small-100" direction="inline">
+          <s-stack gap="small-300">
+            <s-select
+              value={
+                fields.sku.value !== null ? fields.sku.value.toString() : ""
+              }
+              onChange={handleChange("sku")}
+              onInput={handleChange("sku")}
+              label={fields.sku.label}
+            >
+              <s-option value="" disabled selected={fields.sku.value === null}>
+                Please select...
+              </s-option>
+              {headers.map((header, i) => (
+                <s-option key={i} value={i.toString()}>
+                  {header}
+                </s-option>
+              ))}
+            </s-select>
+            <SuggestionBadge
+              suggestion={suggestions.sku}
+              value={fields.sku.value}
+            />
+          </s-stack>
+
+          <s-stack gap="small-300">
+            <s-select
+              value={
+                fields.cost.value !== null ? fields.cost.value.toString() : ""
+              }
+              onChange={handleChange("cost")}
+              onInput={handleChange("cost")}
+              label={fields.cost.label}
+            >
+              <s-option value="" disabled selected={fields.cost.value === null}>
+                Please select...
+              </s-option>
+              {headers.map((header, i) => (
+                <s-option key={i} value={i.toString()}>
+                  {header}
+                </s-option>
+              ))}
+            </s-select>
+            <SuggestionBadge
+              suggestion={suggestions.cost}
+              value={fields.cost.value}
+            />
+          </s-stack>
+
+          <s-stack gap="small-300">
+            <s-select
+              value={
+                fields.soh.value !== null ? fields.soh.value.toString() : ""
+              }
+              onChange={handleChange("soh")}
+              onInput={handleChange("soh")}
+              label={fields.soh.label}
+            >
+              <s-option value="" disabled selected={fields.soh.value === null}>
+                Please select...
+              </s-option>
+              <s-option value="none">N/A (No stock update)</s-option>
+              {headers.map((header, i) => (
+                <s-option key={i} value={i.toString()}>
+                  {header}
+                </s-option>
+              ))}
+            </s-select>
+            <SuggestionBadge
+              suggestion={suggestions.soh}
+              value={fields.soh.value}
+            />
+          </s-stack>
+
+          {numberLocale && onNumberLocaleChange && (
+            <s-select
+              value={numberLocale}
+              onChange={handleLocaleChange}
+              onInput={handleLocaleChange}
+              label="Number format"
+            >
+              {NUMBER_LOCALES.map((locale) => (
+                <s-option key={locale.value} value={locale.value}>
+                  {locale.label}
+                </s-option>
+              ))}
+            </s-select>
+          )}
+        </s-stack>
+
+        <s-heading>Optional Fields</s-heading>
         <s-text tone="neutral">
-          If your CSV file doesn&apos;t load correctly, try importing it to
-          Google Sheets first, then download it as CSV again.
+          Map any other columns the supplier sends to update them in Shopify as
+          well.
         </s-text>
-        <s-drop-zone
-          accessibilityLabel="Upload CSV file"
-          accept=".csv"
-          onChange={handleChange}
-          disabled={disabled}
-        />
+        <s-stack gap="small-100" direction="inline">
+          {OPTIONAL_FIELDS.map((field) => (
+            <s-stack key={field.key} gap="small-300">
+              <s-select
+                value={fields[field.key].value?.toString() ?? ""}
+                onChange={handleChange(field.key)}
+                onInput={handleChange(field.key)}
+                label={field.label}
+                details={field.target}
+              >
+                <s-option value="">Not mapped</s-option>
+                {headers.map((header, i) => (
+                  <s-option key={i} value={i.toString()}>
+                    {header}
+                  </s-option>
+                ))}
+              </s-select>
+              <SuggestionBadge
+                suggestion={suggestions[field.key]}
+                value={fields[field.key].value}
+              />
+            </s-stack>
+          ))}
+        </s-stack>
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Mapping Preview Component - first rows as the current mapping reads them
+ */
+interface MappingPreviewProps {
+  rows: MappedRowPreview[];
+}
+
+export function MappingPreview({ rows }: MappingPreviewProps) {
+  if (rows.length === 0) return null;
+  const hasStock = rows.some((row) => row.soh !== null);
+  const optionalFields = OPTIONAL_FIELDS.filter(
+    (field) => rows[0].fields[field.key] !== undefined,
+  );
+
+  const renderNumber = (
+    cell: MappedRowPreview["cost"],
+    format: (value: number) => string,
+  ) => {
+    if (!cell) return null;
+    if (cell.value === null) {
+      return <s-text tone="critical">{cell.raw || "(blank)"}</s-text>;
+    }
+    return (
+      <s-text>
+        {format(cell.value)}
+        {cell.raw !== format(cell.value) && (
+          <s-text tone="neutral"> ({cell.raw})</s-text>
+        )}
+      </s-text>
+    );
+  };
+
+  return (
+    <s-box>
+      <s-stack gap="small-200">
+        <s-heading>Preview</s-heading>
+        <s-table>
+          <s-table-header-row>
+            <s-table-header>Row</s-table-header>
+            <s-table-header listSlot="primary">SKU</s-table-header>
+            <s-table-header>Cost</s-table-header>
+            {hasStock && <s-table-header>Stock</s-table-header>}
+            {optionalFields.map((field) => (
+              <s-table-header key={field.key}>
+                {getFieldName(field)}
+              </s-table-header>
+            ))}
+          </s-table-header-row>
+          <s-table-body>
+            {rows.map((row) => (
+              <s-table-row key={row.row}>
+                <s-table-cell>{row.row}</s-table-cell>
+                <s-table-cell>
+                  {row.sku || <s-text tone="critical">(blank)</s-text>}
+                  {row.sku && row.sku !== row.skuRaw && (
+                    <s-text tone="neutral"> ({row.skuRaw})</s-text>
+                  )}
+                </s-table-cell>
+                <s-table-cell>
+                  {renderNumber(row.cost, (value) => value.toFixed(2))}
+                </s-table-cell>
+                {hasStock && (
+                  <s-table-cell>
+                    {renderNumber(row.soh, (value) =>
+                      Math.trunc(value).toString(),
+                    )}
+                  </s-table-cell>
+                )}
+                {optionalFields.map((field) => {
+                  const cell = row.fields[field.key];
+                  return (
+                    <s-table-cell key={field.key}>
+                      {cell?.value === null ? (
+                        <s-text tone="critical">{cell.raw}</s-text>
+                      ) : (
+                        cell?.value
+                      )}
+                      {cell?.value && cell.value !== cell.raw.trim() && (
+                        <s-text tone="neutral"> ({cell.raw})</s-text>
+                      )}
+                    </s-table-cell>
+                  );
+                })}
+              </s-table-row>
+            ))}
+          </s-table-body>
+        </s-table>
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Field Transform Component - per-field steps run on each cell before it is
+ * parsed (e.g. strip a SKU prefix, convert a carton price to a unit cost)
+ */
+const CASE_MODES: Array<{ value: string; label: string }> = [
+  { value: "upper", label: "UPPER CASE" },
+  { value: "lower", label: "lower case" },
+  { value: "title", label: "Title Case" },
+];
+
+interface FieldTransformEditorProps {
+  headers: string[];
+  fields: CSVFieldMapping;
+  transforms: FieldTransforms;
+  onChange: (field: SupplierFieldKey, transforms: FieldTransform[]) => void;
+}
+
+export function FieldTransformEditor({
+  headers,
+  fields,
+  transforms,
+  onChange,
+}: FieldTransformEditorProps) {
+  const mappedFields = SUPPLIER_FIELDS.filter((field) => {
+    const value = fields[field.key].value;
+    return value !== null && value !== "none";
+  });
+  const [fieldKey, setFieldKey] = useState<SupplierFieldKey>("sku");
+  const [type, setType] = useState<FieldTransform["type"]>("trim");
+  const [caseMode, setCaseMode] = useState("upper");
+  const [pattern, setPattern] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [flags, setFlags] = useState("g");
+  const [packSize, setPackSize] = useState("1");
+  const [packColumn, setPackColumn] = useState("");
+  const [expression, setExpression] = useState("");
+
+  const activeField =
+    mappedFields.find((field) => field.key === fieldKey) || mappedFields[0];
+  const steps = activeField ? transforms[activeField.key] || [] : [];
+
+  const readSelect = (event: Event, fallback: string) => {
+    const customEvent = event as CustomEvent;
+    const detailValue = customEvent.detail?.value as string | undefined;
+    const currentTargetValue = (
+      event.currentTarget as { value?: string } | null
+    )?.value;
+    const targetValue = (event.target as { value?: string } | null)?.value;
+    return detailValue ?? currentTargetValue ?? targetValue ?? fallback;
+  };
+  const readInput = (event: Event) =>
+    (event.currentTarget as HTMLInputElement | null)?.value ?? "";
+
+  const patternError =
+    type === "replace" ? getPatternError(pattern, flags) : null;
+  const expressionError =
+    type === "expression" && expression !== ""
+      ? getExpressionError(expression)
+      : null;
+  const size = parseFloat(packSize);
+
+  const buildStep = (): FieldTransform | null => {
+    switch (type) {
+      case "trim":
+        return { type };
+      case "case":
+        return { type, mode: caseMode as "upper" | "lower" | "title" };
+      case "replace":
+        return pattern && !patternError
+          ? { type, pattern, replacement, flags }
+          : null;
+      case "packSize":
+        return size > 0 || packColumn
+          ? { type, size: size > 0 ? size : 1, column: packColumn || null }
+          : null;
+      case "expression":
+        return expression && !getExpressionError(expression)
+          ? { type, expression }
+          : null;
+    }
+  };
+  const step = buildStep();
+
+  if (!activeField) return null;
+
+  return (
+    <s-box>
+      <s-stack gap="base">
+        <s-heading>Transforms</s-heading>
+        <s-text tone="neutral">
+          Clean up or convert a column before it is read. Steps run in order and
+          the preview below shows each value before and after.
+        </s-text>
+
+        <s-select
+          value={activeField.key}
+          onChange={(event: Event) =>
+            setFieldKey(readSelect(event, "sku") as SupplierFieldKey)
+          }
+          onInput={(event: Event) =>
+            setFieldKey(readSelect(event, "sku") as SupplierFieldKey)
+          }
+          label="Field"
+        >
+          {mappedFields.map((field) => {
+            const count = transforms[field.key]?.length || 0;
+            return (
+              <s-option key={field.key} value={field.key}>
+                {getFieldName(field)}
+                {count > 0 ? ` (${count} step${count === 1 ? "" : "s"})` : ""}
+              </s-option>
+            );
+          })}
+        </s-select>
+
+        {steps.length > 0 && (
+          <s-stack gap="small-200">
+            {steps.map((transform, i) => (
+              <s-stack key={i} gap="small-200" direction="inline">
+                <s-text>
+                  {i + 1}. {describeTransform(transform)}
+                </s-text>
+                <s-button
+                  variant="tertiary"
+                  onClick={() =>
+                    onChange(
+                      activeField.key,
+                      steps.filter((_, index) => index !== i),
+                    )
+                  }
+                >
+                  Remove
+                </s-button>
+              </s-stack>
+            ))}
+          </s-stack>
+        )}
+
+        <s-stack gap="small-100" direction="inline">
+          <s-select
+            value={type}
+            onChange={(event: Event) =>
+              setType(readSelect(event, "trim") as FieldTransform["type"])
+            }
+            onInput={(event: Event) =>
+              setType(readSelect(event, "trim") as FieldTransform["type"])
+            }
+            label="Step"
+          >
+            {TRANSFORM_TYPES.map((option) => (
+              <s-option key={option.value} value={option.value}>
+                {option.label}
+              </s-option>
+            ))}
+          </s-select>
+
+          {type === "case" && (
+            <s-select
+              value={caseMode}
+              onChange={(event: Event) =>
+                setCaseMode(readSelect(event, "upper"))
+              }
+              onInput={(event: Event) =>
+                setCaseMode(readSelect(event, "upper"))
+              }
+              label="Case"
+            >
+              {CASE_MODES.map((mode) => (
+                <s-option key={mode.value} value={mode.value}>
+                  {mode.label}
+                </s-option>
+              ))}
+            </s-select>
+          )}
+
+          {type === "replace" && (
+            <>
+              <s-text-field
+                label="Find (regex)"
+                value={pattern}
+                onInput={(event: Event) => setPattern(readInput(event))}
+                onChange={(event: Event) => setPattern(readInput(event))}
+                error={pattern ? patternError || undefined : undefined}
+              />
+              <s-text-field
+                label="Replace with"
+                value={replacement}
+                onInput={(event: Event) => setReplacement(readInput(event))}
+                onChange={(event: Event) => setReplacement(readInput(event))}
+                details="$1 inserts the first captured group"
+              />
+              <s-box inlineSize="80px">
+                <s-text-field
+                  label="Flags"
+                  value={flags}
+                  onInput={(event: Event) => setFlags(readInput(event))}
+                  onChange={(event: Event) => setFlags(readInput(event))}
+                />
+              </s-box>
+            </>
+          )}
+
+          {type === "packSize" && (
+            <>
+              <s-box inlineSize="120px">
+                <s-number-field
+                  label="Pack size"
+                  value={packSize}
+                  onChange={(event: Event) => setPackSize(readInput(event))}
+                  min={0}
+                />
+              </s-box>
+              <s-select
+                value={packColumn}
+                onChange={(event: Event) =>
+                  setPackColumn(readSelect(event, ""))
+                }
+                onInput={(event: Event) => setPackColumn(readSelect(event, ""))}
+                label="Pack size column"
+                details="Used when filled in, otherwise the pack size above"
+              >
+                <s-option value="">Same for every row</s-option>
+                {headers.map((header, i) => (
+                  <s-option key={i} value={header}>
+                    {header || `Column ${i + 1}`}
+                  </s-option>
+                ))}
+              </s-select>
+            </>
+          )}
+
+          {type === "expression" && (
+            <s-text-field
+              label="Formula"
+              value={expression}
+              placeholder="[Carton Price] / [Carton Qty]"
+              onInput={(event: Event) => setExpression(readInput(event))}
+              onChange={(event: Event) => setExpression(readInput(event))}
+              error={expressionError || undefined}
+              details="Use value for this column, [Header] for another column, + - * / ( ) and round(x, 2)"
+            />
+          )}
+        </s-stack>
+
+        <s-stack direction="inline">
+          <s-button
+            variant="secondary"
+            disabled={!step}
+            onClick={() => step && onChange(activeField.key, [...steps, step])}
+          >
+            Add step
+          </s-button>
+        </s-stack>
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Row Filter Component - include/exclude rules on any column, with the
+ * number of rows each rule removes
+ */
+interface RowFilterEditorProps {
+  headers: string[];
+  filters: RowFilter[];
+  summary: RowFilterSummary | null;
+  onChange: (filters: RowFilter[]) => void;
+}
+
+export function RowFilterEditor({
+  headers,
+  filters,
+  summary,
+  onChange,
+}: RowFilterEditorProps) {
+  const [mode, setMode] = useState<RowFilter["mode"]>("exclude");
+  const [column, setColumn] = useState("");
+  const [operator, setOperator] = useState<RowFilterOperator>("equals");
+  const [value, setValue] = useState("");
+  const [min, setMin] = useState("");
+  const [max, setMax] = useState("");
+
+  const readSelect = (event: Event, fallback: string) => {
+    const customEvent = event as CustomEvent;
+    const detailValue = customEvent.detail?.value as string | undefined;
+    const currentTargetValue = (
+      event.currentTarget as { value?: string } | null
+    )?.value;
+    const targetValue = (event.target as { value?: string } | null)?.value;
+    return detailValue ?? currentTargetValue ?? targetValue ?? fallback;
+  };
+  const readInput = (event: Event) =>
+    (event.currentTarget as HTMLInputElement | null)?.value ?? "";
+
+  const selectedColumn = column || headers.find((header) => header) || "";
+  const minValue = min.trim() === "" ? null : parseFloat(min);
+  const maxValue = max.trim() === "" ? null : parseFloat(max);
+
+  const patternError =
+    operator === "regex" && value ? getPatternError(value, "i") : null;
+
+  const canAdd =
+    selectedColumn !== "" &&
+    (operator === "range"
+      ? (minValue !== null && !isNaN(minValue)) ||
+        (maxValue !== null && !isNaN(maxValue))
+      : value.trim() !== "" && !patternError);
+
+  const handleAdd = () => {
+    onChange([
+      ...filters,
+      {
+        mode,
+        column: selectedColumn,
+        operator,
+        value: operator === "range" ? "" : value,
+        min: operator === "range" && !isNaN(minValue ?? NaN) ? minValue : null,
+        max: operator === "range" && !isNaN(maxValue ?? NaN) ? maxValue : null,
+      },
+    ]);
+    setValue("");
+    setMin("");
+    setMax("");
+  };
+
+  return (
+    <s-box>
+      <s-stack gap="base">
+        <s-heading>Row Filters</s-heading>
+        <s-text tone="neutral">
+          Leave out rows you never sell (other brands, discontinued or indent
+          only lines) before products are looked up. A row is kept when it
+          matches a keep rule for each column that has them, and no drop rule.
+        </s-text>
+
+        {filters.length > 0 && (
+          <s-stack gap="small-200">
+            {filters.map((filter, i) => (
+              <s-stack key={i} gap="small-200" direction="inline">
+                <s-text>{describeRowFilter(filter)}</s-text>
+                {summary?.missingColumns.includes(filter.column) ? (
+                  <s-badge tone="warning">Column not in this file</s-badge>
+                ) : (
+                  <s-badge tone={summary?.removed[i] ? "info" : "neutral"}>
+                    {summary?.removed[i] ?? 0} rows removed
+                  </s-badge>
+                )}
+                <s-button
+                  variant="tertiary"
+                  onClick={() =>
+                    onChange(filters.filter((_, index) => index !== i))
+                  }
+                >
+                  Remove
+                </s-button>
+              </s-stack>
+            ))}
+            {summary && (
+              <s-text tone="neutral">
+                Keeping {summary.keptRows} of {summary.totalRows} rows.
+              </s-text>
+            )}
+          </s-stack>
+        )}
+
+        <s-stack gap="small-100" direction="inline">
+          <s-select
+            value={mode}
+            onChange={(event: Event) =>
+              setMode(readSelect(event, "exclude") as RowFilter["mode"])
+            }
+            onInput={(event: Event) =>
+              setMode(readSelect(event, "exclude") as RowFilter["mode"])
+            }
+            label="Rule"
+          >
+            <s-option value="exclude">Drop rows where</s-option>
+            <s-option value="include">Keep only rows where</s-option>
+          </s-select>
+
+          <s-select
+            value={selectedColumn}
+            onChange={(event: Event) => setColumn(readSelect(event, ""))}
+            onInput={(event: Event) => setColumn(readSelect(event, ""))}
+            label="Column"
+          >
+            {headers.map((header, i) =>
+              header ? (
+                <s-option key={i} value={header}>
+                  {header}
+                </s-option>
+              ) : null,
+            )}
+          </s-select>
+
+          <s-select
+            value={operator}
+            onChange={(event: Event) =>
+              setOperator(readSelect(event, "equals") as RowFilterOperator)
+            }
+            onInput={(event: Event) =>
+              setOperator(readSelect(event, "equals") as RowFilterOperator)
+            }
+            label="Condition"
+          >
+            {ROW_FILTER_OPERATORS.map((option) => (
+              <s-option key={option.value} value={option.value}>
+                {option.label}
+              </s-option>
+            ))}
+          </s-select>
+
+          {operator === "range" ? (
+            <>
+              <s-box inlineSize="120px">
+                <s-number-field
+                  label="From"
+                  value={min}
+                  onChange={(event: Event) => setMin(readInput(event))}
+                />
+              </s-box>
+              <s-box inlineSize="120px">
+                <s-number-field
+                  label="To"
+                  value={max}
+                  onChange={(event: Event) => setMax(readInput(event))}
+                />
+              </s-box>
+            </>
+          ) : (
+            <s-text-field
+              label="Value"
+              value={value}
+              onInput={(event: Event) => setValue(readInput(event))}
+              onChange={(event: Event) => setValue(readInput(event))}
+              error={patternError || undefined}
+            />
+          )}
+        </s-stack>
+
+        <s-stack direction="inline">
+          <s-button variant="secondary" disabled={!canAdd} onClick={handleAdd}>
+            Add rule
+          </s-button>
+        </s-stack>
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Supplier Currency Component - currency the file's costs are in, and the
+ * landed-cost uplift added after conversion
+ */
+interface CurrencySettingsProps {
+  currency: SupplierCurrency;
+  shopCurrency: string;
+  rates: ExchangeRate[];
+  onChange: (updates: Partial<SupplierCurrency>) => void;
+}
+
+export function CurrencySettings({
+  currency,
+  shopCurrency,
+  rates,
+  onChange,
+}: CurrencySettingsProps) {
+  const codes = Array.from(
+    new Set([...rates.map((rate) => rate.currency), ...SUPPLIER_CURRENCIES]),
+  ).filter((code) => code !== shopCurrency);
+  const rate = getExchangeRate(currency.code, shopCurrency, rates);
+
+  const handleCurrencyChange = useCallback(
+    (event: Event) => {
+      const customEvent = event as CustomEvent;
+      const detailValue = customEvent.detail?.value as string | undefined;
+      const currentTargetValue = (
+        event.currentTarget as { value?: string } | null
+      )?.value;
+      const targetValue = (event.target as { value?: string } | null)?.value;
+      const value = detailValue ?? currentTargetValue ?? targetValue ?? "";
+      onChange({ code: value || null });
+    },
+    [onChange],
+  );
+
+  const handleUpliftChange = useCallback(
+    (event: Event) => {
+      const target = event.currentTarget as HTMLInputElement | null;
+      const value = parseFloat(target?.value ?? "");
+      onChange({ uplift: isNaN(value) || value < 0 ? 0 : value });
+    },
+    [onChange],
+  );
+
+  return (
+    <s-box>
+      <s-stack gap="base">
+        <s-heading>Cost Currency</s-heading>
+        <s-stack gap="small-100" direction="inline">
+          <s-select
+            value={currency.code ?? ""}
+            onChange={handleCurrencyChange}
+            onInput={handleCurrencyChange}
+            label="Supplier costs are in"
+          >
+            <s-option value="">{shopCurrency} (shop currency)</s-option>
+            {codes.map((code) => (
+              <s-option key={code} value={code}>
+                {code}
+              </s-option>
+            ))}
+          </s-select>
+
+          <s-box inlineSize="180px">
+            <s-number-field
+              label="Landed-cost uplift (%)"
+              value={currency.uplift.toString()}
+              onChange={handleUpliftChange}
+              min={0}
+              step={0.5}
+            />
+          </s-box>
+        </s-stack>
+
+        {rate === null ? (
+          <s-text tone="critical">
+            No exchange rate for {currency.code}. Add one under Exchange Rates
+            to continue.
+          </s-text>
+        ) : (
+          currency.code &&
+          currency.code !== shopCurrency && (
+            <s-text tone="neutral">
+              Costs are converted at 1 {currency.code} = {rate} {shopCurrency}
+              {currency.uplift > 0 && `, then increased by ${currency.uplift}%`}
+              .
+            </s-text>
+          )
+        )}
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Cost Tax Component - whether the file's costs include tax
+ */
+interface CostTaxSettingsProps {
+  tax: SupplierTax;
+  onChange: (updates: Partial<SupplierTax>) => void;
+}
+
+export function CostTaxSettings({ tax, onChange }: CostTaxSettingsProps) {
+  const handleRateChange = useCallback(
+    (event: Event) => {
+      const target = event.currentTarget as HTMLInputElement | null;
+      const value = parseFloat(target?.value ?? "");
+      onChange({ rate: isNaN(value) || value < 0 ? 0 : value });
+    },
+    [onChange],
+  );
+
+  return (
+    <s-box>
+      <s-stack gap="small-200">
+        <s-checkbox
+          label="Supplier costs include tax"
+          checked={tax.costIncludesTax}
+          onChange={() => onChange({ costIncludesTax: !tax.costIncludesTax })}
+        />
+        {tax.costIncludesTax && (
+          <s-box inlineSize="180px">
+            <s-number-field
+              label="Tax rate (%)"
+              value={tax.rate.toString()}
+              onChange={handleRateChange}
+              min={0}
+              step={0.5}
+            />
+          </s-box>
+        )}
+        <s-text tone="neutral">
+          {tax.costIncludesTax
+            ? "Tax is taken out of each cost, so costs are saved and compared ex tax."
+            : "Costs are used as they are (ex tax)."}
+        </s-text>
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Price Tax Component - shop-level setting for whether Shopify prices include
+ * tax, so margins compare ex-tax prices with ex-tax costs
+ */
+interface PriceTaxSettingsProps {
+  settings: ShopSettings;
+  isSaving?: boolean;
+  onSave: (settings: ShopSettings) => void;
+}
+
+export function PriceTaxSettings({
+  settings,
+  isSaving,
+  onSave,
+}: PriceTaxSettingsProps) {
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const handleRateChange = useCallback((event: Event) => {
+    const target = event.currentTarget as HTMLInputElement | null;
+    const value = parseFloat(target?.value ?? "");
+    setDraft((prev) => ({
+      ...prev,
+      priceTaxRate: isNaN(value) || value < 0 ? 0 : value,
+    }));
+  }, []);
+
+  const changed =
+    draft.pricesIncludeTax !== settings.pricesIncludeTax ||
+    draft.priceTaxRate !== settings.priceTaxRate;
+
+  return (
+    <s-box>
+      <s-stack gap="small-200">
+        <s-heading>Shop Prices</s-heading>
+        <s-checkbox
+          label="My Shopify prices include tax"
+          checked={draft.pricesIncludeTax}
+          onChange={() =>
+            setDraft((prev) => ({
+              ...prev,
+              pricesIncludeTax: !prev.pricesIncludeTax,
+            }))
+          }
+        />
+        {draft.pricesIncludeTax && (
+          <s-box inlineSize="180px">
+            <s-number-field
+              label="Tax rate in prices (%)"
+              value={draft.priceTaxRate.toString()}
+              onChange={handleRateChange}
+              min={0}
+              step={0.5}
+            />
+          </s-box>
+        )}
+        <s-stack direction="inline">
+          <s-button
+            variant="secondary"
+            onClick={() => onSave(draft)}
+            disabled={!changed || isSaving}
+            loading={isSaving}
+          >
+            Save shop setting
+          </s-button>
+        </s-stack>
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Bulk Lookup Component - shop-level row count from which files are looked up
+ * with a bulk export of the store's variants instead of searches
+ */
+interface BulkLookupSettingsProps {
+  threshold: number;
+  isSaving?: boolean;
+  onSave: (threshold: number) => void;
+}
+
+export function BulkLookupSettings({
+  threshold,
+  isSaving,
+  onSave,
+}: BulkLookupSettingsProps) {
+  const [draft, setDraft] = useState(threshold);
+
+  useEffect(() => {
+    setDraft(threshold);
+  }, [threshold]);
+
+  const handleChange = useCallback((event: Event) => {
+    const target = event.currentTarget as HTMLInputElement | null;
+    const value = parseInt(target?.value ?? "", 10);
+    setDraft(isNaN(value) || value < 0 ? 0 : value);
+  }, []);
+
+  return (
+    <s-box>
+      <s-stack gap="small-200">
+        <s-heading>Large Files</s-heading>
+        <s-text tone="neutral">
+          Files with at least this many rows export every variant in the store
+          once and match in memory, which is faster for large files. Set to 0 to
+          always search (SKU matching rules still use an export).
+        </s-text>
+        <s-box inlineSize="180px">
+          <s-number-field
+            label="Bulk lookup from (rows)"
+            value={draft.toString()}
+            onChange={handleChange}
+            min={0}
+            step={1000}
+          />
+        </s-box>
+        <s-stack direction="inline">
+          <s-button
+            variant="secondary"
+            onClick={() => onSave(draft)}
+            disabled={draft === threshold || isSaving}
+            loading={isSaving}
+          >
+            Save shop setting
+          </s-button>
+        </s-stack>
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * SKU Rules Component - shop-level normalisation applied to supplier and
+ * Shopify SKUs before they are compared, with a box to try a supplier SKU
+ */
+interface SkuRuleSettingsProps {
+  rules: SkuRule[];
+  isSaving?: boolean;
+  onSave: (rules: SkuRule[]) => void;
+  testResult?: SkuTestResult | null;
+  isTesting?: boolean;
+  onTest: (sku: string, rules: SkuRule[]) => void;
+}
+
+export function SkuRuleSettings({
+  rules,
+  isSaving,
+  onSave,
+  testResult,
+  isTesting,
+  onTest,
+}: SkuRuleSettingsProps) {
+  const [draft, setDraft] = useState(rules);
+  const [type, setType] = useState<SkuRule["type"]>("stripChars");
+  const [chars, setChars] = useState(" -");
+  const [mode, setMode] = useState<"add" | "remove">("remove");
+  const [value, setValue] = useState("");
+  const [pattern, setPattern] = useState("");
+  const [testSku, setTestSku] = useState("");
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const readSelect = (event: Event, fallback: string) => {
+    const customEvent = event as CustomEvent;
+    const detailValue = customEvent.detail?.value as string | undefined;
+    const currentTargetValue = (
+      event.currentTarget as { value?: string } | null
+    )?.value;
+    const targetValue = (event.target as { value?: string } | null)?.value;
+    return detailValue ?? currentTargetValue ?? targetValue ?? fallback;
+  };
+  const readInput = (event: Event) =>
+    (event.currentTarget as HTMLInputElement | null)?.value ?? "";
+
+  const buildRule = (): SkuRule => {
+    switch (type) {
+      case "stripChars":
+        return { type, chars };
+      case "stripLeadingZeros":
+        return { type };
+      case "prefix":
+      case "suffix":
+        return { type, mode, value };
+      case "regex":
+        return { type, pattern };
+    }
+  };
+  const rule = buildRule();
+  const ruleError = getSkuRuleError(rule);
+  const changed = JSON.stringify(draft) !== JSON.stringify(rules);
+  const normalizedTest = normalizeSku(testSku, draft);
+  const result =
+    testResult && testResult.sku === testSku.trim() ? testResult : null;
+
+  return (
+    <s-box>
+      <s-stack gap="base">
+        <s-heading>SKU Matching</s-heading>
+        <s-text tone="neutral">
+          Rules run in order on both the supplier SKU and your Shopify SKU
+          before they are compared, ignoring case. With rules set, lookups
+          always export the store&apos;s variants so their SKUs can be
+          normalised; the test below searches for the SKU and its normalised
+          form only.
+        </s-text>
+
+        {draft.length > 0 && (
+          <s-stack gap="small-200">
+            {draft.map((existing, i) => (
+              <s-stack key={i} gap="small-200" direction="inline">
+                <s-text>
+                  {i + 1}. {describeSkuRule(existing)}
+                </s-text>
+                <s-button
+                  variant="tertiary"
+                  onClick={() =>
+                    setDraft(draft.filter((_, index) => index !== i))
+                  }
+                >
+                  Remove
+                </s-button>
+              </s-stack>
+            ))}
+          </s-stack>
+        )}
+
+        <s-stack gap="small-100" direction="inline">
+          <s-select
+            value={type}
+            onChange={(event: Event) =>
+              setType(readSelect(event, "stripChars") as SkuRule["type"])
+            }
+            onInput={(event: Event) =>
+              setType(readSelect(event, "stripChars") as SkuRule["type"])
+            }
+            label="Rule"
+          >
+            {SKU_RULE_TYPES.map((option) => (
+              <s-option key={option.value} value={option.value}>
+                {option.label}
+              </s-option>
+            ))}
+          </s-select>
+
+          {type === "stripChars" && (
+            <s-text-field
+              label="Characters"
+              value={chars}
+              onInput={(event: Event) => setChars(readInput(event))}
+              onChange={(event: Event) => setChars(readInput(event))}
+              details="Every character entered is removed, including spaces"
+            />
+          )}
+
+          {(type === "prefix" || type === "suffix") && (
+            <>
+              <s-select
+                value={mode}
+                onChange={(event: Event) =>
+                  setMode(readSelect(event, "remove") as "add" | "remove")
+                }
+                onInput={(event: Event) =>
+                  setMode(readSelect(event, "remove") as "add" | "remove")
+                }
+                label="Action"
+              >
+                <s-option value="remove">Remove</s-option>
+                <s-option value="add">Add when missing</s-option>
+              </s-select>
+              <s-text-field
+                label={type === "prefix" ? "Prefix" : "Suffix"}
+                value={value}
+                placeholder={type === "prefix" ? "ABC-" : "-AU"}
+                onInput={(event: Event) => setValue(readInput(event))}
+                onChange={(event: Event) => setValue(readInput(event))}
+              />
+            </>
+          )}
+
+          {type === "regex" && (
+            <s-text-field
+              label="Pattern"
+              value={pattern}
+              placeholder="^[a-z]+-(\d+)$"
+              onInput={(event: Event) => setPattern(readInput(event))}
+              onChange={(event: Event) => setPattern(readInput(event))}
+              error={pattern ? ruleError || undefined : undefined}
+              details="The first captured group (or the whole match) is kept"
+            />
+          )}
+        </s-stack>
+
+        <s-stack gap="small-200" direction="inline">
+          <s-button
+            variant="secondary"
+            disabled={!!ruleError}
+            onClick={() => setDraft([...draft, rule])}
+          >
+            Add rule
+          </s-button>
+          <s-button
+            variant="secondary"
+            onClick={() => onSave(draft)}
+            disabled={!changed || isSaving}
+            loading={isSaving}
+          >
+            Save SKU rules
+          </s-button>
+        </s-stack>
+
+        <s-stack gap="small-100" direction="inline">
+          <s-text-field
+            label="Test a supplier SKU"
+            value={testSku}
+            placeholder="ABC-01234"
+            onInput={(event: Event) => setTestSku(readInput(event))}
+            onChange={(event: Event) => setTestSku(readInput(event))}
+            details={
+              testSku.trim() ? `Normalises to "${normalizedTest}"` : undefined
+            }
+          />
+          <s-button
+            onClick={() => onTest(testSku, draft)}
+            disabled={!testSku.trim() || isTesting}
+            loading={isTesting}
+          >
+            Find matches
+          </s-button>
+        </s-stack>
+        {result &&
+          (result.matches.length === 0 ? (
+            <s-text tone="neutral">No variant in the store matches.</s-text>
+          ) : (
+            <s-stack gap="small-100">
+              {result.matches.map((match, i) => (
+                <s-text key={i}>
+                  Matches {match.sku} ({match.title})
+                </s-text>
+              ))}
+            </s-stack>
+          ))}
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Pricing Rule Settings Component - target markup or margin per vendor,
+ * product type, collection, tag or cost band, checked in order when products
+ * are looked up
+ */
+interface PricingRuleSettingsProps {
+  rules: PricingRule[];
+  isSaving?: boolean;
+  onSave: (rules: PricingRule[]) => void;
+  onPickCollection: () => Promise<{ id: string; title: string } | null>;
+}
+
+export function PricingRuleSettings({
+  rules,
+  isSaving,
+  onSave,
+  onPickCollection,
+}: PricingRuleSettingsProps) {
+  const [draft, setDraft] = useState(rules);
+  const [type, setType] = useState<PricingRuleCondition["type"]>("vendor");
+  const [value, setValue] = useState("");
+  const [collection, setCollection] = useState<{
+    id: string;
+    title: string;
+  } | null>(null);
+  const [min, setMin] = useState("");
+  const [max, setMax] = useState("");
+  const [target, setTarget] = useState<PricingRule["target"]>("markup");
+  const [percent, setPercent] = useState("");
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const readSelect = (event: Event, fallback: string) => {
+    const customEvent = event as CustomEvent;
+    const detailValue = customEvent.detail?.value as string | undefined;
+    const currentTargetValue = (
+      event.currentTarget as { value?: string } | null
+    )?.value;
+    const targetValue = (event.target as { value?: string } | null)?.value;
+    return detailValue ?? currentTargetValue ?? targetValue ?? fallback;
+  };
+  const readInput = (event: Event) =>
+    (event.currentTarget as HTMLInputElement | null)?.value ?? "";
+  const readAmount = (amount: string) =>
+    amount.trim() === "" ? null : parseFloat(amount);
+
+  const buildCondition = (): PricingRuleCondition => {
+    switch (type) {
+      case "all":
+        return { type };
+      case "vendor":
+      case "productType":
+      case "tag":
+        return { type, value: value.trim() };
+      case "collection":
+        return {
+          type,
+          id: collection?.id || "",
+          title: collection?.title || "",
+        };
+      case "costBand":
+        return { type, min: readAmount(min), max: readAmount(max) };
+    }
+  };
+  const rule: PricingRule = {
+    id: "",
+    condition: buildCondition(),
+    target,
+    percent: parseFloat(percent),
+  };
+  const ruleError = getPricingRuleError(rule);
+  const changed = JSON.stringify(draft) !== JSON.stringify(rules);
+
+  const moveUp = (index: number) => {
+    const next = [...draft];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    setDraft(next);
+  };
+
+  return (
+    <s-box>
+      <s-stack gap="base">
+        <s-heading>Pricing Rules</s-heading>
+        <s-text tone="neutral">
+          When products are looked up, the first rule that applies sets the new
+          price from the new cost (ex tax). Markup is added to cost; margin is
+          the share of the ex-tax price left after cost. Products whose RRP is
+          being updated keep the RRP.
+        </s-text>
+
+        {draft.length > 0 && (
+          <s-stack gap="small-200">
+            {draft.map((existing, i) => (
+              <s-stack key={existing.id} gap="small-200" direction="inline">
+                <s-text>
+                  {i + 1}. {describePricingRule(existing)}
+                </s-text>
+                {i > 0 && (
+                  <s-button variant="tertiary" onClick={() => moveUp(i)}>
+                    Move up
+                  </s-button>
+                )}
+                <s-button
+                  variant="tertiary"
+                  onClick={() =>
+                    setDraft(draft.filter((_, index) => index !== i))
+                  }
+                >
+                  Remove
+                </s-button>
+              </s-stack>
+            ))}
+          </s-stack>
+        )}
+
+        <s-stack gap="small-100" direction="inline">
+          <s-select
+            value={type}
+            onChange={(event: Event) =>
+              setType(
+                readSelect(event, "vendor") as PricingRuleCondition["type"],
+              )
+            }
+            onInput={(event: Event) =>
+              setType(
+                readSelect(event, "vendor") as PricingRuleCondition["type"],
+              )
+            }
+            label="Applies to"
+          >
+            {PRICING_RULE_TYPES.map((option) => (
+              <s-option key={option.value} value={option.value}>
+                {option.label}
+              </s-option>
+            ))}
+          </s-select>
+
+          {(type === "vendor" || type === "productType" || type === "tag") && (
+            <s-text-field
+              label={
+                PRICING_RULE_TYPES.find((option) => option.value === type)
+                  ?.label
+              }
+              value={value}
+              onInput={(event: Event) => setValue(readInput(event))}
+              onChange={(event: Event) => setValue(readInput(event))}
+            />
+          )}
+
+          {type === "collection" && (
+            <s-stack gap="small-200" direction="inline" alignItems="end">
+              <s-text>{collection?.title || "No collection chosen"}</s-text>
+              <s-button
+                onClick={() => {
+                  void onPickCollection().then((picked) => {
+                    if (picked) setCollection(picked);
+                  });
+                }}
+              >
+                Choose collection
+              </s-button>
+            </s-stack>
+          )}
+
+          {type === "costBand" && (
+            <>
+              <s-box inlineSize="120px">
+                <s-number-field
+                  label="Cost from"
+                  value={min}
+                  onChange={(event: Event) => setMin(readInput(event))}
+                  min={0}
+                />
+              </s-box>
+              <s-box inlineSize="120px">
+                <s-number-field
+                  label="Cost under"
+                  value={max}
+                  onChange={(event: Event) => setMax(readInput(event))}
+                  min={0}
+                />
+              </s-box>
+            </>
+          )}
+
+          <s-select
+            value={target}
+            onChange={(event: Event) =>
+              setTarget(readSelect(event, "markup") as PricingRule["target"])
+            }
+            onInput={(event: Event) =>
+              setTarget(readSelect(event, "markup") as PricingRule["target"])
+            }
+            label="Target"
+          >
+            <s-option value="markup">Markup</s-option>
+            <s-option value="margin">Margin</s-option>
+          </s-select>
+          <s-box inlineSize="100px">
+            <s-number-field
+              label="Percent"
+              value={percent}
+              onChange={(event: Event) => setPercent(readInput(event))}
+              min={0}
+            />
+          </s-box>
+        </s-stack>
+        {percent !== "" && ruleError && (
+          <s-text tone="critical">{ruleError}</s-text>
+        )}
+
+        <s-stack gap="small-200" direction="inline">
+          <s-button
+            variant="secondary"
+            disabled={!!ruleError}
+            onClick={() =>
+              setDraft([...draft, { ...rule, id: crypto.randomUUID() }])
+            }
+          >
+            Add rule
+          </s-button>
+          <s-button
+            variant="secondary"
+            onClick={() => onSave(draft)}
+            disabled={!changed || isSaving}
+            loading={isSaving}
+          >
+            Save pricing rules
+          </s-button>
+        </s-stack>
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Price Rounding Settings Component - endings or steps that calculated prices
+ * are rounded to, tiered by price
+ */
+interface PriceRoundingSettingsProps {
+  rules: PriceRoundingRule[];
+  isSaving?: boolean;
+  onSave: (rules: PriceRoundingRule[]) => void;
+}
+
+export function PriceRoundingSettings({
+  rules,
+  isSaving,
+  onSave,
+}: PriceRoundingSettingsProps) {
+  const [draft, setDraft] = useState(rules);
+  const [from, setFrom] = useState("0");
+  const [type, setType] = useState<PriceRounding["type"]>("up");
+  const [ending, setEnding] = useState(".95");
+  const [step, setStep] = useState("1");
+  const [testPrice, setTestPrice] = useState("");
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const readSelect = (event: Event, fallback: string) => {
+    const customEvent = event as CustomEvent;
+    const detailValue = customEvent.detail?.value as string | undefined;
+    const currentTargetValue = (
+      event.currentTarget as { value?: string } | null
+    )?.value;
+    const targetValue = (event.target as { value?: string } | null)?.value;
+    return detailValue ?? currentTargetValue ?? targetValue ?? fallback;
+  };
+  const readInput = (event: Event) =>
+    (event.currentTarget as HTMLInputElement | null)?.value ?? "";
+
+  const rule: PriceRoundingRule =
+    type === "nearest"
+      ? { type, step: parseFloat(step), from: parseFloat(from) }
+      : { type, ending: parseFloat(ending), from: parseFloat(from) };
+  const ruleError = getPriceRoundingError(rule);
+  const changed = JSON.stringify(draft) !== JSON.stringify(rules);
+  const sorted = [...draft].sort((a, b) => a.from - b.from);
+  const testValue = parseFloat(testPrice);
+
+  return (
+    <s-box>
+      <s-stack gap="base">
+        <s-heading>Price Rounding</s-heading>
+        <s-text tone="neutral">
+          Prices set by pricing rules and for new products are rounded by the
+          rule with the highest &quot;from&quot; price at or below them. Prices
+          typed in by hand and RRPs are not rounded.
+        </s-text>
+
+        {sorted.length > 0 && (
+          <s-stack gap="small-200">
+            {sorted.map((existing) => (
+              <s-stack
+                key={`${existing.from}-${existing.type}`}
+                gap="small-200"
+                direction="inline"
+              >
+                <s-text>{describePriceRounding(existing)}</s-text>
+                <s-button
+                  variant="tertiary"
+                  onClick={() => setDraft(draft.filter((r) => r !== existing))}
+                >
+                  Remove
+                </s-button>
+              </s-stack>
+            ))}
+          </s-stack>
+        )}
+
+        <s-stack gap="small-100" direction="inline">
+          <s-box inlineSize="120px">
+            <s-number-field
+              label="From price"
+              value={from}
+              onChange={(event: Event) => setFrom(readInput(event))}
+              min={0}
+            />
+          </s-box>
+          <s-select
+            value={type}
+            onChange={(event: Event) =>
+              setType(readSelect(event, "up") as PriceRounding["type"])
+            }
+            onInput={(event: Event) =>
+              setType(readSelect(event, "up") as PriceRounding["type"])
+            }
+            label="Rounding"
+          >
+            {PRICE_ROUNDING_TYPES.map((option) => (
+              <s-option key={option.value} value={option.value}>
+                {option.label}
+              </s-option>
+            ))}
+          </s-select>
+          {type === "nearest" ? (
+            <s-box inlineSize="100px">
+              <s-number-field
+                label="Step"
+                value={step}
+                onChange={(event: Event) => setStep(readInput(event))}
+                min={0}
+              />
+            </s-box>
+          ) : (
+            <s-box inlineSize="100px">
+              <s-text-field
+                label="Ending"
+                value={ending}
+                placeholder=".99"
+                onInput={(event: Event) => setEnding(readInput(event))}
+                onChange={(event: Event) => setEnding(readInput(event))}
+              />
+            </s-box>
+          )}
+        </s-stack>
+        {ruleError && <s-text tone="critical">{ruleError}</s-text>}
+
+        <s-stack gap="small-200" direction="inline">
+          <s-button
+            variant="secondary"
+            disabled={!!ruleError || draft.some((r) => r.from === rule.from)}
+            onClick={() => setDraft([...draft, rule])}
+          >
+            Add rule
+          </s-button>
+          <s-button
+            variant="secondary"
+            onClick={() => onSave(draft)}
+            disabled={!changed || isSaving}
+            loading={isSaving}
+          >
+            Save rounding
+          </s-button>
+        </s-stack>
+
+        <s-box inlineSize="160px">
+          <s-number-field
+            label="Try a price"
+            value={testPrice}
+            onChange={(event: Event) => setTestPrice(readInput(event))}
+            min={0}
+            details={
+              testValue >= 0
+                ? `Rounds to ${roundPrice(testValue, draft).toFixed(2)}`
+                : undefined
+            }
+          />
+        </s-box>
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Exchange Rate Component - the shop's manually maintained rates
+ */
+interface ExchangeRateTableProps {
+  rates: ExchangeRate[];
+  shopCurrency: string;
+  isSaving?: boolean;
+  onSave: (currency: string, rate: number) => void;
+  onDelete: (currency: string) => void;
+}
+
+export function ExchangeRateTable({
+  rates,
+  shopCurrency,
+  isSaving,
+  onSave,
+  onDelete,
+}: ExchangeRateTableProps) {
+  const [code, setCode] = useState("");
+  const [rate, setRate] = useState("");
+
+  const currency = code.trim().toUpperCase();
+  const rateValue = parseFloat(rate);
+  const canSave =
+    isCurrencyCode(currency) && currency !== shopCurrency && rateValue > 0;
+
+  const handleSave = () => {
+    onSave(currency, rateValue);
+    setCode("");
+    setRate("");
+  };
+
+  return (
+    <s-box>
+      <s-stack gap="base">
+        <s-heading>Exchange Rates</s-heading>
+        <s-text tone="neutral">
+          Rates are entered by hand and used for every supplier invoicing in
+          that currency. Update them when your bank rate moves.
+        </s-text>
+
+        {rates.length > 0 && (
+          <s-stack gap="small-200">
+            {rates.map((exchangeRate) => (
+              <s-stack
+                key={exchangeRate.currency}
+                gap="small-200"
+                direction="inline"
+              >
+                <s-text>
+                  1 {exchangeRate.currency} = {exchangeRate.rate} {shopCurrency}
+                </s-text>
+                <s-text tone="neutral">
+                  (updated{" "}
+                  {new Date(exchangeRate.updatedAt).toLocaleDateString()})
+                </s-text>
+                <s-button
+                  variant="tertiary"
+                  onClick={() => {
+                    setCode(exchangeRate.currency);
+                    setRate(exchangeRate.rate.toString());
+                  }}
+                  disabled={isSaving}
+                >
+                  Edit
+                </s-button>
+                <s-button
+                  variant="tertiary"
+                  tone="critical"
+                  onClick={() => onDelete(exchangeRate.currency)}
+                  disabled={isSaving}
+                >
+                  Remove
+                </s-button>
+              </s-stack>
+            ))}
+          </s-stack>
+        )}
+
+        <s-stack gap="small-100" direction="inline">
+          <s-box inlineSize="120px">
+            <s-text-field
+              label="Currency"
+              value={code}
+              placeholder="USD"
+              onInput={(event: Event) =>
+                setCode((event.currentTarget as HTMLInputElement).value)
+              }
+              onChange={(event: Event) =>
+                setCode((event.currentTarget as HTMLInputElement).value)
+              }
+            />
+          </s-box>
+          <s-box inlineSize="180px">
+            <s-number-field
+              label={`${shopCurrency} per unit`}
+              value={rate}
+              onChange={(event: Event) =>
+                setRate((event.currentTarget as HTMLInputElement).value)
+              }
+              min={0}
+              step={0.0001}
+            />
+          </s-box>
+        </s-stack>
+
+        <s-stack direction="inline">
+          <s-button
+            variant="secondary"
+            onClick={handleSave}
+            disabled={!canSave || isSaving}
+            loading={isSaving}
+          >
+            Save rate
+          </s-button>
+        </s-stack>
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Mapping Profile Component - save, apply and delete per-supplier mappings
+ */
+interface MappingProfilePickerProps {
+  profiles: MappingProfile[];
+  profileId: string | null;
+  defaultName: string;
+  canSave: boolean;
+  isSaving?: boolean;
+  onApply: (profile: MappingProfile) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function MappingProfilePicker({
+  profiles,
+  profileId,
+  defaultName,
+  canSave,
+  isSaving,
+  onApply,
+  onSave,
+  onDelete,
+}: MappingProfilePickerProps) {
+  const activeProfile = profiles.find((profile) => profile.id === profileId);
+  const [name, setName] = useState(activeProfile?.name || defaultName);
+
+  useEffect(() => {
+    setName(activeProfile?.name || defaultName);
+  }, [activeProfile?.name, defaultName]);
+
+  const handleApply = useCallback(
+    (event: Event) => {
+      const customEvent = event as CustomEvent;
+      const detailValue = customEvent.detail?.value as string | undefined;
+      const currentTargetValue = (
+        event.currentTarget as { value?: string } | null
+      )?.value;
+      const targetValue = (event.target as { value?: string } | null)?.value;
+      const value = detailValue ?? currentTargetValue ?? targetValue ?? "";
+      const profile = profiles.find((p) => p.id === value);
+      if (profile && profile.id !== profileId) onApply(profile);
+    },
+    [profiles, profileId, onApply],
+  );
+
+  const handleNameChange = useCallback((event: Event) => {
+    const target = event.currentTarget as HTMLInputElement | null;
+    setName(target?.value ?? "");
+  }, []);
+
+  const trimmedName = name.trim();
+  const replacesProfile = profiles.some(
+    (profile) => profile.name === trimmedName,
+  );
+  // Saving the active profile under another name renames it, keeping its
+  // SKU links
+  const renamesProfile = !!activeProfile && trimmedName !== activeProfile.name;
+
+  return (
+    <s-box>
+      <s-stack gap="base">
+        <s-heading>Mapping Profile</s-heading>
+        {activeProfile ? (
+          <s-text tone="neutral">
+            Using saved profile &quot;{activeProfile.name}&quot;. Changes to the
+            mapping below are not saved until you save the profile again.
+          </s-text>
+        ) : (
+          <s-text tone="neutral">
+            Save this mapping to pick it up automatically next time this
+            supplier sends a file with the same headers.
+          </s-text>
+        )}
+
+        <s-stack gap="small-100" direction="inline">
+          {profiles.length > 0 && (
+            <s-select
+              value={profileId ?? ""}
+              onChange={handleApply}
+              onInput={handleApply}
+              label="Saved profiles"
+            >
+              <s-option value="" disabled selected={!activeProfile}>
+                Apply a profile...
+              </s-option>
+              {profiles.map((profile) => (
+                <s-option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </s-option>
+              ))}
+            </s-select>
+          )}
+
+          <s-text-field
+            label="Profile name"
+            value={name}
+            onInput={handleNameChange}
+            onChange={handleNameChange}
+          />
+        </s-stack>
+
+        <s-stack gap="small-100" direction="inline">
+          <s-button
+            variant="secondary"
+            onClick={() => onSave(trimmedName)}
+            disabled={!canSave || !trimmedName || isSaving}
+            loading={isSaving}
+          >
+            {renamesProfile
+              ? "Rename and update profile"
+              : replacesProfile
+                ? "Update profile"
+                : "Save profile"}
+          </s-button>
+          {activeProfile && (
+            <s-button
+              variant="tertiary"
+              tone="critical"
+              onClick={() => onDelete(activeProfile.id)}
+              disabled={isSaving}
+            >
+              Delete profile
+            </s-button>
+          )}
+        </s-stack>
       </s-stack>
     </s-box>
   );
 }
 
 /**
- * Field Mapping Component
+ * Trigger a browser download for generated text
+ * The object URL is released after the click has started the download
  */
-interface FieldMapperProps {
-  headers: string[];
-  fields: CSVFieldMapping;
-  onFieldChange: (
-    field: keyof CSVFieldMapping,
-    value: number | "none" | null,
-  ) => void;
+function downloadTextFile(fileName: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
 }
 
-export function FieldMapper({
-  headers,
-  fields,
-  onFieldChange,
-}: FieldMapperProps) {
-  const handleChange = useCallback(
-    (field: keyof CSVFieldMapping) => (event: Event) => {
-      const customEvent = event as CustomEvent;
-      const detailValue = customEvent.detail?.value as string | undefined;
-      const currentTargetValue = (
-        event.currentTarget as { value?: string } | null
-      )?.value;
-      const targetValue = (event.target as { value?: string } | null)?.value;
-      const value = detailValue ?? currentTargetValue ?? targetValue ?? "";
-      if (value === "") {
-        onFieldChange(field, null);
-      } else if (value === "none") {
-        onFieldChange(field, "none");
-      } else {
-        onFieldChange(field, parseInt(value, 10));
-      }
+/**
+ * Validation Summary Component - pre-import row diagnostics
+ */
+interface ValidationSummaryProps {
+  report: ValidationReport;
+  fatalIssues: ValidationIssueCode[];
+  onFatalIssuesChange: (codes: ValidationIssueCode[]) => void;
+  fileName?: string;
+}
+
+export function ValidationSummary({
+  report,
+  fatalIssues,
+  onFatalIssuesChange,
+  fileName,
+}: ValidationSummaryProps) {
+  const codesFound = (
+    Object.keys(VALIDATION_ISSUE_LABELS) as ValidationIssueCode[]
+  ).filter((code) => report.counts[code] > 0);
+
+  const handleDownload = useCallback(() => {
+    const baseName = (fileName || "supplier-file").replace(/\.[^.]+$/, "");
+    downloadTextFile(
+      `${baseName}-validation.csv`,
+      validationReportToCSV(report),
+      "text/csv;charset=utf-8",
+    );
+  }, [fileName, report]);
+
+  const toggleFatal = useCallback(
+    (code: ValidationIssueCode) => {
+      onFatalIssuesChange(
+        fatalIssues.includes(code)
+          ? fatalIssues.filter((c) => c !== code)
+          : [...fatalIssues, code],
+      );
     },
-    [onFieldChange],
+    [fatalIssues, onFatalIssuesChange],
   );
 
+  if (report.issues.length === 0) {
+    return (
+      <s-banner tone="success">
+        <s-text>
+          Validation passed. No problems found in the mapped rows.
+        </s-text>
+      </s-banner>
+    );
+  }
+
   return (
-    <s-box>
-      <s-stack gap="base">
-        <s-heading>Map CSV Columns</s-heading>
+    <s-banner tone={report.fatalCount > 0 ? "critical" : "warning"}>
+      <s-stack gap="small-200">
+        <s-text>
+          {report.fatalCount > 0
+            ? `${report.fatalCount} blocking problems must be fixed before importing.`
+            : `${report.issues.length} warnings found. You can still import.`}
+        </s-text>
 
-        <s-stack gap="small-100" direction="inline">
-          <s-select
-            value={fields.sku.value !== null ? fields.sku.value.toString() : ""}
-            onChange={handleChange("sku")}
-            onInput={handleChange("sku")}
-            label={fields.sku.label}
-          >
-            <s-option value="" disabled selected={fields.sku.value === null}>
-              Please select...
-            </s-option>
-            {headers.map((header, i) => (
-              <s-option key={i} value={i.toString()}>
-                {header}
-              </s-option>
-            ))}
-          </s-select>
+        {codesFound.map((code) => (
+          <s-checkbox
+            key={code}
+            label={`${VALIDATION_ISSUE_LABELS[code]} (${report.counts[code]}) - block import`}
+            checked={fatalIssues.includes(code)}
+            onChange={() => toggleFatal(code)}
+          />
+        ))}
 
-          <s-select
-            value={
-              fields.cost.value !== null ? fields.cost.value.toString() : ""
-            }
-            onChange={handleChange("cost")}
-            onInput={handleChange("cost")}
-            label={fields.cost.label}
-          >
-            <s-option value="" disabled selected={fields.cost.value === null}>
-              Please select...
-            </s-option>
-            {headers.map((header, i) => (
-              <s-option key={i} value={i.toString()}>
-                {header}
-              </s-option>
-            ))}
-          </s-select>
+        {report.issues.slice(0, 10).map((issue, i) => (
+          <s-text key={`${issue.row}-${issue.code}-${i}`}>
+            Row {issue.row}
+            {issue.sku ? ` (${issue.sku})` : ""}: {issue.message}
+          </s-text>
+        ))}
+        {report.issues.length > 10 && (
+          <s-text tone="neutral">…and {report.issues.length - 10} more</s-text>
+        )}
 
-          <s-select
-            value={fields.soh.value !== null ? fields.soh.value.toString() : ""}
-            onChange={handleChange("soh")}
-            onInput={handleChange("soh")}
-            label={fields.soh.label}
-          >
-            <s-option value="" disabled selected={fields.soh.value === null}>
-              Please select...
-            </s-option>
-            <s-option value="none">N/A (No stock update)</s-option>
-            {headers.map((header, i) => (
-              <s-option key={i} value={i.toString()}>
-                {header}
-              </s-option>
-            ))}
-          </s-select>
-        </s-stack>
+        <s-button variant="secondary" onClick={handleDownload}>
+          Download report
+        </s-button>
       </s-stack>
-    </s-box>
+    </s-banner>
   );
 }
 
@@ -239,6 +2659,56 @@ export function ActionSelector({
   );
 }
 
+/**
+ * Field Update Selector - optional mapped fields to write to Shopify
+ */
+interface FieldUpdateSelectorProps {
+  mappedFields: OptionalFieldKey[];
+  selected: OptionalFieldKey[];
+  onChange: (selected: OptionalFieldKey[]) => void;
+}
+
+export function FieldUpdateSelector({
+  mappedFields,
+  selected,
+  onChange,
+}: FieldUpdateSelectorProps) {
+  if (mappedFields.length === 0) return null;
+
+  const toggle = (key: OptionalFieldKey) =>
+    onChange(
+      selected.includes(key)
+        ? selected.filter((k) => k !== key)
+        : [...selected, key],
+    );
+
+  return (
+    <s-box>
+      <s-stack gap="small-200">
+        <s-heading>Also update</s-heading>
+        {mappedFields.map((key) => {
+          const field = getFieldDefinition(key);
+          return (
+            <s-checkbox
+              key={key}
+              label={`${getFieldName(field)} → ${field.target}`}
+              checked={selected.includes(key)}
+              onChange={() => toggle(key)}
+            />
+          );
+        })}
+        {selected.includes("rrp") && (
+          <s-text tone="neutral">
+            RRP replaces the current price in a stock and pricing update, where
+            you can still adjust each price before saving. A stock-only update
+            never changes prices.
+          </s-text>
+        )}
+      </s-stack>
+    </s-box>
+  );
+}
+
 /**
  * Batch Progress Component
  */
@@ -277,6 +2747,678 @@ export function BatchProgress({
   );
 }
 
+/**
+ * Not Found Review Component - supplier rows with no variant in the store,
+ * with their cost and stock and the closest variants by SKU or title. A
+ * suggestion can be used for this import or linked for future imports, any
+ * other variant linked from the picker, or the row ignored. Selected rows can
+ * be created as draft products, priced at their RRP, a pricing rule or a
+ * markup on cost
+ */
+interface NotFoundReviewProps {
+  rows: CSVProduct[];
+  suggestions: MatchSuggestion[];
+  currency?: string;
+  pricing?: Omit<DraftPricing, "markup">;
+  linkingSku?: string | null;
+  isCreating?: boolean;
+  onAccept: (row: CSVProduct, variantId: string) => void;
+  onLink: (row: CSVProduct, variantId: string) => void;
+  onPick: (row: CSVProduct) => void;
+  onIgnore: (row: CSVProduct) => void;
+  onCreate?: (rows: CSVProduct[], markup: number) => void;
+}
+
+// Rows shown before "Show more"
+const NOT_FOUND_PAGE_SIZE = 20;
+
+// Markup on cost for new products without an RRP
+const DEFAULT_DRAFT_MARKUP = 100;
+
+export function NotFoundReview({
+  rows,
+  suggestions,
+  currency,
+  pricing = { priceTaxRate: 0, rules: [], rounding: [] },
+  linkingSku,
+  isCreating,
+  onAccept,
+  onLink,
+  onPick,
+  onIgnore,
+  onCreate,
+}: NotFoundReviewProps) {
+  const [limit, setLimit] = useState(NOT_FOUND_PAGE_SIZE);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [markup, setMarkup] = useState(DEFAULT_DRAFT_MARKUP.toString());
+
+  const markupValue = parseFloat(markup);
+  const markupValid = Number.isFinite(markupValue) && markupValue >= 0;
+  const selectedRows = rows.filter((row) => selected.includes(row.sku));
+
+  const readInput = (event: Event) =>
+    (event.currentTarget as HTMLInputElement | null)?.value ?? "";
+
+  const suggestionsBySku = useMemo(() => {
+    const grouped = new Map<string, MatchSuggestion[]>();
+    for (const suggestion of suggestions) {
+      const list = grouped.get(suggestion.supplierSku) || [];
+      list.push(suggestion);
+      grouped.set(suggestion.supplierSku, list);
+    }
+    return grouped;
+  }, [suggestions]);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <s-box>
+      <s-stack gap="small-200">
+        <s-heading>Not found in store ({rows.length})</s-heading>
+        <s-text tone="neutral">
+          Use a suggestion for this import, or link it (or any variant you pick)
+          to the supplier SKU so the next import matches it automatically.
+        </s-text>
+        <s-table>
+          <s-table-header-row>
+            {onCreate && <s-table-header>Create</s-table-header>}
+            <s-table-header>Supplier SKU</s-table-header>
+            <s-table-header>Cost</s-table-header>
+            <s-table-header>Stock</s-table-header>
+            {onCreate && <s-table-header>New price</s-table-header>}
+            <s-table-header>Closest variants</s-table-header>
+            <s-table-header></s-table-header>
+          </s-table-header-row>
+          <s-table-body>
+            {rows.slice(0, limit).map((row) => {
+              const busy = !!linkingSku || !!isCreating;
+              return (
+                <s-table-row key={row.sku}>
+                  {onCreate && (
+                    <s-table-cell>
+                      <s-checkbox
+                        accessibilityLabel={`Create ${row.sku}`}
+                        checked={selected.includes(row.sku)}
+                        disabled={busy}
+                        onChange={() =>
+                          setSelected((prev) =>
+                            prev.includes(row.sku)
+                              ? prev.filter((sku) => sku !== row.sku)
+                              : [...prev, row.sku],
+                          )
+                        }
+                      />
+                    </s-table-cell>
+                  )}
+                  <s-table-cell>
+                    <s-stack gap="small-300">
+                      <s-text>{row.sku}</s-text>
+                      {typeof row.fields?.title === "string" && (
+                        <s-text tone="neutral">{row.fields.title}</s-text>
+                      )}
+                      {row.supplier && (
+                        <s-text tone="neutral">{row.supplier}</s-text>
+                      )}
+                    </s-stack>
+                  </s-table-cell>
+                  <s-table-cell>
+                    {formatCurrency(row.cost, currency)}
+                  </s-table-cell>
+                  <s-table-cell>{row.soh ?? "-"}</s-table-cell>
+                  {onCreate && (
+                    <s-table-cell>
+                      {markupValid ? (
+                        <RoundedPrice
+                          {...getDraftPrice(row, {
+                            ...pricing,
+                            markup: markupValue,
+                          })}
+                          currency={currency}
+                        />
+                      ) : (
+                        "-"
+                      )}
+                    </s-table-cell>
+                  )}
+                  <s-table-cell>
+                    <s-stack gap="small-200">
+                      {(suggestionsBySku.get(row.sku) || []).map(
+                        (suggestion) => (
+                          <s-stack
+                            key={suggestion.variantId}
+                            gap="small-200"
+                            direction="inline"
+                          >
+                            <s-text>
+                              {suggestion.sku || "(no SKU)"} -{" "}
+                              {suggestion.title}
+                            </s-text>
+                            <s-badge
+                              tone={
+                                suggestion.score >= 0.8 ? "success" : "info"
+                              }
+                            >
+                              {Math.round(suggestion.score * 100)}%{" "}
+                              {suggestion.reason === "title" ? "title" : "SKU"}
+                            </s-badge>
+                            <s-button
+                              variant="tertiary"
+                              onClick={() =>
+                                onAccept(row, suggestion.variantId)
+                              }
+                              disabled={busy}
+                            >
+                              Use
+                            </s-button>
+                            <s-button
+                              variant="tertiary"
+                              onClick={() => onLink(row, suggestion.variantId)}
+                              disabled={busy}
+                            >
+                              Link
+                            </s-button>
+                          </s-stack>
+                        ),
+                      )}
+                      {!suggestionsBySku.has(row.sku) && (
+                        <s-text tone="neutral">No close variants</s-text>
+                      )}
+                    </s-stack>
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-stack gap="small-200" direction="inline">
+                      <s-button
+                        variant="tertiary"
+                        onClick={() => onPick(row)}
+                        disabled={busy}
+                        loading={linkingSku === row.sku}
+                      >
+                        Link to variant
+                      </s-button>
+                      <s-button
+                        variant="tertiary"
+                        onClick={() => onIgnore(row)}
+                        disabled={busy}
+                      >
+                        Ignore
+                      </s-button>
+                    </s-stack>
+                  </s-table-cell>
+                </s-table-row>
+              );
+            })}
+          </s-table-body>
+        </s-table>
+        {rows.length > limit && (
+          <s-stack direction="inline">
+            <s-button
+              variant="tertiary"
+              onClick={() => setLimit(limit + NOT_FOUND_PAGE_SIZE)}
+            >
+              Show more ({rows.length - limit} left)
+            </s-button>
+          </s-stack>
+        )}
+        {onCreate && (
+          <s-stack gap="small-200">
+            <s-stack gap="base" direction="inline" alignItems="end">
+              <s-box inlineSize="160px">
+                <s-number-field
+                  label="Markup on cost (%)"
+                  value={markup}
+                  onChange={(event: Event) => setMarkup(readInput(event))}
+                  min={0}
+                  error={
+                    markupValid ? undefined : "Enter a markup of 0 or more"
+                  }
+                />
+              </s-box>
+              <s-button
+                variant="tertiary"
+                onClick={() =>
+                  setSelected(
+                    selected.length === rows.length
+                      ? []
+                      : rows.map((row) => row.sku),
+                  )
+                }
+                disabled={isCreating}
+              >
+                {selected.length === rows.length
+                  ? "Clear selection"
+                  : "Select all"}
+              </s-button>
+              <s-button
+                onClick={() => {
+                  onCreate(selectedRows, markupValue);
+                  setSelected([]);
+                }}
+                disabled={
+                  selectedRows.length === 0 || !markupValid || !!linkingSku
+                }
+                loading={isCreating}
+              >
+                Create draft products ({selectedRows.length})
+              </s-button>
+            </s-stack>
+            <s-text tone="neutral">
+              New products are created as drafts with the row&apos;s title,
+              barcode, brand (as vendor), cost and stock. They are priced at the
+              RRP, or by the first pricing rule for the brand or cost, or else
+              the markup on cost
+              {pricing.priceTaxRate > 0
+                ? ` plus ${pricing.priceTaxRate}% tax`
+                : ""}
+              , then rounded by the price rounding rules.
+            </s-text>
+          </s-stack>
+        )}
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Duplicate SKU Review Component - supplier SKUs that matched several
+ * variants, none of which is updated until one (or all) is chosen
+ */
+interface DuplicateSkuReviewProps {
+  products: NormalizedProduct[];
+  currency?: string;
+  onResolve: (variantId: string, choice: DuplicateSkuChoice) => void;
+}
+
+export function DuplicateSkuReview({
+  products,
+  currency,
+  onResolve,
+}: DuplicateSkuReviewProps) {
+  // Pending variants grouped by the supplier SKU they share
+  const groups = useMemo(() => {
+    const grouped = new Map<string, NormalizedProduct[]>();
+    for (const product of products) {
+      if (product.duplicateSku?.choice !== "pending") continue;
+      const key = product.duplicateSku.variantIds[0];
+      grouped.set(key, [...(grouped.get(key) || []), product]);
+    }
+    return Array.from(grouped.values());
+  }, [products]);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <s-box>
+      <s-stack gap="small-200">
+        <s-heading>SKUs shared by several variants ({groups.length})</s-heading>
+        <s-text tone="neutral">
+          These supplier SKUs match more than one variant in the store. Choose
+          the variant to update, or update all of them; until then none are
+          updated.
+        </s-text>
+        <s-table>
+          <s-table-header-row>
+            <s-table-header>Supplier SKU</s-table-header>
+            <s-table-header>Variant</s-table-header>
+            <s-table-header>Price</s-table-header>
+            <s-table-header>Stock</s-table-header>
+            <s-table-header></s-table-header>
+          </s-table-header-row>
+          <s-table-body>
+            {groups.flatMap((group) =>
+              group.map((product, index) => (
+                <s-table-row key={product.variantId}>
+                  <s-table-cell>
+                    {index === 0 && (
+                      <s-stack gap="small-200">
+                        <s-text>{product.supplierSku || product.sku}</s-text>
+                        <s-stack direction="inline">
+                          <s-button
+                            variant="tertiary"
+                            onClick={() => onResolve(product.variantId, "all")}
+                          >
+                            Update all {group.length}
+                          </s-button>
+                        </s-stack>
+                      </s-stack>
+                    )}
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-stack gap="small-300">
+                      <s-text>{product.name}</s-text>
+                      <s-text tone="neutral">{product.sku}</s-text>
+                    </s-stack>
+                  </s-table-cell>
+                  <s-table-cell>
+                    {formatCurrency(product.price, currency)}
+                  </s-table-cell>
+                  <s-table-cell>{product.quantity}</s-table-cell>
+                  <s-table-cell>
+                    <s-button
+                      variant="tertiary"
+                      onClick={() => onResolve(product.variantId, "one")}
+                    >
+                      Update this one
+                    </s-button>
+                  </s-table-cell>
+                </s-table-row>
+              )),
+            )}
+          </s-table-body>
+        </s-table>
+      </s-stack>
+    </s-box>
+  );
+}
+
+/**
+ * Reconcile Component - store variants in a vendor, collection or tag whose
+ * SKU is not in the supplier files, with a preview before zeroing their
+ * stock, setting them to draft or tagging them
+ */
+interface ReconcileReviewProps {
+  preview: ReconcilePreview | null;
+  results: UpdateResponse[] | null;
+  isFinding?: boolean;
+  isApplying?: boolean;
+  onFind: (scope: ReconcileScope) => void;
+  onPickCollection: () => Promise<{ id: string; title: string } | null>;
+  onApply: (
+    variants: ReconcileVariant[],
+    action: ReconcileAction,
+    tag: string,
+  ) => void;
+  onBack: () => void;
+}
+
+// Variants shown before "Show more"
+const RECONCILE_PAGE_SIZE = 50;
+
+export function ReconcileReview({
+  preview,
+  results,
+  isFinding,
+  isApplying,
+  onFind,
+  onPickCollection,
+  onApply,
+  onBack,
+}: ReconcileReviewProps) {
+  const [scopeType, setScopeType] = useState<ReconcileScopeType>("vendor");
+  const [value, setValue] = useState("");
+  const [collection, setCollection] = useState<{
+    id: string;
+    title: string;
+  } | null>(null);
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [action, setAction] = useState<ReconcileAction>("zeroStock");
+  const [tag, setTag] = useState(DISCONTINUED_TAG);
+  const [limit, setLimit] = useState(RECONCILE_PAGE_SIZE);
+
+  useEffect(() => {
+    setExcluded([]);
+    setLimit(RECONCILE_PAGE_SIZE);
+  }, [preview]);
+
+  const readSelect = (event: Event, fallback: string) => {
+    const customEvent = event as CustomEvent;
+    const detailValue = customEvent.detail?.value as string | undefined;
+    const currentTargetValue = (
+      event.currentTarget as { value?: string } | null
+    )?.value;
+    const targetValue = (event.target as { value?: string } | null)?.value;
+    return detailValue ?? currentTargetValue ?? targetValue ?? fallback;
+  };
+  const readInput = (event: Event) =>
+    (event.currentTarget as HTMLInputElement | null)?.value ?? "";
+
+  const scope: ReconcileScope | null =
+    scopeType === "collection"
+      ? collection && {
+          type: scopeType,
+          value: collection.id,
+          label: collection.title,
+        }
+      : value.trim()
+        ? { type: scopeType, value: value.trim() }
+        : null;
+
+  const variants = preview?.variants || [];
+  const selected = variants.filter((v) => !excluded.includes(v.variantId));
+  const updatedCount = (results || []).filter((r) => r.updated).length;
+
+  const handlePickCollection = useCallback(() => {
+    void (async () => {
+      const picked = await onPickCollection();
+      if (picked) setCollection(picked);
+    })();
+  }, [onPickCollection]);
+
+  return (
+    <s-stack gap="base">
+      <s-heading>Reconcile missing products</s-heading>
+      <s-text tone="neutral">
+        Find products in a vendor, collection or tag whose SKU is not in the
+        supplier files, for lines the supplier has dropped.
+      </s-text>
+
+      <s-stack gap="small-100" direction="inline">
+        <s-select
+          label="Scope"
+          value={scopeType}
+          onChange={(event: Event) =>
+            setScopeType(readSelect(event, "vendor") as ReconcileScopeType)
+          }
+          onInput={(event: Event) =>
+            setScopeType(readSelect(event, "vendor") as ReconcileScopeType)
+          }
+        >
+          <s-option value="vendor">Vendor</s-option>
+          <s-option value="collection">Collection</s-option>
+          <s-option value="tag">Tag</s-option>
+        </s-select>
+        {scopeType === "collection" ? (
+          <s-stack gap="small-100" direction="inline">
+            <s-text>{collection ? collection.title : "No collection"}</s-text>
+            <s-button variant="secondary" onClick={handlePickCollection}>
+              Pick collection
+            </s-button>
+          </s-stack>
+        ) : (
+          <s-text-field
+            label={scopeType === "vendor" ? "Vendor" : "Tag"}
+            value={value}
+            onInput={(event: Event) => setValue(readInput(event))}
+            onChange={(event: Event) => setValue(readInput(event))}
+          />
+        )}
+      </s-stack>
+      <s-stack direction="inline">
+        <s-button
+          variant="secondary"
+          onClick={() => scope && onFind(scope)}
+          disabled={!scope || isFinding}
+          loading={isFinding}
+        >
+          Find missing products
+        </s-button>
+      </s-stack>
+
+      {preview?.truncated && (
+        <s-banner tone="warning">
+          This scope has more variants than could be read, so some missing
+          products may not be listed. Narrow the scope to see them all.
+        </s-banner>
+      )}
+
+      {preview && variants.length === 0 && (
+        <s-text tone="neutral">
+          Every product in this scope is in the supplier files.
+        </s-text>
+      )}
+
+      {variants.length > 0 && (
+        <>
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Include</s-table-header>
+              <s-table-header listSlot="primary">Product</s-table-header>
+              <s-table-header>Stock</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {variants.slice(0, limit).map((variant) => (
+                <s-table-row key={variant.variantId}>
+                  <s-table-cell>
+                    <s-checkbox
+                      accessibilityLabel={`Include ${variant.sku}`}
+                      checked={!excluded.includes(variant.variantId)}
+                      onChange={() =>
+                        setExcluded((prev) =>
+                          prev.includes(variant.variantId)
+                            ? prev.filter((id) => id !== variant.variantId)
+                            : [...prev, variant.variantId],
+                        )
+                      }
+                    />
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-stack gap="small-300">
+                      <s-text>{variant.name}</s-text>
+                      <s-stack gap="small-200" direction="inline">
+                        <s-text tone="neutral">{variant.sku}</s-text>
+                        {variant.productInFile && (
+                          <s-badge tone="warning">
+                            Other variants still supplied
+                          </s-badge>
+                        )}
+                      </s-stack>
+                    </s-stack>
+                  </s-table-cell>
+                  <s-table-cell>{variant.quantity ?? "-"}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+          {variants.length > limit && (
+            <s-stack direction="inline">
+              <s-button
+                variant="tertiary"
+                onClick={() => setLimit(limit + RECONCILE_PAGE_SIZE)}
+              >
+                Show more ({variants.length - limit} left)
+              </s-button>
+            </s-stack>
+          )}
+
+          <s-stack gap="small-100" direction="inline">
+            <s-select
+              label="Action"
+              value={action}
+              onChange={(event: Event) =>
+                setAction(readSelect(event, "zeroStock") as ReconcileAction)
+              }
+              onInput={(event: Event) =>
+                setAction(readSelect(event, "zeroStock") as ReconcileAction)
+              }
+            >
+              <s-option value="zeroStock">Set stock to 0</s-option>
+              <s-option value="draft">Set product to draft</s-option>
+              <s-option value="tag">Tag product</s-option>
+            </s-select>
+            {action === "tag" && (
+              <s-text-field
+                label="Tag"
+                value={tag}
+                onInput={(event: Event) => setTag(readInput(event))}
+                onChange={(event: Event) => setTag(readInput(event))}
+              />
+            )}
+          </s-stack>
+          {action === "draft" && (
+            <s-text tone="neutral">
+              Products with other variants still in the supplier files are not
+              set to draft.
+            </s-text>
+          )}
+          <s-stack direction="inline">
+            <s-button
+              variant="primary"
+              onClick={() => onApply(selected, action, tag.trim())}
+              disabled={
+                selected.length === 0 ||
+                (action === "tag" && !tag.trim()) ||
+                isApplying
+              }
+              loading={isApplying}
+            >
+              Apply to {selected.length} variants
+            </s-button>
+          </s-stack>
+        </>
+      )}
+
+      {results && (
+        <s-banner
+          tone={updatedCount === results.length ? "success" : "warning"}
+        >
+          <s-stack gap="small-200">
+            <s-text>
+              {updatedCount} of {results.length} variants updated
+            </s-text>
+            {results
+              .filter((result) => !result.updated)
+              .slice(0, 10)
+              .map((result, index) => (
+                <s-text key={`${result.sku}-${index}`}>
+                  {result.sku}: {result.message}
+                </s-text>
+              ))}
+          </s-stack>
+        </s-banner>
+      )}
+
+      <s-stack direction="inline">
+        <s-button onClick={onBack}>Back to updates</s-button>
+      </s-stack>
+    </s-stack>
+  );
+}
+
+/**
+ * Created Products Component - draft products created from unmatched rows in
+ * this session, with links to finish them in the admin
+ */
+interface CreatedProductsProps {
+  results: UpdateResponse[];
+  shopDomain?: string | null;
+}
+
+export function CreatedProducts({ results, shopDomain }: CreatedProductsProps) {
+  if (results.length === 0) return null;
+
+  return (
+    <s-box>
+      <s-stack gap="small-200">
+        <s-heading>New draft products ({results.length})</s-heading>
+        {results.map((result) => {
+          const adminUrl = result.productId
+            ? getProductAdminUrl(shopDomain, result.productId)
+            : null;
+          return (
+            <s-stack key={result.sku} gap="small-200" direction="inline">
+              <s-text>{result.sku}</s-text>
+              {adminUrl && (
+                <s-link href={adminUrl} target="_blank">
+                  Edit &gt;
+                </s-link>
+              )}
+            </s-stack>
+          );
+        })}
+      </s-stack>
+    </s-box>
+  );
+}
+
 /**
  * Update Results Component
  */
@@ -323,23 +3465,63 @@ export function UpdateResults({
   );
 }
 
+/**
+ * Rounded Price Component - a calculated price after rounding, with the
+ * price before rounding when they differ
+ */
+interface RoundedPriceProps {
+  price: number;
+  rawPrice?: number;
+  currency?: string;
+}
+
+export function RoundedPrice({ price, rawPrice, currency }: RoundedPriceProps) {
+  return (
+    <>
+      {formatCurrency(price, currency)}
+      {rawPrice !== undefined && rawPrice !== price && (
+        <s-text tone="neutral">
+          {" "}
+          (calculated {formatCurrency(rawPrice, currency)})
+        </s-text>
+      )}
+    </>
+  );
+}
+
 /**
  * Cost Cell - Shows cost comparison with arrows
+ * A converted supplier cost is shown next to the new cost in its own currency
  */
 interface CostCellProps {
   currentCost: number;
   newCost: number;
+  currency?: string;
+  sourceCost?: SourceCost;
 }
 
-export function CostCell({ currentCost, newCost }: CostCellProps) {
+export function CostCell({
+  currentCost,
+  newCost,
+  currency,
+  sourceCost,
+}: CostCellProps) {
   const increased = newCost > currentCost;
   const decreased = newCost < currentCost;
 
   return (
     <s-stack gap="small-300" direction="inline">
-      <s-text>{formatCurrency(currentCost)}</s-text>
+      <s-text>{formatCurrency(currentCost, currency)}</s-text>
       <s-text>→</s-text>
-      <s-text>{formatCurrency(newCost)}</s-text>
+      <s-text>{formatCurrency(newCost, currency)}</s-text>
+      {sourceCost && (
+        <s-text tone="neutral">
+          ({formatCurrency(sourceCost.amount, sourceCost.currency)}
+          {sourceCost.rate !== 1 && ` × ${sourceCost.rate}`}
+          {sourceCost.uplift !== 0 && ` + ${sourceCost.uplift}%`}
+          {sourceCost.taxRate !== 0 && `, less ${sourceCost.taxRate}% tax`})
+        </s-text>
+      )}
       {increased && (
         <span
           style={{
@@ -372,13 +3554,16 @@ export function CostCell({ currentCost, newCost }: CostCellProps) {
 
 /**
  * Margin Badge Component
+ * Margins are worked out ex tax; exTax notes that tax was taken out of the
+ * price or cost to get there
  */
 interface MarginBadgeProps {
   margin: number;
   status: "good" | "medium" | "negative";
+  exTax?: boolean;
 }
 
-export function MarginBadge({ margin, status }: MarginBadgeProps) {
+export function MarginBadge({ margin, status, exTax }: MarginBadgeProps) {
   const tone =
     status === "good"
       ? "success"
@@ -386,7 +3571,12 @@ export function MarginBadge({ margin, status }: MarginBadgeProps) {
         ? "warning"
         : "critical";
 
-  return <s-badge tone={tone}>{formatMargin(margin)}</s-badge>;
+  return (
+    <s-badge tone={tone}>
+      {formatMargin(margin)}
+      {exTax && " ex tax"}
+    </s-badge>
+  );
 }
 
 /**
@@ -440,7 +3630,10 @@ interface ProductRowProps {
   onToggleUpdate: (variantId: string) => void;
   onPriceChange: (variantId: string, price: number) => void;
   onConfirmEdit?: (variantId: string) => void;
+  onUnlink?: (product: NormalizedProduct) => void;
+  onResolveDuplicate?: (variantId: string, choice: DuplicateSkuChoice) => void;
   shopDomain?: string | null;
+  currency?: string;
 }
 
 export function ProductRow({
@@ -448,7 +3641,10 @@ export function ProductRow({
   onToggleUpdate,
   onPriceChange,
   onConfirmEdit,
+  onUnlink,
+  onResolveDuplicate,
   shopDomain,
+  currency,
 }: ProductRowProps) {
   const handlePriceChange = useCallback(
     (e: Event) => {
@@ -458,14 +3654,10 @@ export function ProductRow({
     },
     [onPriceChange, product.variantId],
   );
-  const productId = product.id.split("/").pop();
-  const shopHost = shopDomain
-    ? shopDomain.replace(/^https?:\/\//, "").replace(/\/$/, "")
-    : null;
-  const adminUrl =
-    productId && shopHost
-      ? `https://${shopHost}/admin/products/${productId}`
-      : null;
+  const adminUrl = getProductAdminUrl(shopDomain, product.id);
+  const fieldChanges = getFieldChanges(product);
+  const duplicate = product.duplicateSku;
+  const suggested = product.suggestedPrice;
 
   return (
     <s-table-row>
@@ -518,29 +3710,119 @@ export function ProductRow({
               >
                 {product.sku}
               </div>
+              {!product.matchedBy && product.supplierSku && (
+                <s-badge>Supplier SKU {product.supplierSku}</s-badge>
+              )}
+              {product.matchedBy === "barcode" && (
+                <s-badge tone="warning">
+                  Matched by barcode (supplier SKU {product.supplierSku})
+                </s-badge>
+              )}
+              {product.matchedBy === "manual" && (
+                <s-badge tone="warning">
+                  Matched by hand to supplier SKU {product.supplierSku}
+                </s-badge>
+              )}
+              {product.matchedBy === "crossReference" && (
+                <>
+                  <s-badge tone="info">
+                    Linked to supplier SKU {product.supplierSku}
+                  </s-badge>
+                  {onUnlink && (
+                    <s-button
+                      variant="tertiary"
+                      onClick={() => onUnlink(product)}
+                    >
+                      Unlink
+                    </s-button>
+                  )}
+                </>
+              )}
+              {duplicate?.choice === "pending" && (
+                <>
+                  <s-badge tone="critical">
+                    SKU shared by {duplicate.variantIds.length} variants
+                  </s-badge>
+                  {onResolveDuplicate && (
+                    <>
+                      <s-button
+                        variant="tertiary"
+                        onClick={() =>
+                          onResolveDuplicate(product.variantId, "one")
+                        }
+                      >
+                        Update this one
+                      </s-button>
+                      <s-button
+                        variant="tertiary"
+                        onClick={() =>
+                          onResolveDuplicate(product.variantId, "all")
+                        }
+                      >
+                        Update all
+                      </s-button>
+                    </>
+                  )}
+                </>
+              )}
+              {duplicate && duplicate.choice !== "pending" && (
+                <>
+                  <s-badge tone="info">
+                    {duplicate.choice === "all"
+                      ? `Shared SKU, all ${duplicate.variantIds.length} variants chosen`
+                      : product.update
+                        ? "Shared SKU, this variant chosen"
+                        : "Shared SKU, another variant chosen"}
+                  </s-badge>
+                  {onResolveDuplicate && (
+                    <s-button
+                      variant="tertiary"
+                      onClick={() =>
+                        onResolveDuplicate(product.variantId, "pending")
+                      }
+                    >
+                      Choose again
+                    </s-button>
+                  )}
+                </>
+              )}
               {adminUrl && (
                 <s-link href={adminUrl} target="_blank">
                   Edit &gt;
                 </s-link>
               )}
             </div>
+            {fieldChanges.map((change) => (
+              <div key={change.key} style={{ fontSize: "12px" }}>
+                {change.label}: {change.from} → {change.to}
+              </div>
+            ))}
           </s-box>
         </div>
       </s-table-cell>
       <s-table-cell>
-        <CostCell currentCost={product.cost} newCost={product.costNew} />
+        <CostCell
+          currentCost={product.cost}
+          newCost={product.costNew}
+          currency={currency}
+          sourceCost={product.sourceCost}
+        />
       </s-table-cell>
       <s-table-cell>
-        <MarginBadge margin={product.margin} status={product.marginStatus} />
+        <MarginBadge
+          margin={product.margin}
+          status={product.marginStatus}
+          exTax={!!product.priceTaxRate || !!product.sourceCost?.taxRate}
+        />
       </s-table-cell>
       <s-table-cell>
         <s-box inlineSize="100px">
           <s-number-field
-            label="Price"
+            label="New price"
             labelAccessibilityVisibility="exclusive"
             step={0.01}
             min={0}
-            value={product.price.toString()}
+            value={product.priceNew.toString()}
             onChange={handlePriceChange}
           />
           {product.editing?.status && onConfirmEdit && (
@@ -554,11 +3836,38 @@ export function ProductRow({
             </div>
           )}
         </s-box>
+        {product.priceNew !== product.price && (
+          <div style={{ fontSize: "12px", marginTop: "4px" }}>
+            Current {formatCurrency(product.price, currency)}
+          </div>
+        )}
+        {suggested && (
+          <div style={{ fontSize: "12px", marginTop: "4px" }}>
+            <div>{suggested.rule}</div>
+            {product.priceNew === suggested.price ? (
+              suggested.rawPrice !== suggested.price && (
+                <div>
+                  Rounded from {formatCurrency(suggested.rawPrice, currency)}
+                </div>
+              )
+            ) : (
+              <div>
+                Rule price{" "}
+                <RoundedPrice
+                  price={suggested.price}
+                  rawPrice={suggested.rawPrice}
+                  currency={currency}
+                />
+              </div>
+            )}
+          </div>
+        )}
       </s-table-cell>
       <s-table-cell>
         <s-checkbox
           accessibilityLabel="Update Product?"
           checked={product.update}
+          disabled={duplicate?.choice === "pending"}
           onChange={() => onToggleUpdate(product.variantId)}
         />
       </s-table-cell>
@@ -575,7 +3884,10 @@ interface ProductTableProps {
   onPriceChange: (variantId: string, price: number) => void;
   onConfirmEdit?: (variantId: string) => void;
   onSelectCurrentPage?: (variantIds: string[]) => void;
+  onUnlink?: (product: NormalizedProduct) => void;
+  onResolveDuplicate?: (variantId: string, choice: DuplicateSkuChoice) => void;
   shopDomain?: string | null;
+  currency?: string;
   filter: FilterType;
 }
 
@@ -585,7 +3897,10 @@ export function ProductTable({
   onPriceChange,
   onConfirmEdit,
   onSelectCurrentPage,
+  onUnlink,
+  onResolveDuplicate,
   shopDomain,
+  currency,
   filter,
 }: ProductTableProps) {
   const showDevSelectCurrentPage = import.meta.env.DEV;
@@ -677,7 +3992,7 @@ export function ProductTable({
           <s-table-header listSlot="primary">Product</s-table-header>
           <s-table-header>Cost Change</s-table-header>
           <s-table-header>New Margin</s-table-header>
-          <s-table-header>Price</s-table-header>
+          <s-table-header>New Price</s-table-header>
           <s-table-header>Update?</s-table-header>
         </s-table-header-row>
 
@@ -689,7 +4004,10 @@ export function ProductTable({
               onToggleUpdate={onToggleUpdate}
               onPriceChange={onPriceChange}
               onConfirmEdit={onConfirmEdit}
+              onUnlink={onUnlink}
+              onResolveDuplicate={onResolveDuplicate}
               shopDomain={shopDomain}
+              currency={currency}
             />
           ))}
         </s-table-body>
@@ -3,42 +3,146 @@
  * Based on Shopify Admin API
  */
 
-// Query products by SKU - builds OR query for multiple SKUs
-export const GET_PRODUCTS_BY_SKU = `#graphql
-  query getProductsBySku($query: String!, $locationId: ID!) {
-    products(first: 100, query: $query) {
+import type { ReconcileScope } from "../types/supplier-updates";
+
+// Query variants by SKU, barcode or reconcile scope, a page at a time (builds
+// OR query for multiple values), each with its product
+export const GET_VARIANTS_BY_QUERY = `#graphql
+  query getVariantsByQuery($query: String!, $locationId: ID!, $after: String) {
+    productVariants(first: 100, query: $query, after: $after) {
       nodes {
         id
-        title
-        featuredMedia {
-          preview {
-            image {
-              url(transform: { maxWidth: 40, maxHeight: 40 })
+        sku
+        price
+        compareAtPrice
+        barcode
+        inventoryItem {
+          id
+          measurement {
+            weight {
+              unit
+              value
+            }
+          }
+          unitCost {
+            amount
+            currencyCode
+          }
+          inventoryLevel(locationId: $locationId) {
+            location {
+              id
+            }
+            quantities(names: ["available"]) {
+              name
+              quantity
+            }
+          }
+        }
+        inventoryQuantity
+        product {
+          id
+          title
+          vendor
+          productType
+          tags
+          featuredMedia {
+            preview {
+              image {
+                url(transform: { maxWidth: 40, maxHeight: 40 })
+              }
             }
           }
         }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+// Query products that may be near matches (by SKU prefix or title) for
+// not-found suggestions; only the first page is read, as these are hints
+export const GET_SIMILAR_PRODUCTS = `#graphql
+  query getSimilarProducts($query: String!) {
+    products(first: 50, query: $query) {
+      nodes {
+        id
+        title
         variants(first: 100) {
           nodes {
             id
             sku
-            price
-            inventoryItem {
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Products in a collection, for collection pricing rules
+export const GET_COLLECTION_PRODUCTS = `#graphql
+  query getCollectionProducts($id: ID!, $after: String) {
+    collection(id: $id) {
+      products(first: 250, after: $after) {
+        nodes {
+          id
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+`;
+
+// Get variants by ID (supplier SKU cross-references), with their product
+export const GET_VARIANTS_BY_ID = `#graphql
+  query getVariantsById($ids: [ID!]!, $locationId: ID!) {
+    nodes(ids: $ids) {
+      ... on ProductVariant {
+        id
+        sku
+        price
+        compareAtPrice
+        barcode
+        inventoryItem {
+          id
+          measurement {
+            weight {
+              unit
+              value
+            }
+          }
+          unitCost {
+            amount
+            currencyCode
+          }
+          inventoryLevel(locationId: $locationId) {
+            location {
               id
-              unitCost {
-                amount
-                currencyCode
-              }
-              inventoryLevel(locationId: $locationId) {
-                location {
-                  id
-                }
-                quantities(names: ["available"]) {
-                  name
-                  quantity
-                }
+            }
+            quantities(names: ["available"]) {
+              name
+              quantity
+            }
+          }
+        }
+        inventoryQuantity
+        product {
+          id
+          title
+          vendor
+          productType
+          tags
+          featuredMedia {
+            preview {
+              image {
+                url(transform: { maxWidth: 40, maxHeight: 40 })
               }
             }
-            inventoryQuantity
           }
         }
       }
@@ -46,6 +150,40 @@ export const GET_PRODUCTS_BY_SKU = `#graphql
   }
 `;
 
+// Start a bulk operation (the query is built by buildVariantExportQuery, as
+// bulk queries take no variables)
+export const BULK_OPERATION_RUN_QUERY = `#graphql
+  mutation bulkOperationRunQuery($query: String!) {
+    bulkOperationRunQuery(query: $query) {
+      bulkOperation {
+        id
+        status
+        errorCode
+        objectCount
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Get the progress of a bulk operation and the URL of its JSONL result
+export const GET_BULK_OPERATION = `#graphql
+  query getBulkOperation($id: ID!) {
+    node(id: $id) {
+      ... on BulkOperation {
+        id
+        status
+        errorCode
+        objectCount
+        url
+      }
+    }
+  }
+`;
+
 // Get locations for inventory operations
 export const GET_LOCATIONS = `#graphql
   query getLocations {
@@ -59,6 +197,16 @@ export const GET_LOCATIONS = `#graphql
   }
 `;
 
+// Get the shop currency and whether prices include tax
+export const GET_SHOP_DETAILS = `#graphql
+  query getShopDetails {
+    shop {
+      currencyCode
+      taxesIncluded
+    }
+  }
+`;
+
 // Adjust inventory quantities
 // NOTE: Uses delta (difference), not absolute values
 export const INVENTORY_ADJUST_QUANTITIES = `#graphql
@@ -81,6 +229,27 @@ export const INVENTORY_ADJUST_QUANTITIES = `#graphql
   }
 `;
 
+// Set inventory quantities, checked against the quantities last read
+export const INVENTORY_SET_QUANTITIES = `#graphql
+  mutation inventorySetQuantities($input: InventorySetQuantitiesInput!) {
+    inventorySetQuantities(input: $input) {
+      inventoryAdjustmentGroup {
+        createdAt
+        reason
+        changes {
+          name
+          delta
+          quantityAfterChange
+        }
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
 // Update variant prices and costs in bulk
 // This is the recommended approach for updating both price and cost together
 export const PRODUCT_VARIANTS_BULK_UPDATE = `#graphql
@@ -129,6 +298,51 @@ export const INVENTORY_ITEM_UPDATE = `#graphql
   }
 `;
 
+// Update product-level fields (title, vendor)
+export const PRODUCT_UPDATE = `#graphql
+  mutation productUpdate($product: ProductUpdateInput!) {
+    productUpdate(product: $product) {
+      product {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Create a product with its variant, cost and stock in one call
+export const PRODUCT_SET = `#graphql
+  mutation productSet($input: ProductSetInput!) {
+    productSet(input: $input, synchronous: true) {
+      product {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+// Add tags to a product (existing tags are kept)
+export const TAGS_ADD = `#graphql
+  mutation tagsAdd($id: ID!, $tags: [String!]!) {
+    tagsAdd(id: $id, tags: $tags) {
+      node {
+        id
+      }
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
 /**
  * Build SKU query string for GraphQL
  * Shopify query format: "sku:ABC OR sku:DEF OR sku:GHI"
@@ -136,10 +350,120 @@ export const INVENTORY_ITEM_UPDATE = `#graphql
  * @returns Query string for products query
  */
 export function buildSkuQuery(skus: string[]): string {
-  return skus
-    .map((sku) => sku.trim())
+  return buildFieldQuery("sku", skus);
+}
+
+/**
+ * Build barcode query string for GraphQL
+ * Shopify query format: "barcode:123 OR barcode:456"
+ * @param barcodes Array of barcode strings
+ * @returns Query string for products query
+ */
+export function buildBarcodeQuery(barcodes: string[]): string {
+  return buildFieldQuery("barcode", barcodes);
+}
+
+/**
+ * Build a query for products that may be near matches
+ * Each SKU prefix becomes a wildcard search ("sku:ABC-12*") and each title a
+ * search for all of its words
+ * @param skuPrefixes Leading part of each SKU
+ * @param titles Words of each title
+ * @returns Query string for products query
+ */
+export function buildSimilarQuery(
+  skuPrefixes: string[],
+  titles: string[][],
+): string {
+  const skuTerms = skuPrefixes
+    .map((prefix) => prefix.replace(/[^A-Za-z0-9_.-]/g, ""))
+    .filter((prefix) => prefix.length >= 3)
+    .map((prefix) => `sku:${prefix}*`);
+  const titleTerms = titles
+    .map((words) => words.filter((word) => /^[\p{L}\p{N}]+$/u.test(word)))
+    .filter((words) => words.length > 0)
+    .map((words) => `(${words.map((word) => `title:${word}`).join(" AND ")})`);
+  return [...skuTerms, ...titleTerms].join(" OR ");
+}
+
+/**
+ * Build the bulk query that exports every variant with its product
+ * Same fields as GET_VARIANTS_BY_QUERY; one JSONL line per variant
+ * @param locationId Location for the stock levels
+ * @returns Query string for bulkOperationRunQuery
+ */
+export function buildVariantExportQuery(locationId: string): string {
+  return `{
+    productVariants {
+      edges {
+        node {
+          id
+          sku
+          price
+          compareAtPrice
+          barcode
+          inventoryItem {
+            id
+            measurement {
+              weight {
+                unit
+                value
+              }
+            }
+            unitCost {
+              amount
+              currencyCode
+            }
+            inventoryLevel(locationId: ${JSON.stringify(locationId)}) {
+              location {
+                id
+              }
+              quantities(names: ["available"]) {
+                name
+                quantity
+              }
+            }
+          }
+          inventoryQuantity
+          product {
+            id
+            title
+            vendor
+            productType
+            tags
+            featuredMedia {
+              preview {
+                image {
+                  url(transform: { maxWidth: 40, maxHeight: 40 })
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }`;
+}
+
+/**
+ * Build a variant query for a reconcile scope
+ * Shopify query format: 'vendor:"Acme"', 'tag:"acme"' or "collection:123"
+ * @param scope Vendor, tag or collection to reconcile
+ * @returns Query string for productVariants query
+ */
+export function buildScopeQuery(scope: ReconcileScope): string {
+  if (scope.type === "collection") {
+    const id = scope.value.split("/").pop() || "";
+    return /^\d+$/.test(id) ? `collection:${id}` : "";
+  }
+  return buildFieldQuery(scope.type, [scope.value]);
+}
+
+function buildFieldQuery(field: string, values: string[]): string {
+  return values
+    .map((value) => value.trim())
     .filter(Boolean)
-    .map((sku) => `sku:"${escapeQueryValue(sku)}"`)
+    .map((value) => `${field}:"${escapeQueryValue(value)}"`)
     .join(" OR ");
 }
 
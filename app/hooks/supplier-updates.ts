@@ -5,53 +5,312 @@
 import { useState, useCallback, useEffect, useMemo } from "react";
 import type {
   CSVFieldMapping,
+  CSVLayout,
+  CSVParseResult,
+  CSVParsingOptions,
+  DuplicateSkuChoice,
+  FieldTransform,
+  MappingProfile,
   NormalizedProduct,
+  RowFilter,
+  SupplierCurrency,
+  SupplierFieldKey,
+  SupplierFile,
+  SupplierTax,
   UpdateResponse,
   FilterType,
 } from "../types/supplier-updates";
-import { getMarginStatus } from "../lib/supplier-updates";
+import {
+  DEFAULT_CSV_PARSING,
+  createFieldMapping,
+  detectHeaderRow,
+  getCSVHeaders,
+  getMarginStatus,
+  isDuplicatePending,
+  isFieldMappingComplete,
+} from "../lib/supplier-updates";
+import { DEFAULT_SUPPLIER_CURRENCY } from "../lib/currency";
+import { DEFAULT_SUPPLIER_TAX, removeTax } from "../lib/tax";
+import {
+  applyMappingProfile,
+  findMatchingProfile,
+} from "../lib/mapping-profiles";
+import {
+  applyFieldSuggestions,
+  suggestFieldMapping,
+} from "../lib/auto-mapping";
 
 /**
- * Hook to manage CSV field mapping state
+ * Hook to manage the supplier files in an update session
+ * Each file keeps its own column mapping, header/footer layout and parsing
+ * options; field/layout/parsing updates apply to the active file.
+ * New files whose headers match a saved profile start with that profile;
+ * otherwise columns are suggested from the headers and sample values
  */
-export function useCSVFieldMapping() {
-  const [fields, setFields] = useState<CSVFieldMapping>({
-    sku: { label: "SKU Column", value: null },
-    cost: { label: "Cost Column", value: null },
-    soh: { label: "Stock on Hand Column", value: null },
-  });
+export function useSupplierFiles(profiles: MappingProfile[] = []) {
+  const [files, setFiles] = useState<SupplierFile[]>([]);
+  const [activeFileId, setActiveFileId] = useState<string | null>(null);
+
+  const activeFile = useMemo(
+    () => files.find((file) => file.id === activeFileId) || null,
+    [files, activeFileId],
+  );
+
+  const updateActiveFile = useCallback(
+    (update: (file: SupplierFile) => SupplierFile) => {
+      setFiles((prev) =>
+        prev.map((file) => (file.id === activeFileId ? update(file) : file)),
+      );
+    },
+    [activeFileId],
+  );
+
+  /**
+   * Add a new file, or replace the rows of a file that was re-read
+   * (different worksheet, encoding or delimiter). A re-read file keeps its
+   * mapping while its headers are unchanged; otherwise it is mapped again
+   * like a new file, keeping its other settings
+   */
+  const loadFile = useCallback(
+    (
+      id: string,
+      fileName: string,
+      data: string[][],
+      parseResult: CSVParseResult,
+    ) => {
+      const layout = { headerRow: detectHeaderRow(data), footerRows: 0 };
+      const match = findMatchingProfile(data, profiles);
+      setFiles((prev) => {
+        const existing = prev.find((file) => file.id === id);
+        if (
+          existing &&
+          getCSVHeaders(existing.data, existing.layout).join("\n") ===
+            getCSVHeaders(data, layout).join("\n")
+        ) {
+          return prev.map((file) =>
+            file.id === id
+              ? { ...file, fileName, data, parseResult, layout }
+              : file,
+          );
+        }
+
+        let file: SupplierFile;
+        if (match) {
+          file = {
+            id,
+            fileName,
+            data,
+            parseResult,
+            fields: match.fields,
+            layout: {
+              headerRow: match.headerRow,
+              footerRows: match.profile.config.layout.footerRows,
+            },
+            parsing: match.profile.config.parsing,
+            profileId: match.profile.id,
+            suggestions: {},
+            transforms: match.profile.config.transforms || {},
+            filters: match.profile.config.filters || [],
+            currency:
+              match.profile.config.currency || DEFAULT_SUPPLIER_CURRENCY,
+            tax: match.profile.config.tax || DEFAULT_SUPPLIER_TAX,
+          };
+        } else {
+          const parsing = existing?.parsing || DEFAULT_CSV_PARSING;
+          const suggestions = suggestFieldMapping(data, layout, parsing);
+          file = {
+            transforms: {},
+            filters: [],
+            currency: DEFAULT_SUPPLIER_CURRENCY,
+            tax: DEFAULT_SUPPLIER_TAX,
+            ...existing,
+            id,
+            fileName,
+            data,
+            parseResult,
+            fields: applyFieldSuggestions(createFieldMapping(), suggestions),
+            layout,
+            parsing,
+            profileId: null,
+            suggestions,
+          };
+        }
+
+        return existing
+          ? prev.map((current) => (current.id === id ? file : current))
+          : [...prev, file];
+      });
+      setActiveFileId(id);
+    },
+    [profiles],
+  );
+
+  const removeFile = useCallback(
+    (id: string) => {
+      const next = files.filter((file) => file.id !== id);
+      setFiles(next);
+      if (activeFileId === id) {
+        setActiveFileId(next[next.length - 1]?.id ?? null);
+      }
+    },
+    [files, activeFileId],
+  );
 
   const updateField = useCallback(
     (fieldKey: keyof CSVFieldMapping, value: number | "none" | null) => {
-      setFields((prev) => ({
-        ...prev,
-        [fieldKey]: { ...prev[fieldKey], value },
+      updateActiveFile((file) => ({
+        ...file,
+        fields: {
+          ...file.fields,
+          [fieldKey]: { ...file.fields[fieldKey], value },
+        },
       }));
     },
-    [],
+    [updateActiveFile],
   );
 
-  const resetFields = useCallback(() => {
-    setFields({
-      sku: { label: "SKU Column", value: null },
-      cost: { label: "Cost Column", value: null },
-      soh: { label: "Stock on Hand Column", value: null },
-    });
+  const updateLayout = useCallback(
+    (updates: Partial<CSVLayout>) => {
+      updateActiveFile((file) => {
+        const layout = { ...file.layout, ...updates };
+        if (layout.headerRow === file.layout.headerRow) {
+          return { ...file, layout };
+        }
+
+        // Different header row: re-suggest columns the user has not picked
+        const suggestions = suggestFieldMapping(
+          file.data,
+          layout,
+          file.parsing,
+        );
+        return {
+          ...file,
+          layout,
+          fields: applyFieldSuggestions(
+            file.fields,
+            suggestions,
+            file.suggestions,
+          ),
+          suggestions,
+        };
+      });
+    },
+    [updateActiveFile],
+  );
+
+  const updateParsing = useCallback(
+    (updates: Partial<CSVParsingOptions>) => {
+      updateActiveFile((file) => ({
+        ...file,
+        parsing: { ...file.parsing, ...updates },
+      }));
+    },
+    [updateActiveFile],
+  );
+
+  const updateTransforms = useCallback(
+    (fieldKey: SupplierFieldKey, transforms: FieldTransform[]) => {
+      updateActiveFile((file) => ({
+        ...file,
+        transforms: { ...file.transforms, [fieldKey]: transforms },
+      }));
+    },
+    [updateActiveFile],
+  );
+
+  const updateCurrency = useCallback(
+    (updates: Partial<SupplierCurrency>) => {
+      updateActiveFile((file) => ({
+        ...file,
+        currency: { ...file.currency, ...updates },
+      }));
+    },
+    [updateActiveFile],
+  );
+
+  const updateTax = useCallback(
+    (updates: Partial<SupplierTax>) => {
+      updateActiveFile((file) => ({
+        ...file,
+        tax: { ...file.tax, ...updates },
+      }));
+    },
+    [updateActiveFile],
+  );
+
+  const updateFilters = useCallback(
+    (filters: RowFilter[]) => {
+      updateActiveFile((file) => ({ ...file, filters }));
+    },
+    [updateActiveFile],
+  );
+
+  /**
+   * Apply a saved profile to the active file
+   * Uses the profile's header row and maps its columns by header name
+   */
+  const applyProfile = useCallback(
+    (profile: MappingProfile) => {
+      updateActiveFile((file) => {
+        const layout = profile.config.layout;
+        return {
+          ...file,
+          fields: applyMappingProfile(
+            profile,
+            getCSVHeaders(file.data, layout),
+          ),
+          layout,
+          parsing: profile.config.parsing,
+          profileId: profile.id,
+          transforms: profile.config.transforms || {},
+          filters: profile.config.filters || [],
+          currency: profile.config.currency || DEFAULT_SUPPLIER_CURRENCY,
+          tax: profile.config.tax || DEFAULT_SUPPLIER_TAX,
+        };
+      });
+    },
+    [updateActiveFile],
+  );
+
+  /**
+   * Record which profile the active file is using (e.g. after saving it)
+   */
+  const setActiveProfileId = useCallback(
+    (profileId: string | null) => {
+      updateActiveFile((file) => ({ ...file, profileId }));
+    },
+    [updateActiveFile],
+  );
+
+  const resetFiles = useCallback(() => {
+    setFiles([]);
+    setActiveFileId(null);
   }, []);
 
-  const allFieldsSelected = useMemo(() => {
-    return (
-      fields.sku.value !== null &&
-      fields.cost.value !== null &&
-      fields.soh.value !== null
-    );
-  }, [fields]);
+  const allFilesMapped = useMemo(
+    () =>
+      files.length > 0 &&
+      files.every((file) => isFieldMappingComplete(file.fields)),
+    [files],
+  );
 
   return {
-    fields,
+    files,
+    activeFile,
+    setActiveFileId,
+    loadFile,
+    removeFile,
     updateField,
-    resetFields,
-    allFieldsSelected,
+    updateLayout,
+    updateParsing,
+    updateTransforms,
+    updateFilters,
+    updateCurrency,
+    updateTax,
+    applyProfile,
+    setActiveProfileId,
+    resetFiles,
+    allFilesMapped,
   };
 }
 
@@ -95,17 +354,44 @@ export function usePricingProducts(marginThreshold: number = 5) {
   const toggleProductUpdate = useCallback((variantId: string) => {
     setProducts((prev) =>
       prev.map((p) =>
-        p.variantId === variantId ? { ...p, update: !p.update } : p,
+        p.variantId === variantId && !isDuplicatePending(p)
+          ? { ...p, update: !p.update }
+          : p,
       ),
     );
   }, []);
 
+  // Choose which variants of a shared SKU to update: the given one, all of
+  // them, or none until chosen again ("pending")
+  const resolveDuplicateSku = useCallback(
+    (variantId: string, choice: DuplicateSkuChoice) => {
+      setProducts((prev) => {
+        const group = prev.find((p) => p.variantId === variantId)?.duplicateSku;
+        if (!group) return prev;
+        const variantIds = new Set(group.variantIds);
+        return prev.map((p) =>
+          variantIds.has(p.variantId) && p.duplicateSku
+            ? {
+                ...p,
+                update:
+                  choice === "all" ||
+                  (choice === "one" && p.variantId === variantId),
+                duplicateSku: { ...p.duplicateSku, choice },
+              }
+            : p,
+        );
+      });
+    },
+    [],
+  );
+
   const updateProductPrice = useCallback(
     (variantId: string, newPrice: number) => {
       setProducts((prev) =>
         prev.map((p) => {
           if (p.variantId !== variantId) return p;
-          const newMargin = (newPrice / p.costNew) * 100 - 100;
+          const newMargin =
+            (removeTax(newPrice, p.priceTaxRate ?? 0) / p.costNew) * 100 - 100;
           const nextStatus =
             newMargin < 0
               ? "negative"
@@ -118,7 +404,7 @@ export function usePricingProducts(marginThreshold: number = 5) {
               : { status: true, filter };
           return {
             ...p,
-            price: newPrice,
+            priceNew: newPrice,
             margin: newMargin,
             marginStatus: nextStatus,
             editing: nextEditing,
@@ -144,7 +430,8 @@ export function usePricingProducts(marginThreshold: number = 5) {
     setProducts((prev) => {
       let changed = false;
       const next = prev.map((p) => {
-        const shouldUpdate = selected.has(p.variantId);
+        const shouldUpdate =
+          selected.has(p.variantId) && !isDuplicatePending(p);
         if (p.update === shouldUpdate) return p;
         changed = true;
         return { ...p, update: shouldUpdate };
@@ -193,6 +480,7 @@ export function usePricingProducts(marginThreshold: number = 5) {
     setMargin,
     updateProduct,
     toggleProductUpdate,
+    resolveDuplicateSku,
     updateProductPrice,
     confirmProductEdit,
     setUpdatesForVariants,
@@ -0,0 +1,222 @@
+/**
+ * Column auto-mapping for Supplier Updates
+ * Suggests a column for each registry field from header names and sample
+ * values when no saved profile matches the file
+ */
+
+import type {
+  CSVFieldMapping,
+  CSVLayout,
+  CSVParsingOptions,
+  FieldSuggestion,
+  FieldSuggestions,
+  MappingConfidence,
+  NumberLocale,
+  SupplierFieldDefinition,
+} from "../types/supplier-updates";
+import {
+  DEFAULT_CSV_LAYOUT,
+  DEFAULT_CSV_PARSING,
+  getCSVDataRows,
+  getCSVHeaders,
+} from "./supplier-updates";
+import { detectNumberLocale, parseLocaleNumber } from "./number-format";
+import { SUPPLIER_FIELDS, parseFieldValue } from "./field-registry";
+import { editDistance } from "./fuzzy-match";
+
+type FieldKey = keyof CSVFieldMapping;
+
+// Rows sampled for value checks
+const SAMPLE_ROWS = 50;
+
+// Lowest combined score that is still offered as a suggestion
+const MIN_SUGGESTION_SCORE = 0.3;
+
+/**
+ * Normalize a header for matching ("Part No." → "part no")
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Levenshtein similarity between two strings (1 = identical)
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Score how well a header names a field
+ * Exact synonym 1, synonym words inside a longer header 0.75-0.95,
+ * close misspelling up to 0.8
+ */
+function scoreHeader(field: SupplierFieldDefinition, header: string): number {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return 0;
+
+  const words = normalized.split(" ");
+  if (field.exclusions.some((word) => words.includes(word))) {
+    return 0;
+  }
+
+  let best = 0;
+  for (const synonym of field.synonyms) {
+    if (normalized === synonym) return 1;
+
+    const synonymWords = synonym.split(" ");
+    if (synonymWords.every((word) => words.includes(word))) {
+      best = Math.max(best, 0.75 + 0.2 * (synonymWords.length / words.length));
+      continue;
+    }
+
+    const fuzzy = similarity(normalized, synonym);
+    if (fuzzy >= 0.75) best = Math.max(best, fuzzy * 0.8);
+  }
+
+  return best;
+}
+
+/**
+ * Score how well a column's values fit a field
+ * SKUs are mostly unique codes, prices are decimals, stock is whole numbers;
+ * other types score by the share of values that parse
+ */
+function scoreValues(
+  field: SupplierFieldDefinition,
+  values: string[],
+  numberLocale: NumberLocale,
+): number {
+  const filled = values.filter((value) => value.trim() !== "");
+  if (filled.length === 0) return 0;
+
+  const locale =
+    numberLocale === "auto" ? detectNumberLocale(filled) : numberLocale;
+  const numbers = filled
+    .map((value) => parseLocaleNumber(value, locale))
+    .filter((parsed) => parsed.ok)
+    .map((parsed) => parsed.value);
+  const numericShare = numbers.length / filled.length;
+  const decimalShare =
+    numbers.filter((value) => !Number.isInteger(value)).length /
+    Math.max(numbers.length, 1);
+
+  switch (field.type) {
+    case "code": {
+      const unique = new Set(filled.map((value) => value.toLowerCase())).size;
+      const compact = filled.filter((value) => !/\s/.test(value.trim()));
+      return (
+        (unique / filled.length) *
+        (compact.length / filled.length) *
+        (1 - numericShare * decimalShare)
+      );
+    }
+    case "money": {
+      const nonNegative = numbers.filter((value) => value >= 0).length;
+      return (
+        numericShare *
+        (nonNegative / Math.max(numbers.length, 1)) *
+        (0.6 + 0.4 * decimalShare)
+      );
+    }
+    case "quantity":
+      return numericShare * (1 - decimalShare);
+    case "text":
+      return 1 - numericShare;
+    default:
+      return (
+        filled.filter((value) => parseFieldValue(field.type, value, locale).ok)
+          .length / filled.length
+      );
+  }
+}
+
+function toConfidence(score: number): MappingConfidence {
+  if (score >= 0.8) return "high";
+  if (score >= 0.55) return "medium";
+  return "low";
+}
+
+/**
+ * Suggest a column for each field from header names and sample values
+ * Each column is suggested for at most one field, best scores first
+ * @param csvData Parsed CSV rows
+ * @param layout Header row and footer settings
+ * @param parsing Number format options
+ * @returns Suggested column and confidence per field (fields may be missing)
+ */
+export function suggestFieldMapping(
+  csvData: string[][],
+  layout: CSVLayout = DEFAULT_CSV_LAYOUT,
+  parsing: CSVParsingOptions = DEFAULT_CSV_PARSING,
+): FieldSuggestions {
+  const headers = getCSVHeaders(csvData, layout);
+  const sample = getCSVDataRows(csvData, layout).slice(0, SAMPLE_ROWS);
+  const candidates: Array<{ field: FieldKey; suggestion: FieldSuggestion }> =
+    [];
+
+  headers.forEach((header, column) => {
+    const values = sample.map(({ row }) => row[column] || "");
+
+    for (const field of SUPPLIER_FIELDS) {
+      const headerScore = scoreHeader(field, header);
+      if (headerScore === 0 && !field.suggestFromValues) continue;
+
+      // Values only confirm the header; on their own they stay low confidence
+      const valueScore = scoreValues(field, values, parsing.numberLocale);
+      // Optional fields are only offered when most sample values fit
+      if (!field.required && valueScore < 0.5) continue;
+      const score =
+        headerScore > 0
+          ? headerScore * 0.7 + valueScore * 0.3
+          : valueScore * 0.4;
+
+      if (score >= MIN_SUGGESTION_SCORE) {
+        candidates.push({
+          field: field.key,
+          suggestion: { column, confidence: toConfidence(score), score },
+        });
+      }
+    }
+  });
+
+  candidates.sort((a, b) => b.suggestion.score - a.suggestion.score);
+
+  const suggestions: FieldSuggestions = {};
+  const usedColumns = new Set<number>();
+  for (const { field, suggestion } of candidates) {
+    if (suggestions[field] || usedColumns.has(suggestion.column)) continue;
+    suggestions[field] = suggestion;
+    usedColumns.add(suggestion.column);
+  }
+
+  return suggestions;
+}
+
+/**
+ * Fill a field mapping from suggestions
+ * Only fields that are unselected, or still on the previous suggestion, are
+ * changed, so columns the user picked by hand are kept
+ * @param fields Current field mapping
+ * @param suggestions New suggestions
+ * @param previous Suggestions the current mapping was filled from
+ * @returns Updated field mapping
+ */
+export function applyFieldSuggestions(
+  fields: CSVFieldMapping,
+  suggestions: FieldSuggestions,
+  previous: FieldSuggestions = {},
+): CSVFieldMapping {
+  const next = { ...fields };
+  for (const field of Object.keys(next) as FieldKey[]) {
+    const current = next[field].value;
+    if (current !== null && current !== previous[field]?.column) continue;
+    next[field] = { ...next[field], value: suggestions[field]?.column ?? null };
+  }
+  return next;
+}
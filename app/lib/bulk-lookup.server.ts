@@ -0,0 +1,138 @@
+/**
+ * Bulk lookup for Supplier Updates
+ * Large supplier files would take hundreds of search queries, so the store's
+ * variants are exported once with a bulk operation and the JSONL result is
+ * matched in memory (see lookupProducts' catalog option)
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type {
+  BulkExport,
+  BulkOperationStatus,
+  ShopifyProduct,
+} from "../types/supplier-updates";
+import {
+  BULK_OPERATION_RUN_QUERY,
+  GET_BULK_OPERATION,
+  buildVariantExportQuery,
+} from "../graphql/supplier-updates";
+import type { VariantNode } from "./product-lookup.server";
+import { toShopifyProduct } from "./product-lookup.server";
+
+interface BulkOperationRecord {
+  id: string;
+  status: BulkOperationStatus;
+  errorCode: string | null;
+  objectCount: string; // UnsignedInt64
+  url?: string | null;
+}
+
+interface BulkRunResponse {
+  data?: {
+    bulkOperationRunQuery: {
+      bulkOperation: BulkOperationRecord | null;
+      userErrors: Array<{ field?: string[]; message: string }>;
+    };
+  };
+}
+
+interface BulkOperationResponse {
+  data?: {
+    node: BulkOperationRecord | null;
+  };
+}
+
+function toBulkExport(record: BulkOperationRecord): BulkExport {
+  return {
+    id: record.id,
+    status: record.status,
+    objectCount: parseInt(record.objectCount, 10) || 0,
+    errorCode: record.errorCode,
+  };
+}
+
+async function fetchBulkOperation(
+  admin: AdminApiContext,
+  id: string,
+): Promise<BulkOperationRecord | null> {
+  const response = await admin.graphql(GET_BULK_OPERATION, {
+    variables: { id },
+  });
+  const data = (await response.json()) as BulkOperationResponse;
+  return data.data?.node?.id ? data.data.node : null;
+}
+
+/**
+ * Start exporting every variant of the store
+ * Only one bulk query can run per shop at a time; Shopify's error is thrown
+ * if another is running
+ * @param admin Admin API context
+ * @param locationId Location for the stock levels
+ * @returns The started export
+ */
+export async function startVariantExport(
+  admin: AdminApiContext,
+  locationId: string,
+): Promise<BulkExport> {
+  const response = await admin.graphql(BULK_OPERATION_RUN_QUERY, {
+    variables: { query: buildVariantExportQuery(locationId) },
+  });
+  const data = (await response.json()) as BulkRunResponse;
+  const result = data.data?.bulkOperationRunQuery;
+  const operation = result?.bulkOperation;
+
+  if (!operation) {
+    throw new Error(
+      result?.userErrors[0]?.message || "Could not start the variant export",
+    );
+  }
+  return toBulkExport(operation);
+}
+
+/**
+ * Get the progress of a variant export
+ * @param admin Admin API context
+ * @param id BulkOperation GID
+ * @returns The export, or null if it does not exist
+ */
+export async function getVariantExport(
+  admin: AdminApiContext,
+  id: string,
+): Promise<BulkExport | null> {
+  const operation = await fetchBulkOperation(admin, id);
+  return operation ? toBulkExport(operation) : null;
+}
+
+/**
+ * Download a finished variant export
+ * The result URL is read from Shopify rather than taken from the client
+ * @param admin Admin API context
+ * @param id BulkOperation GID
+ * @returns Each exported variant wrapped in its product
+ */
+export async function loadVariantExport(
+  admin: AdminApiContext,
+  id: string,
+): Promise<ShopifyProduct[]> {
+  const operation = await fetchBulkOperation(admin, id);
+  if (!operation || operation.status !== "COMPLETED") {
+    throw new Error("The variant export has not finished");
+  }
+  // A store without variants has no result file
+  if (!operation.url) return [];
+
+  const response = await fetch(operation.url);
+  if (!response.ok) {
+    throw new Error(
+      `Could not download the variant export (${response.status})`,
+    );
+  }
+
+  return (await response.text())
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .flatMap((line) => {
+      const node = JSON.parse(line) as VariantNode;
+      return node.product ? [toShopifyProduct(node)] : [];
+    });
+}
@@ -0,0 +1,180 @@
+/**
+ * Supplier file decoding for Supplier Updates
+ * BOM handling, character-encoding detection and delimiter sniffing
+ */
+
+import type {
+  CSVDelimiter,
+  CSVEncoding,
+  CSVFileResult,
+  CSVImportOptions,
+} from "../types/supplier-updates";
+import { parseCSVStream, parseCSVText } from "./csv-parser";
+
+// Bytes read up front to detect encoding and delimiter
+const SNIFF_BYTES = 64 * 1024;
+
+// Rows of the sample used to score candidate delimiters
+const SNIFF_ROWS = 20;
+
+export const CSV_DELIMITERS: Array<{ value: CSVDelimiter; label: string }> = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" },
+];
+
+export const CSV_ENCODINGS: Array<{ value: CSVEncoding; label: string }> = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+  { value: "windows-1252", label: "Windows-1252 (Western European)" },
+];
+
+/**
+ * Detect a byte order mark at the start of the file
+ * @param bytes First bytes of the file
+ * @returns Encoding and BOM length, or null when there is no BOM
+ */
+export function detectBOM(
+  bytes: Uint8Array,
+): { encoding: CSVEncoding; length: number } | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: "utf-8", length: 3 };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: "utf-16le", length: 2 };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: "utf-16be", length: 2 };
+  }
+  return null;
+}
+
+/**
+ * Guess the character encoding of a file sample
+ * Order: BOM, UTF-16 without BOM (NUL byte pattern), valid UTF-8, Windows-1252
+ * @param bytes First bytes of the file
+ * @returns Detected encoding
+ */
+export function detectEncoding(bytes: Uint8Array): CSVEncoding {
+  const bom = detectBOM(bytes);
+  if (bom) return bom.encoding;
+
+  // ASCII text stored as UTF-16 has a NUL in every other byte
+  const pairs = Math.min(bytes.length, 4096) >> 1;
+  if (pairs > 0) {
+    let evenNulls = 0;
+    let oddNulls = 0;
+    for (let i = 0; i < pairs * 2; i += 2) {
+      if (bytes[i] === 0) evenNulls++;
+      if (bytes[i + 1] === 0) oddNulls++;
+    }
+    if (oddNulls / pairs > 0.3 && evenNulls / pairs < 0.05) return "utf-16le";
+    if (evenNulls / pairs > 0.3 && oddNulls / pairs < 0.05) return "utf-16be";
+  }
+
+  try {
+    // stream: true tolerates a multi-byte character cut off by the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+/**
+ * Guess the delimiter from a sample of decoded text
+ * Picks the candidate that gives the most consistent multi-column rows
+ * @param sample Start of the decoded file
+ * @returns Detected delimiter (comma when nothing fits better)
+ */
+export function detectDelimiter(sample: string): CSVDelimiter {
+  // Drop the last line, it may be cut off by the sample
+  const lastBreak = sample.lastIndexOf("\n");
+  const text = lastBreak > 0 ? sample.slice(0, lastBreak) : sample;
+
+  let best: CSVDelimiter = ",";
+  let bestScore = 0;
+
+  for (const { value: delimiter } of CSV_DELIMITERS) {
+    const rows = parseCSVText(text, { delimiter }).rows.slice(0, SNIFF_ROWS);
+    if (rows.length === 0) continue;
+
+    const counts = new Map<number, number>();
+    for (const row of rows) {
+      counts.set(row.length, (counts.get(row.length) || 0) + 1);
+    }
+
+    let modeWidth = 1;
+    let modeCount = 0;
+    for (const [width, count] of counts) {
+      if (count > modeCount || (count === modeCount && width > modeWidth)) {
+        modeWidth = width;
+        modeCount = count;
+      }
+    }
+    if (modeWidth < 2) continue;
+
+    // Consistency first, wider rows break ties
+    const score = (modeCount / rows.length) * 100 + Math.min(modeWidth, 50);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Decode and parse a supplier CSV file
+ * Detects encoding and delimiter unless overridden, then streams the file
+ * through the CSV parser. Encoding is detected from the start of the file, so
+ * a file detected as UTF-8 is read strictly and read again as Windows-1252 if
+ * invalid UTF-8 turns up further in
+ * @param file Uploaded file (File or Blob)
+ * @param options Encoding and delimiter overrides ("auto" to detect)
+ * @returns Parsed rows plus the encoding and delimiter that were used
+ */
+export async function readCSVFile(
+  file: Blob,
+  options: CSVImportOptions = { encoding: "auto", delimiter: "auto" },
+): Promise<CSVFileResult> {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const bom = detectBOM(head);
+  let encoding =
+    options.encoding === "auto" ? detectEncoding(head) : options.encoding;
+
+  // Skip the BOM ourselves so it never ends up in the first header
+  const body = bom ? file.slice(bom.length) : file;
+
+  const delimiter =
+    options.delimiter === "auto"
+      ? detectDelimiter(
+          new TextDecoder(encoding).decode(
+            head.subarray(bom ? bom.length : 0),
+            { stream: true },
+          ),
+        )
+      : options.delimiter;
+
+  const parse = (fatal: boolean) =>
+    parseCSVStream(
+      body.stream().pipeThrough(new TextDecoderStream(encoding, { fatal })),
+      { delimiter },
+    );
+
+  const strict = options.encoding === "auto" && encoding === "utf-8" && !bom;
+  let result;
+  try {
+    result = await parse(strict);
+  } catch (err) {
+    // Decoding errors are TypeErrors
+    if (!strict || !(err instanceof TypeError)) throw err;
+    encoding = "windows-1252";
+    result = await parse(false);
+  }
+
+  return { ...result, encoding, delimiter, hasBOM: bom !== null };
+}
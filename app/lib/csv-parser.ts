@@ -0,0 +1,218 @@
+/**
+ * Streaming CSV parser for Supplier Updates
+ * RFC 4180 compliant, shared by the browser uploader and server-side imports
+ */
+
+import type {
+  CSVMalformedRow,
+  CSVParseOptions,
+  CSVParseResult,
+} from "../types/supplier-updates";
+
+type ParserState = "fieldStart" | "unquoted" | "quoted" | "quoteInQuoted";
+
+export interface CSVStreamParser {
+  write(chunk: string): void;
+  end(): CSVParseResult;
+}
+
+/**
+ * Create an incremental CSV parser
+ * Chunks can split anywhere (inside quotes, between \r and \n, etc.)
+ * @param options Delimiter, quote character and cleanup options
+ * @returns Parser with write() for each chunk and end() for the result
+ */
+export function createCSVParser(
+  options: CSVParseOptions = {},
+): CSVStreamParser {
+  const delimiter = options.delimiter ?? ",";
+  const quote = options.quote ?? '"';
+  const trim = options.trim ?? true;
+  const skipEmptyLines = options.skipEmptyLines ?? true;
+
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  const malformedRows: CSVMalformedRow[] = [];
+
+  let state: ParserState = "fieldStart";
+  let field = "";
+  let record: string[] = [];
+  let recordIssues: string[] = [];
+  let recordLine = 1;
+  let line = 1;
+  let pendingCR = false;
+  let started = false;
+
+  const endField = () => {
+    record.push(field);
+    field = "";
+    state = "fieldStart";
+  };
+
+  const endRecord = () => {
+    endField();
+
+    const isEmpty = record.every((value) => value.trim() === "");
+    if (!(skipEmptyLines && isEmpty && recordIssues.length === 0)) {
+      rows.push(trim ? record.map((value) => value.trim()) : record);
+      lines.push(recordLine);
+      for (const reason of recordIssues) {
+        malformedRows.push({ row: rows.length, line: recordLine, reason });
+      }
+    }
+
+    record = [];
+    recordIssues = [];
+    recordLine = line;
+  };
+
+  const flagIssue = (reason: string) => {
+    if (!recordIssues.includes(reason)) recordIssues.push(reason);
+  };
+
+  const write = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      // Ignore a byte order mark left in the text by the decoder
+      if (!started) {
+        started = true;
+        if (char === "\uFEFF") continue;
+      }
+
+      // Swallow the \n of a \r\n pair that terminated the previous record
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === "\n") continue;
+      }
+
+      switch (state) {
+        case "fieldStart":
+        case "unquoted":
+          if (char === quote && state === "fieldStart") {
+            state = "quoted";
+          } else if (char === delimiter) {
+            endField();
+          } else if (char === "\r" || char === "\n") {
+            line++;
+            pendingCR = char === "\r";
+            endRecord();
+          } else {
+            if (char === quote) {
+              flagIssue("Unexpected quote in unquoted field");
+            }
+            field += char;
+            state = "unquoted";
+          }
+          break;
+
+        case "quoted":
+          if (char === quote) {
+            state = "quoteInQuoted";
+          } else {
+            if (char === "\n") line++;
+            field += char;
+          }
+          break;
+
+        case "quoteInQuoted":
+          if (char === quote) {
+            // Escaped quote ("")
+            field += quote;
+            state = "quoted";
+          } else if (char === delimiter) {
+            endField();
+          } else if (char === "\r" || char === "\n") {
+            line++;
+            pendingCR = char === "\r";
+            endRecord();
+          } else {
+            // Be lenient: keep the text but report the row
+            flagIssue("Unexpected character after closing quote");
+            field += char;
+            state = "unquoted";
+          }
+          break;
+      }
+    }
+  };
+
+  const end = (): CSVParseResult => {
+    if (state === "quoted") {
+      flagIssue("Unterminated quoted field");
+    }
+    if (state !== "fieldStart" || record.length > 0 || field !== "") {
+      endRecord();
+    }
+
+    return { rows, rowCount: rows.length, malformedRows, lines };
+  };
+
+  return { write, end };
+}
+
+/**
+ * Parse a complete CSV string
+ * @param text Raw CSV file content
+ * @param options Parser options
+ * @returns Parsed rows with row count and malformed row report
+ */
+export function parseCSVText(
+  text: string,
+  options: CSVParseOptions = {},
+): CSVParseResult {
+  const parser = createCSVParser(options);
+  parser.write(text);
+  return parser.end();
+}
+
+/**
+ * Parse a CSV text stream chunk by chunk
+ * Works with File.stream() in the browser and Request/File streams on the server
+ * @param stream Stream of decoded text chunks
+ * @param options Parser options
+ * @returns Parsed rows with row count and malformed row report
+ */
+export async function parseCSVStream(
+  stream: ReadableStream<string>,
+  options: CSVParseOptions = {},
+): Promise<CSVParseResult> {
+  const parser = createCSVParser(options);
+  const reader = stream.getReader();
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (value) parser.write(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  return parser.end();
+}
+
+/**
+ * Serialize rows to RFC 4180 CSV text
+ * Fields containing the delimiter, quotes or line breaks are quoted
+ * @param rows Rows of cell values
+ * @param delimiter Field delimiter (default comma)
+ * @returns CSV text with CRLF line endings
+ */
+export function serializeCSV(
+  rows: string[][],
+  delimiter: string = ",",
+): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) =>
+          value.includes(delimiter) || /["\r\n]/.test(value)
+            ? `"${value.replace(/"/g, '""')}"`
+            : value,
+        )
+        .join(delimiter),
+    )
+    .join("\r\n");
+}
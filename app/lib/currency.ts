@@ -0,0 +1,123 @@
+/**
+ * Supplier currency conversion for Supplier Updates
+ * Converts supplier costs to the shop currency with the shop's stored exchange
+ * rates, takes out any tax and adds the landed-cost uplift, before files are
+ * merged and margins are calculated. Prices in the file (RRP, compare-at) are
+ * converted at the same rate
+ */
+
+import type {
+  CSVProduct,
+  ExchangeRate,
+  SupplierCurrency,
+  SupplierFields,
+  SupplierTax,
+} from "../types/supplier-updates";
+import { DEFAULT_SUPPLIER_TAX, removeTax } from "./tax";
+import { OPTIONAL_FIELDS } from "./field-registry";
+
+export const DEFAULT_SUPPLIER_CURRENCY: SupplierCurrency = {
+  code: null,
+  uplift: 0,
+};
+
+// Offered in the currency pickers alongside any currency that has a rate
+export const SUPPLIER_CURRENCIES = [
+  "AUD",
+  "NZD",
+  "USD",
+  "EUR",
+  "GBP",
+  "CAD",
+  "CNY",
+  "HKD",
+  "JPY",
+  "SGD",
+];
+
+/**
+ * Check an ISO 4217 currency code ("USD")
+ * @param code Currency code
+ * @returns Whether the code is three capital letters
+ */
+export function isCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code);
+}
+
+/**
+ * Look up the rate from a supplier currency to the shop currency
+ * @param currency Supplier currency (null for shop currency)
+ * @param shopCurrency Shop currency code
+ * @param rates Stored exchange rates
+ * @returns Shop currency per unit, 1 for the shop currency, or null if no
+ * rate is stored
+ */
+export function getExchangeRate(
+  currency: string | null,
+  shopCurrency: string,
+  rates: ExchangeRate[],
+): number | null {
+  if (!currency || currency === shopCurrency) return 1;
+  return rates.find((rate) => rate.currency === currency)?.rate ?? null;
+}
+
+/**
+ * Convert the price fields of a row (RRP, compare-at price) at a rate
+ * Prices are shop prices, so no uplift is added and tax is left as it is
+ * @param fields Optional fields read from the row
+ * @param rate Shop currency per unit of the supplier currency
+ * @returns Fields with prices in shop currency
+ */
+function convertPriceFields(
+  fields: SupplierFields,
+  rate: number,
+): SupplierFields {
+  const converted = { ...fields };
+  for (const field of OPTIONAL_FIELDS) {
+    const value = converted[field.key];
+    if (field.type === "money" && typeof value === "number") {
+      converted[field.key] = Math.round(value * rate * 100) / 100;
+    }
+  }
+  return converted;
+}
+
+/**
+ * Bring supplier costs to ex-tax shop currency and add the landed-cost uplift
+ * Converted products keep their original cost in sourceCost; prices in the
+ * file are converted to shop currency at the same rate
+ * @param products Products read from one supplier file
+ * @param currency Supplier currency and uplift
+ * @param shopCurrency Shop currency code
+ * @param rates Stored exchange rates
+ * @param tax Whether the supplier's costs include tax
+ * @returns Products with ex-tax costs in shop currency (unchanged if no rate
+ * is stored for the currency)
+ */
+export function convertSupplierCosts(
+  products: CSVProduct[],
+  currency: SupplierCurrency,
+  shopCurrency: string,
+  rates: ExchangeRate[],
+  tax: SupplierTax = DEFAULT_SUPPLIER_TAX,
+): CSVProduct[] {
+  const rate = getExchangeRate(currency.code, shopCurrency, rates);
+  const taxRate = tax.costIncludesTax ? tax.rate : 0;
+  if (rate === null) return products;
+  if (rate === 1 && !currency.uplift && !taxRate) return products;
+
+  const factor = removeTax(rate * (1 + (currency.uplift || 0) / 100), taxRate);
+  return products.map((product) => ({
+    ...product,
+    ...(product.fields &&
+      rate !== 1 && { fields: convertPriceFields(product.fields, rate) }),
+    cost: Math.round(product.cost * factor * 100) / 100,
+    sourceCost: {
+      amount: product.cost,
+      currency: currency.code || shopCurrency,
+      rate,
+      uplift: currency.uplift || 0,
+      taxRate,
+    },
+  }));
+}
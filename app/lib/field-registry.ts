@@ -0,0 +1,334 @@
+/**
+ * Supplier field registry for Supplier Updates
+ * Every mappable column is declared here once: its label, value type, the
+ * Shopify field it updates and the header names used to suggest it. Adding a
+ * field means adding an entry here, a parser case for a new type if needed,
+ * and its update in field-updates.server.ts
+ */
+
+import type {
+  OptionalFieldKey,
+  ParsedFieldValue,
+  ResolvedNumberLocale,
+  SupplierFieldDefinition,
+  SupplierFieldType,
+  SupplierFieldValue,
+} from "../types/supplier-updates";
+import { parseLocaleNumber } from "./number-format";
+
+export const SUPPLIER_FIELDS: SupplierFieldDefinition[] = [
+  {
+    key: "sku",
+    label: "SKU Column",
+    type: "code",
+    required: true,
+    target: "Matches the variant SKU",
+    synonyms: [
+      "sku",
+      "item code",
+      "item no",
+      "item number",
+      "part no",
+      "part number",
+      "part code",
+      "product code",
+      "stock code",
+      "article no",
+      "article number",
+      "supplier code",
+      "model no",
+      "code",
+      "mpn",
+      "ref",
+    ],
+    exclusions: ["barcode", "ean", "upc", "gtin", "description", "name"],
+    suggestFromValues: true,
+  },
+  {
+    key: "cost",
+    label: "Cost Column",
+    type: "money",
+    required: true,
+    target: "Inventory item cost",
+    synonyms: [
+      "cost",
+      "cost price",
+      "unit cost",
+      "dealer price",
+      "dealer",
+      "nett",
+      "nett price",
+      "net",
+      "net price",
+      "trade",
+      "trade price",
+      "wholesale price",
+      "wholesale",
+      "buy price",
+      "your price",
+      "unit price",
+      "price",
+    ],
+    exclusions: ["rrp", "retail", "sell", "msrp", "recommended", "compare"],
+    suggestFromValues: true,
+  },
+  {
+    key: "soh",
+    label: "Stock on Hand Column",
+    type: "quantity",
+    required: true,
+    target: "Available quantity at the selected location",
+    synonyms: [
+      "soh",
+      "stock on hand",
+      "stock",
+      "qty avail",
+      "qty available",
+      "quantity available",
+      "available",
+      "avail",
+      "on hand",
+      "free stock",
+      "in stock",
+      "stock level",
+      "inventory",
+      "qty",
+      "quantity",
+    ],
+    exclusions: ["price", "cost", "min", "moq", "order", "pack", "eta", "per"],
+  },
+  {
+    key: "rrp",
+    label: "RRP Column",
+    type: "money",
+    required: false,
+    target: "Variant price",
+    synonyms: [
+      "rrp",
+      "retail",
+      "retail price",
+      "msrp",
+      "recommended retail",
+      "sell price",
+      "selling price",
+    ],
+    exclusions: ["compare", "cost", "dealer", "trade"],
+  },
+  {
+    key: "barcode",
+    label: "Barcode Column",
+    type: "barcode",
+    required: false,
+    target: "Variant barcode",
+    synonyms: ["barcode", "ean", "ean13", "upc", "gtin", "apn"],
+    exclusions: [],
+  },
+  {
+    key: "compareAtPrice",
+    label: "Compare-at Price Column",
+    type: "money",
+    required: false,
+    target: "Variant compare-at price",
+    synonyms: ["compare at", "compare at price", "was price", "was", "rrp was"],
+    exclusions: [],
+  },
+  {
+    key: "weight",
+    label: "Weight Column",
+    type: "weight",
+    required: false,
+    target: "Variant weight (kg)",
+    synonyms: ["weight", "weight kg", "gross weight", "net weight", "kg"],
+    exclusions: ["price", "cost"],
+  },
+  {
+    key: "title",
+    label: "Product Title Column",
+    type: "text",
+    required: false,
+    target: "Product title",
+    synonyms: [
+      "title",
+      "product title",
+      "description",
+      "item description",
+      "product name",
+      "name",
+    ],
+    exclusions: ["brand", "code", "sku"],
+  },
+  {
+    key: "brand",
+    label: "Brand Column",
+    type: "text",
+    required: false,
+    target: "Product vendor",
+    synonyms: ["brand", "manufacturer", "make", "vendor", "brand name"],
+    exclusions: ["code"],
+  },
+  {
+    key: "discontinued",
+    label: "Discontinued Column",
+    type: "flag",
+    required: false,
+    target: 'Adds the "discontinued" product tag',
+    synonyms: ["discontinued", "disc", "obsolete", "deleted", "end of life"],
+    exclusions: [],
+  },
+];
+
+export const OPTIONAL_FIELDS = SUPPLIER_FIELDS.filter(
+  (field) => !field.required,
+) as Array<SupplierFieldDefinition & { key: OptionalFieldKey }>;
+
+// Tag added to products flagged as discontinued by the supplier
+export const DISCONTINUED_TAG = "discontinued";
+
+const TRUE_FLAGS = ["y", "yes", "true", "1", "x", "discontinued", "disc", "d"];
+const FALSE_FLAGS = ["n", "no", "false", "0", "active", "current"];
+
+// Weight units suppliers use, converted to kilograms
+const WEIGHT_UNITS: Record<string, number> = {
+  kg: 1,
+  g: 0.001,
+  lb: 0.45359237,
+  lbs: 0.45359237,
+  oz: 0.028349523125,
+};
+
+/**
+ * Get the registry entry for a field
+ * @param key Field key
+ * @returns Field definition
+ */
+export function getFieldDefinition(
+  key: SupplierFieldDefinition["key"],
+): SupplierFieldDefinition {
+  const field = SUPPLIER_FIELDS.find((definition) => definition.key === key);
+  if (!field) throw new Error(`Unknown supplier field: ${key}`);
+  return field;
+}
+
+/**
+ * Short name of a field for messages ("RRP Column" → "RRP")
+ * @param field Field definition
+ * @returns Field name
+ */
+export function getFieldName(field: SupplierFieldDefinition): string {
+  return field.label.replace(/ Column$/, "");
+}
+
+/**
+ * Check a GTIN (EAN-8, UPC-A, EAN-13, GTIN-14) check digit
+ */
+function isValidGtin(digits: string): boolean {
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Parse a non-empty cell for a field type
+ * @param type Field value type
+ * @param raw Raw cell value
+ * @param locale Number format of the file
+ * @returns Parsed value, or the reason it is invalid
+ */
+export function parseFieldValue(
+  type: SupplierFieldType,
+  raw: string,
+  locale: ResolvedNumberLocale = "en",
+): ParsedFieldValue {
+  const value = raw.trim();
+
+  switch (type) {
+    case "code":
+    case "text":
+      return value === ""
+        ? { ok: false, reason: "Empty value" }
+        : { ok: true, value };
+
+    case "money": {
+      const parsed = parseLocaleNumber(value, locale);
+      if (!parsed.ok) return parsed;
+      if (parsed.value < 0) return { ok: false, reason: "Price is negative" };
+      return { ok: true, value: Math.round(parsed.value * 100) / 100 };
+    }
+
+    case "quantity": {
+      const parsed = parseLocaleNumber(value, locale);
+      if (!parsed.ok) return parsed;
+      return { ok: true, value: Math.trunc(parsed.value) };
+    }
+
+    case "barcode": {
+      // Spreadsheet exports sometimes write numeric barcodes as "9300000000001.0"
+      const digits = value.replace(/[\s-]/g, "").replace(/\.0+$/, "");
+      if (!/^\d+$/.test(digits)) {
+        return { ok: false, reason: `Barcode must be digits only: ${value}` };
+      }
+      if (![8, 12, 13, 14].includes(digits.length)) {
+        return {
+          ok: false,
+          reason: `Barcode must have 8, 12, 13 or 14 digits: ${value}`,
+        };
+      }
+      if (!isValidGtin(digits)) {
+        return { ok: false, reason: `Barcode check digit is wrong: ${value}` };
+      }
+      return { ok: true, value: digits };
+    }
+
+    case "weight": {
+      const unit = value.match(/([a-z]+)\.?$/i)?.[1].toLowerCase() || "kg";
+      const factor = WEIGHT_UNITS[unit];
+      if (factor === undefined) {
+        return { ok: false, reason: `Unknown weight unit: ${unit}` };
+      }
+      const parsed = parseLocaleNumber(
+        value.replace(/[a-z]+\.?$/i, ""),
+        locale,
+      );
+      if (!parsed.ok) return parsed;
+      if (parsed.value < 0) return { ok: false, reason: "Weight is negative" };
+      return {
+        ok: true,
+        value: Math.round(parsed.value * factor * 1000) / 1000,
+      };
+    }
+
+    case "flag": {
+      const flag = value.toLowerCase();
+      if (TRUE_FLAGS.includes(flag)) return { ok: true, value: true };
+      if (FALSE_FLAGS.includes(flag)) return { ok: true, value: false };
+      return { ok: false, reason: `Not a yes/no value: ${value}` };
+    }
+  }
+}
+
+/**
+ * Format a field value for display
+ * @param type Field value type
+ * @param value Parsed value
+ * @returns Display text
+ */
+export function formatFieldValue(
+  type: SupplierFieldType,
+  value: SupplierFieldValue | undefined,
+): string {
+  if (value === undefined || value === "") return "—";
+  switch (type) {
+    case "money":
+      return Number(value).toFixed(2);
+    case "weight":
+      return `${value} kg`;
+    case "flag":
+      return value ? "Yes" : "No";
+    default:
+      return String(value);
+  }
+}
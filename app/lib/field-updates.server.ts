@@ -0,0 +1,269 @@
+/**
+ * Optional field updates for Supplier Updates
+ * Writes the supplier fields selected for update (see lib/field-registry) to
+ * Shopify alongside a stock or pricing update
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type {
+  FieldUpdateResult,
+  NormalizedProduct,
+  OptionalFieldKey,
+  UpdateResponse,
+} from "../types/supplier-updates";
+import {
+  PRODUCT_UPDATE,
+  PRODUCT_VARIANTS_BULK_UPDATE,
+  TAGS_ADD,
+} from "../graphql/supplier-updates";
+import {
+  DISCONTINUED_TAG,
+  OPTIONAL_FIELDS,
+  getFieldDefinition,
+  getFieldName,
+} from "./field-registry";
+import { chunkArray, groupProductsByParent } from "./supplier-updates";
+
+interface UserErrorsResponse {
+  data?: Record<
+    string,
+    { userErrors: Array<{ field?: string[]; message: string }> } | undefined
+  >;
+}
+
+// Fields written per variant; the rest are product-level
+const VARIANT_FIELDS: OptionalFieldKey[] = [
+  "rrp",
+  "barcode",
+  "compareAtPrice",
+  "weight",
+];
+
+/**
+ * Read the selected field keys from form data
+ * @param value JSON array of field keys
+ * @returns Known optional field keys (none if the value is not a JSON array)
+ */
+export function parseFieldKeys(
+  value: FormDataEntryValue | null,
+): OptionalFieldKey[] {
+  let keys: unknown;
+  try {
+    keys = JSON.parse((value as string) || "[]");
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(keys)) return [];
+  return OPTIONAL_FIELDS.map((field) => field.key).filter((key) =>
+    keys.includes(key),
+  );
+}
+
+/**
+ * Work out which selected fields actually change for a product
+ */
+function getChangedFields(
+  product: NormalizedProduct,
+  keys: OptionalFieldKey[],
+): OptionalFieldKey[] {
+  return keys.filter((key) => {
+    const next = product.supplierFields?.[key];
+    if (next === undefined) return false;
+    // Only flag products as discontinued, never un-flag them
+    if (key === "discontinued") {
+      return next === true && product.currentFields?.discontinued !== true;
+    }
+    return next !== product.currentFields?.[key];
+  });
+}
+
+async function getUserError(
+  response: Response,
+  mutation: string,
+): Promise<string | null> {
+  const data = (await response.json()) as UserErrorsResponse;
+  const result = data.data?.[mutation];
+  if (!result) return `${mutation} failed`;
+  return result.userErrors[0]?.message ?? null;
+}
+
+/**
+ * Update the selected optional fields of each product
+ * Variant fields go through productVariantsBulkUpdate, title and brand through
+ * productUpdate, and discontinued products get the discontinued tag
+ * @param admin Admin API context
+ * @param products Products to update (with supplier and current field values)
+ * @param keys Field keys selected for update
+ * @returns Changed fields and any error per SKU (unchanged SKUs are left out)
+ */
+export async function updateSupplierFields(
+  admin: AdminApiContext,
+  products: NormalizedProduct[],
+  keys: OptionalFieldKey[],
+): Promise<FieldUpdateResult[]> {
+  const results = new Map<string, FieldUpdateResult>();
+  const changed = new Map<string, OptionalFieldKey[]>();
+
+  for (const product of products) {
+    const fields = getChangedFields(product, keys);
+    if (fields.length === 0) continue;
+    changed.set(product.variantId, fields);
+    results.set(product.variantId, { sku: product.sku, fields });
+  }
+
+  const fail = (variants: NormalizedProduct[], error: string) => {
+    for (const variant of variants) {
+      const result = results.get(variant.variantId);
+      if (result && !result.error) result.error = error;
+    }
+  };
+
+  const grouped = groupProductsByParent(
+    products.filter((product) => changed.has(product.variantId)),
+  );
+
+  for (const [productId, variants] of grouped) {
+    try {
+      // Variant-level fields
+      const variantInputs = variants
+        .filter((variant) =>
+          changed
+            .get(variant.variantId)
+            ?.some((key) => VARIANT_FIELDS.includes(key)),
+        )
+        .map((variant) => {
+          const fields = changed.get(variant.variantId) || [];
+          const values = variant.supplierFields || {};
+          return {
+            variant,
+            input: {
+              id: variant.variantId,
+              ...(fields.includes("rrp") && {
+                price: Number(values.rrp).toFixed(2),
+              }),
+              ...(fields.includes("barcode") && { barcode: values.barcode }),
+              ...(fields.includes("compareAtPrice") && {
+                compareAtPrice: Number(values.compareAtPrice).toFixed(2),
+              }),
+              ...(fields.includes("weight") && {
+                inventoryItem: {
+                  measurement: {
+                    weight: { value: values.weight, unit: "KILOGRAMS" },
+                  },
+                },
+              }),
+            },
+          };
+        });
+
+      for (const batch of chunkArray(variantInputs, 100)) {
+        const response = await admin.graphql(PRODUCT_VARIANTS_BULK_UPDATE, {
+          variables: {
+            productId,
+            variants: batch.map((item) => item.input),
+          },
+        });
+        const error = await getUserError(
+          response,
+          "productVariantsBulkUpdate",
+        );
+        if (error) {
+          fail(
+            batch.map((item) => item.variant),
+            error,
+          );
+        }
+      }
+
+      // Product-level fields, taken from the first variant that has them
+      const productFields = variants.flatMap(
+        (variant) => changed.get(variant.variantId) || [],
+      );
+      const titleSource = variants.find((variant) =>
+        changed.get(variant.variantId)?.includes("title"),
+      );
+      const brandSource = variants.find((variant) =>
+        changed.get(variant.variantId)?.includes("brand"),
+      );
+      if (titleSource || brandSource) {
+        const response = await admin.graphql(PRODUCT_UPDATE, {
+          variables: {
+            product: {
+              id: productId,
+              ...(titleSource && {
+                title: titleSource.supplierFields?.title,
+              }),
+              ...(brandSource && {
+                vendor: brandSource.supplierFields?.brand,
+              }),
+            },
+          },
+        });
+        const error = await getUserError(response, "productUpdate");
+        if (error) fail(variants, error);
+      }
+
+      if (productFields.includes("discontinued")) {
+        const response = await admin.graphql(TAGS_ADD, {
+          variables: { id: productId, tags: [DISCONTINUED_TAG] },
+        });
+        const error = await getUserError(response, "tagsAdd");
+        if (error) fail(variants, error);
+      }
+    } catch (err) {
+      fail(variants, err instanceof Error ? err.message : "Unknown error");
+    }
+  }
+
+  return Array.from(results.values());
+}
+
+/**
+ * Fold field update outcomes into the stock/pricing results
+ * @param results Stock or pricing results
+ * @param fieldResults Field update results
+ * @returns Results with one entry per SKU
+ */
+export function mergeFieldResults(
+  results: UpdateResponse[],
+  fieldResults: FieldUpdateResult[],
+): UpdateResponse[] {
+  for (const fieldResult of fieldResults) {
+    const names = fieldResult.fields
+      .map((key) => getFieldName(getFieldDefinition(key)))
+      .join(", ");
+    const result = results.find((r) => r.sku === fieldResult.sku);
+
+    if (fieldResult.error) {
+      const message = `${names} not updated: ${fieldResult.error}`;
+      if (result) {
+        result.updated = false;
+        result.message = message;
+        result.error = message;
+      } else {
+        results.push({
+          sku: fieldResult.sku,
+          updated: false,
+          message,
+          error: message,
+        });
+      }
+    } else if (result?.error) {
+      result.message = `${result.message}; ${names} updated`;
+    } else if (result) {
+      // Replaces "No quantity change needed" style messages
+      result.message = result.updated
+        ? `${result.message}; ${names} updated`
+        : `${names} updated`;
+      result.updated = true;
+    } else {
+      results.push({
+        sku: fieldResult.sku,
+        updated: true,
+        message: `${names} updated`,
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,119 @@
+/**
+ * Fuzzy matching for Supplier Updates
+ * Ranks Shopify variants as suggestions for supplier rows that did not match,
+ * by SKU edit distance and product title similarity
+ */
+
+import type {
+  CSVProduct,
+  MatchSuggestion,
+  SkuRule,
+} from "../types/supplier-updates";
+import { normalizeSku } from "./sku-normalization";
+
+export interface SuggestionCandidate {
+  variantId: string;
+  sku: string;
+  title: string;
+}
+
+// Lowest score shown as a suggestion
+const MIN_SUGGESTION_SCORE = 0.5;
+
+/**
+ * Levenshtein distance between two strings
+ * @param a First string
+ * @param b Second string
+ * @returns Number of single-character edits to turn a into b
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two SKUs after normalisation
+ * @param a Supplier SKU
+ * @param b Shopify SKU
+ * @param rules SKU normalisation rules
+ * @returns 0 (nothing in common) to 1 (same)
+ */
+export function skuSimilarity(a: string, b: string, rules: SkuRule[]): number {
+  const left = normalizeSku(a, rules);
+  const right = normalizeSku(b, rules);
+  const length = Math.max(left.length, right.length);
+  if (length === 0) return 0;
+  return 1 - editDistance(left, right) / length;
+}
+
+/**
+ * Words of a title for comparison ("Blue Widget, 10mm" → blue, widget, 10mm)
+ * @param title Title text
+ * @returns Lower-case words
+ */
+export function getTitleWords(title: string): string[] {
+  return title.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Similarity of two titles by shared words (Dice coefficient)
+ * @param a First title
+ * @param b Second title
+ * @returns 0 (no shared words) to 1 (same words)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = new Set(getTitleWords(a));
+  const right = new Set(getTitleWords(b));
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = Array.from(left).filter((word) => right.has(word)).length;
+  return (2 * shared) / (left.size + right.size);
+}
+
+/**
+ * Pick the closest variants for an unmatched supplier row
+ * Each variant scores the better of its SKU similarity and, when the row has
+ * a title, its title similarity
+ * @param row Unmatched supplier row
+ * @param candidates Variants that may be near matches
+ * @param rules SKU normalisation rules
+ * @param limit Most suggestions to return
+ * @returns Suggestions, closest first
+ */
+export function rankSuggestions(
+  row: CSVProduct,
+  candidates: SuggestionCandidate[],
+  rules: SkuRule[],
+  limit: number = 3,
+): MatchSuggestion[] {
+  const title = typeof row.fields?.title === "string" ? row.fields.title : "";
+
+  return candidates
+    .map((candidate): MatchSuggestion => {
+      const skuScore = skuSimilarity(row.sku, candidate.sku, rules);
+      const titleScore = title ? titleSimilarity(title, candidate.title) : 0;
+      return {
+        supplierSku: row.sku,
+        ...candidate,
+        score: Math.max(skuScore, titleScore),
+        reason: titleScore > skuScore ? "title" : "sku",
+      };
+    })
+    .filter((suggestion) => suggestion.score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
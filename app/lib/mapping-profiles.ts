@@ -0,0 +1,153 @@
+/**
+ * Saved mapping profiles for Supplier Updates
+ * Converting between index-based field mappings and header-name profiles,
+ * and picking the profile that fits an uploaded file
+ */
+
+import type {
+  CSVFieldMapping,
+  MappingProfile,
+  MappingProfileColumns,
+  MappingProfileConfig,
+  SupplierFile,
+} from "../types/supplier-updates";
+import { OPTIONAL_FIELDS } from "./field-registry";
+import {
+  createFieldMapping,
+  detectHeaderRow,
+  getCSVHeaders,
+  isFieldMappingComplete,
+} from "./supplier-updates";
+
+// Share of a profile's headers a file must contain to be matched
+const MIN_HEADER_OVERLAP = 0.6;
+
+interface ProfileMatch {
+  profile: MappingProfile;
+  headerRow: number;
+  fields: CSVFieldMapping;
+}
+
+/**
+ * Normalize a header for comparison ("  Item  Code " → "item code")
+ */
+function normalizeHeader(header: string): string {
+  return header.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function findHeader(headers: string[], name: string): number | null {
+  const target = normalizeHeader(name);
+  const index = headers.findIndex(
+    (header) => normalizeHeader(header) === target,
+  );
+  return index === -1 ? null : index;
+}
+
+/**
+ * Build a profile config from a mapped file
+ * @param file Supplier file with a complete field mapping
+ * @returns Config with columns by header name, or null if not fully mapped
+ */
+export function buildMappingProfileConfig(
+  file: SupplierFile,
+): MappingProfileConfig | null {
+  const headers = getCSVHeaders(file.data, file.layout);
+  const { sku, cost, soh } = file.fields;
+  if (sku.value === null || cost.value === null || soh.value === null) {
+    return null;
+  }
+
+  const columns: MappingProfileColumns = {
+    sku: headers[sku.value] ?? "",
+    cost: headers[cost.value] ?? "",
+    soh: soh.value === "none" ? null : (headers[soh.value] ?? ""),
+  };
+  for (const field of OPTIONAL_FIELDS) {
+    const column = file.fields[field.key].value;
+    if (column !== null && headers[column])
+      columns[field.key] = headers[column];
+  }
+
+  return {
+    columns,
+    layout: file.layout,
+    parsing: file.parsing,
+    transforms: file.transforms,
+    filters: file.filters,
+    currency: file.currency,
+    tax: file.tax,
+  };
+}
+
+/**
+ * Map a profile's columns onto a file's headers
+ * Columns the file does not have are left unselected; a missing optional
+ * column does not stop the profile from matching
+ * @param profile Saved profile
+ * @param headers Header row of the file
+ * @returns Field mapping by column index
+ */
+export function applyMappingProfile(
+  profile: MappingProfile,
+  headers: string[],
+): CSVFieldMapping {
+  const { columns } = profile.config;
+  const fields = createFieldMapping();
+
+  fields.sku.value = findHeader(headers, columns.sku);
+  fields.cost.value = findHeader(headers, columns.cost);
+  fields.soh.value =
+    columns.soh === null ? "none" : findHeader(headers, columns.soh);
+  for (const field of OPTIONAL_FIELDS) {
+    const header = columns[field.key];
+    if (header) fields[field.key].value = findHeader(headers, header);
+  }
+
+  return fields;
+}
+
+/**
+ * Find the saved profile that fits an uploaded file
+ * Tries the detected header row and the row each profile was saved with.
+ * Every mapped column must be present and most of the profile's headers must
+ * match; the profile with the closest header overlap wins
+ * @param csvData Parsed rows of the file
+ * @param profiles Saved profiles for the shop
+ * @returns Matching profile with its header row and mapping, or null
+ */
+export function findMatchingProfile(
+  csvData: string[][],
+  profiles: MappingProfile[],
+): ProfileMatch | null {
+  const detectedRow = detectHeaderRow(csvData);
+  let best: ProfileMatch | null = null;
+  let bestScore = 0;
+
+  for (const profile of profiles) {
+    const rows = new Set([detectedRow, profile.config.layout.headerRow]);
+
+    for (const headerRow of rows) {
+      const headers = getCSVHeaders(csvData, { headerRow, footerRows: 0 });
+      const fields = applyMappingProfile(profile, headers);
+      if (!isFieldMappingComplete(fields)) continue;
+
+      const fileHeaders = new Set(headers.map(normalizeHeader));
+      const shared = profile.headers.filter((header) =>
+        fileHeaders.has(normalizeHeader(header)),
+      ).length;
+      if (shared / Math.max(profile.headers.length, 1) < MIN_HEADER_OVERLAP) {
+        continue;
+      }
+
+      // Overlap relative to both header rows, so extra columns count against
+      const score =
+        shared / (profile.headers.length + fileHeaders.size - shared);
+      if (score > bestScore) {
+        best = { profile, headerRow, fields };
+        bestScore = score;
+      }
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,136 @@
+/**
+ * Locale-aware number parsing for Supplier Updates
+ * Handles thousands separators, accounting negatives and currency affixes
+ */
+
+import type {
+  NumberLocale,
+  ParsedNumber,
+  ResolvedNumberLocale,
+} from "../types/supplier-updates";
+
+interface NumberSeparators {
+  decimal: string;
+  group: string[];
+}
+
+const SEPARATORS: Record<ResolvedNumberLocale, NumberSeparators> = {
+  en: { decimal: ".", group: [","] },
+  de: { decimal: ",", group: ["."] },
+  fr: { decimal: ",", group: [" ", "\u00a0", "\u202f"] },
+  ch: { decimal: ".", group: ["'", "’"] },
+};
+
+export const NUMBER_LOCALES: Array<{ value: NumberLocale; label: string }> = [
+  { value: "auto", label: "Auto-detect" },
+  { value: "en", label: "1,234.56 (AU/UK/US)" },
+  { value: "de", label: "1.234,56 (DE/NL/IT)" },
+  { value: "fr", label: "1 234,56 (FR/SE)" },
+  { value: "ch", label: "1'234.56 (CH)" },
+];
+
+/**
+ * Guess the number format used by a column of values
+ * A value with both "." and "," gives it away (the last one is the decimal);
+ * otherwise a comma followed by 1-2 trailing digits means decimal comma
+ * @param values Sample of raw cell values
+ * @returns Resolved locale (defaults to "en")
+ */
+export function detectNumberLocale(values: string[]): ResolvedNumberLocale {
+  let commaDecimal = 0;
+  let dotDecimal = 0;
+
+  for (const raw of values) {
+    const value = raw.trim();
+    const lastComma = value.lastIndexOf(",");
+    const lastDot = value.lastIndexOf(".");
+
+    if (/\d'\d{3}/.test(value)) return "ch";
+
+    if (lastComma >= 0 && lastDot >= 0) {
+      if (lastComma > lastDot) commaDecimal++;
+      else dotDecimal++;
+    } else if (/,\d{1,2}\D*$/.test(value)) {
+      commaDecimal++;
+    } else if (/\.\d{1,2}\D*$/.test(value)) {
+      dotDecimal++;
+    }
+  }
+
+  if (commaDecimal > dotDecimal) {
+    return values.some((value) => /\d[\s\u00a0\u202f]\d{3}/.test(value.trim()))
+      ? "fr"
+      : "de";
+  }
+  return "en";
+}
+
+/**
+ * Parse a number cell from a supplier file
+ * Supports "$1,234.56", "1.234,56 €", "(12.50)", "12.50-", "AUD 12" etc.
+ * @param raw Raw cell value
+ * @param locale Number format of the file
+ * @returns Parsed value, or the reason it could not be parsed
+ */
+export function parseLocaleNumber(
+  raw: string,
+  locale: ResolvedNumberLocale = "en",
+): ParsedNumber {
+  let value = raw.trim();
+  if (value === "") return { ok: false, reason: "Empty value" };
+
+  let negative = false;
+
+  // Accounting negatives: (12.50)
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1).trim();
+  }
+
+  // Currency symbols and codes before or after the number
+  value = value
+    .replace(/^[^\d\-+.,]+/, "")
+    .replace(/[^\d\-+.,]+$/, "")
+    .trim();
+
+  // Leading or trailing sign: -12.50, 12.50- (SAP style)
+  if (/^[-+]/.test(value)) {
+    negative = negative !== value.startsWith("-");
+    value = value.slice(1).trim();
+  } else if (/[-+]$/.test(value)) {
+    negative = negative !== value.endsWith("-");
+    value = value.slice(0, -1).trim();
+  }
+
+  // Currency symbol between the sign and the digits: -$12.50
+  value = value.replace(/^[^\d.,]+/, "");
+
+  const { decimal, group } = SEPARATORS[locale];
+  const parts = value.split(decimal);
+  if (parts.length > 2) {
+    return { ok: false, reason: `Not a number: ${raw.trim()}` };
+  }
+
+  // Thousands separators are only allowed between groups of three digits
+  let [integer] = parts;
+  const fraction = parts[1] ?? "";
+  const groupPattern = group.map((g) => `\\${g}`).join("|");
+  if (new RegExp(groupPattern).test(integer)) {
+    if (!new RegExp(`^\\d{1,3}(?:(?:${groupPattern})\\d{3})+$`).test(integer)) {
+      return { ok: false, reason: `Misplaced separator in ${raw.trim()}` };
+    }
+    integer = integer.replace(new RegExp(groupPattern, "g"), "");
+  }
+
+  if (!/^\d*$/.test(integer) || !/^\d*$/.test(fraction)) {
+    return { ok: false, reason: `Not a number: ${raw.trim()}` };
+  }
+  if (integer === "" && fraction === "") {
+    return { ok: false, reason: `Not a number: ${raw.trim()}` };
+  }
+
+  value = `${integer || "0"}.${fraction || "0"}`;
+
+  const parsed = parseFloat(value);
+  return { ok: true, value: negative ? -parsed : parsed };
+}
@@ -0,0 +1,108 @@
+/**
+ * Price rounding for Supplier Updates
+ * Shop-level rules that round calculated prices (pricing rules, new products)
+ * to an ending such as .95 or .99, or to a step such as whole dollars. Rules
+ * can be tiered by price: each applies from its amount up
+ */
+
+import type {
+  PriceRounding,
+  PriceRoundingRule,
+} from "../types/supplier-updates";
+
+export const PRICE_ROUNDING_TYPES: Array<{
+  value: PriceRounding["type"];
+  label: string;
+}> = [
+  { value: "up", label: "Round up to ending" },
+  { value: "down", label: "Round down to ending" },
+  { value: "nearest", label: "Round to nearest step" },
+];
+
+/**
+ * Check a rule's settings
+ * @param rule Rounding rule
+ * @returns Error message, or null if the rule is valid
+ */
+export function getPriceRoundingError(rule: PriceRoundingRule): string | null {
+  if (!Number.isFinite(rule.from) || rule.from < 0) {
+    return "Enter a price of 0 or more to apply from";
+  }
+  if (rule.type === "nearest") {
+    return Number.isFinite(rule.step) && rule.step > 0
+      ? null
+      : "Enter a step above 0";
+  }
+  return Number.isFinite(rule.ending) && rule.ending >= 0 && rule.ending < 1
+    ? null
+    : "Enter an ending from .00 to .99";
+}
+
+/**
+ * Short description of a rule for lists
+ * @param rule Rounding rule
+ * @returns Description text
+ */
+export function describePriceRounding(rule: PriceRoundingRule): string {
+  const from = `From ${rule.from}`;
+  if (rule.type === "nearest") {
+    return `${from}: round to the nearest ${rule.step}`;
+  }
+  return `${from}: round ${rule.type} to .${rule.ending.toFixed(2).slice(2)}`;
+}
+
+/**
+ * Round a price with one rounding
+ * Endings round to the next (or previous) price with those cents; rounding
+ * down never goes below the ending itself, and a step never rounds to 0
+ * @param price Calculated price
+ * @param rounding Rounding to apply
+ * @returns Rounded price, in cents
+ */
+function applyRounding(price: number, rounding: PriceRounding): number {
+  let rounded: number;
+  if (rounding.type === "nearest") {
+    rounded = Math.max(
+      rounding.step,
+      Math.round(price / rounding.step) * rounding.step,
+    );
+  } else {
+    rounded = Math.floor(price) + rounding.ending;
+    if (rounding.type === "up" && rounded < price - 0.005) rounded += 1;
+    if (rounding.type === "down" && rounded > price + 0.005 && rounded >= 1) {
+      rounded -= 1;
+    }
+  }
+  return Math.round(rounded * 100) / 100;
+}
+
+/**
+ * Round a calculated price
+ * The valid rule with the highest "from" amount at or below the price is
+ * used; prices below every rule are left as they are
+ * @param price Calculated price
+ * @param rules Rounding rules
+ * @returns Rounded price
+ */
+export function roundPrice(price: number, rules: PriceRoundingRule[]): number {
+  const rule = rules
+    .filter((r) => !getPriceRoundingError(r) && r.from <= price)
+    .sort((a, b) => b.from - a.from)[0];
+  return rule ? applyRounding(price, rule) : price;
+}
+
+/**
+ * Read rules from JSON (form data or the database)
+ * @param value JSON array of rules
+ * @returns Rules, or an empty list if the value is not a JSON array
+ */
+export function parsePriceRounding(
+  value: string | null | undefined,
+): PriceRoundingRule[] {
+  try {
+    const rules: unknown = JSON.parse(value || "[]");
+    return Array.isArray(rules) ? (rules as PriceRoundingRule[]) : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Pricing rules applied to lookup results
+ * Suggests a price for each matched product from the shop's pricing rules
+ * (see lib/pricing-rules); collection rules read the collection's products
+ * from Shopify
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type {
+  NormalizedProduct,
+  PriceRoundingRule,
+  PricingRule,
+  PricingTarget,
+} from "../types/supplier-updates";
+import { GET_COLLECTION_PRODUCTS } from "../graphql/supplier-updates";
+import {
+  applyPricingRule,
+  findPricingRule,
+  getPricingRuleError,
+} from "./pricing-rules";
+
+interface CollectionProductsResponse {
+  data?: {
+    collection: {
+      products: {
+        nodes: Array<{ id: string }>;
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      };
+    } | null;
+  };
+}
+
+// Product attributes read during the lookup, by product ID
+export type ProductAttributes = Omit<PricingTarget, "collectionIds" | "cost">;
+
+// Pages of 250 products read from a collection
+const MAX_COLLECTION_PAGES = 40;
+
+/**
+ * Read the products in a collection
+ * @param admin Admin API context
+ * @param collectionId Collection GID
+ * @returns Product GIDs (empty if the collection no longer exists)
+ */
+async function getCollectionProductIds(
+  admin: AdminApiContext,
+  collectionId: string,
+): Promise<Set<string>> {
+  const ids = new Set<string>();
+  let after: string | null = null;
+
+  for (let page = 0; page < MAX_COLLECTION_PAGES; page += 1) {
+    const response = await admin.graphql(GET_COLLECTION_PRODUCTS, {
+      variables: { id: collectionId, after },
+    });
+    const data = (await response.json()) as CollectionProductsResponse;
+    const products = data.data?.collection?.products;
+    if (!products) break;
+
+    for (const node of products.nodes) ids.add(node.id);
+    if (!products.pageInfo.hasNextPage) break;
+    after = products.pageInfo.endCursor;
+  }
+
+  return ids;
+}
+
+/**
+ * Suggest a price for each matched product from the pricing rules
+ * Products whose RRP is selected for update keep the RRP as their new price,
+ * and products without a new cost are left alone. Current prices are not
+ * changed
+ * @param admin Admin API context
+ * @param products Matched products
+ * @param attributes Vendor, product type and tags by product ID
+ * @param rules Pricing rules, in order
+ * @param marginThreshold Threshold for margin status calculation
+ * @param rounding Price rounding rules
+ * @returns Products, with the new price suggested by the first matching rule
+ */
+export async function applyPricingRules(
+  admin: AdminApiContext,
+  products: NormalizedProduct[],
+  attributes: Map<string, ProductAttributes>,
+  rules: PricingRule[],
+  marginThreshold: number,
+  rounding: PriceRoundingRule[] = [],
+): Promise<NormalizedProduct[]> {
+  const validRules = rules.filter((rule) => !getPricingRuleError(rule));
+  if (validRules.length === 0) return products;
+
+  const collections = new Map<string, Set<string>>();
+  for (const rule of validRules) {
+    const { condition } = rule;
+    if (condition.type === "collection" && !collections.has(condition.id)) {
+      collections.set(
+        condition.id,
+        await getCollectionProductIds(admin, condition.id),
+      );
+    }
+  }
+
+  return products.map((product) => {
+    if (typeof product.supplierFields?.rrp === "number") return product;
+    if (!(product.costNew > 0)) return product;
+
+    const target: PricingTarget = {
+      vendor: "",
+      productType: "",
+      tags: [],
+      ...attributes.get(product.id),
+      collectionIds: Array.from(collections)
+        .filter(([, productIds]) => productIds.has(product.id))
+        .map(([collectionId]) => collectionId),
+      cost: product.costNew,
+    };
+    const rule = findPricingRule(validRules, target);
+    return rule
+      ? applyPricingRule(product, rule, marginThreshold, rounding)
+      : product;
+  });
+}
@@ -0,0 +1,229 @@
+/**
+ * Pricing rules for Supplier Updates
+ * Shop-level rules that set a target markup or margin on the new cost for a
+ * vendor, product type, collection, tag or cost band. Rules are checked in
+ * order and the first that matches a product suggests its price
+ */
+
+import type {
+  NormalizedProduct,
+  PriceRoundingRule,
+  PricingRule,
+  PricingRuleCondition,
+  PricingTarget,
+} from "../types/supplier-updates";
+import { calculateMargin, getMarginStatus } from "./supplier-updates";
+import { addTax, removeTax } from "./tax";
+import { roundPrice } from "./price-rounding";
+
+export const PRICING_RULE_TYPES: Array<{
+  value: PricingRuleCondition["type"];
+  label: string;
+}> = [
+  { value: "vendor", label: "Vendor" },
+  { value: "productType", label: "Product type" },
+  { value: "collection", label: "Collection" },
+  { value: "tag", label: "Tag" },
+  { value: "costBand", label: "Cost band" },
+  { value: "all", label: "All products" },
+];
+
+/**
+ * Check a rule's settings
+ * @param rule Pricing rule
+ * @returns Error message, or null if the rule is valid
+ */
+export function getPricingRuleError(rule: PricingRule): string | null {
+  const { condition } = rule;
+  switch (condition.type) {
+    case "vendor":
+    case "productType":
+    case "tag":
+      if (condition.value.trim() === "") {
+        return `Enter the ${condition.type === "productType" ? "product type" : condition.type}`;
+      }
+      break;
+    case "collection":
+      if (!condition.id) return "Choose a collection";
+      break;
+    case "costBand":
+      if (condition.min === null && condition.max === null) {
+        return "Enter a lowest or highest cost";
+      }
+      if (
+        condition.min !== null &&
+        condition.max !== null &&
+        condition.min >= condition.max
+      ) {
+        return "The highest cost must be above the lowest";
+      }
+      break;
+  }
+
+  if (!Number.isFinite(rule.percent) || rule.percent < 0) {
+    return "Enter a percentage of 0 or more";
+  }
+  if (rule.target === "margin" && rule.percent >= 100) {
+    return "A margin must be below 100%";
+  }
+  return null;
+}
+
+/**
+ * Short description of a rule for lists and rows
+ * @param rule Pricing rule
+ * @returns Description text
+ */
+export function describePricingRule(rule: PricingRule): string {
+  const { condition } = rule;
+  const target = `${rule.percent}% ${rule.target}`;
+  switch (condition.type) {
+    case "all":
+      return `All products: ${target}`;
+    case "vendor":
+      return `Vendor "${condition.value}": ${target}`;
+    case "productType":
+      return `Product type "${condition.value}": ${target}`;
+    case "tag":
+      return `Tag "${condition.value}": ${target}`;
+    case "collection":
+      return `Collection "${condition.title}": ${target}`;
+    case "costBand":
+      if (condition.min === null) {
+        return `Cost under ${condition.max}: ${target}`;
+      }
+      if (condition.max === null) {
+        return `Cost ${condition.min} and over: ${target}`;
+      }
+      return `Cost ${condition.min} to under ${condition.max}: ${target}`;
+  }
+}
+
+/**
+ * Whether a rule applies to a product
+ * Vendor, product type and tag compare ignoring case
+ * @param condition Rule condition
+ * @param target Product attributes
+ * @returns Whether the rule matches
+ */
+export function matchesPricingRule(
+  condition: PricingRuleCondition,
+  target: PricingTarget,
+): boolean {
+  switch (condition.type) {
+    case "all":
+      return true;
+    case "vendor":
+      return equalsIgnoreCase(target.vendor, condition.value);
+    case "productType":
+      return equalsIgnoreCase(target.productType, condition.value);
+    case "tag":
+      return target.tags.some((tag) => equalsIgnoreCase(tag, condition.value));
+    case "collection":
+      return target.collectionIds.includes(condition.id);
+    case "costBand":
+      return (
+        (condition.min === null || target.cost >= condition.min) &&
+        (condition.max === null || target.cost < condition.max)
+      );
+  }
+}
+
+function equalsIgnoreCase(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * First valid rule that applies to a product
+ * @param rules Pricing rules, in order
+ * @param target Product attributes
+ * @returns Matching rule, or null
+ */
+export function findPricingRule(
+  rules: PricingRule[],
+  target: PricingTarget,
+): PricingRule | null {
+  return (
+    rules.find(
+      (rule) =>
+        !getPricingRuleError(rule) &&
+        matchesPricingRule(rule.condition, target),
+    ) ?? null
+  );
+}
+
+/**
+ * Price that gives a rule's markup or margin on a cost
+ * Markup is added to cost; a margin is the share of the ex-tax price left
+ * after cost. Tax is added when shop prices include it
+ * @param rule Pricing rule
+ * @param cost Ex-tax cost
+ * @param priceTaxRate Tax rate included in shop prices (0 for none)
+ * @returns Price rounded to cents
+ */
+export function getRulePrice(
+  rule: PricingRule,
+  cost: number,
+  priceTaxRate: number = 0,
+): number {
+  const exTax =
+    rule.target === "markup"
+      ? cost * (1 + rule.percent / 100)
+      : cost / (1 - rule.percent / 100);
+  return Math.round(addTax(exTax, priceTaxRate) * 100) / 100;
+}
+
+/**
+ * Suggest a product's new price from a pricing rule
+ * The rule's price is rounded and becomes the new price, with the margin
+ * worked out again from it; the current price is left as it is. The rule and
+ * the price before rounding are recorded on the product
+ * @param product Matched product
+ * @param rule Rule that applies to it
+ * @param marginThreshold Threshold for margin status calculation
+ * @param rounding Price rounding rules
+ * @returns Product with the suggested price
+ */
+export function applyPricingRule(
+  product: NormalizedProduct,
+  rule: PricingRule,
+  marginThreshold: number,
+  rounding: PriceRoundingRule[] = [],
+): NormalizedProduct {
+  const priceTaxRate = product.priceTaxRate ?? 0;
+  const rawPrice = getRulePrice(rule, product.costNew, priceTaxRate);
+  const price = roundPrice(rawPrice, rounding);
+  const margin = calculateMargin(
+    removeTax(price, priceTaxRate),
+    product.costNew,
+  );
+
+  return {
+    ...product,
+    priceNew: price,
+    margin,
+    marginStatus: getMarginStatus(margin, marginThreshold),
+    suggestedPrice: {
+      ruleId: rule.id,
+      rule: describePricingRule(rule),
+      price,
+      rawPrice,
+    },
+  };
+}
+
+/**
+ * Read rules from JSON (form data or the database)
+ * @param value JSON array of rules
+ * @returns Rules, or an empty list if the value is not a JSON array
+ */
+export function parsePricingRules(
+  value: string | null | undefined,
+): PricingRule[] {
+  try {
+    const rules: unknown = JSON.parse(value || "[]");
+    return Array.isArray(rules) ? (rules as PricingRule[]) : [];
+  } catch {
+    return [];
+  }
+}
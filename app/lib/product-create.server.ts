@@ -0,0 +1,95 @@
+/**
+ * Product creation for Supplier Updates
+ * Creates draft products for supplier rows the store does not have (see
+ * lib/product-drafts), each with one variant carrying the SKU, barcode, price,
+ * cost and stock at the selected location
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { DraftProduct, UpdateResponse } from "../types/supplier-updates";
+import { PRODUCT_SET } from "../graphql/supplier-updates";
+
+interface ProductSetResponse {
+  data?: {
+    productSet: {
+      product: { id: string } | null;
+      userErrors: Array<{ field?: string[]; message: string }>;
+    };
+  };
+}
+
+function toProductSetInput(draft: DraftProduct, locationId: string) {
+  return {
+    title: draft.title,
+    vendor: draft.vendor || undefined,
+    status: "DRAFT",
+    productOptions: [{ name: "Title", values: [{ name: "Default Title" }] }],
+    variants: [
+      {
+        optionValues: [{ optionName: "Title", name: "Default Title" }],
+        price: draft.price.toFixed(2),
+        ...(draft.barcode && { barcode: draft.barcode }),
+        inventoryItem: {
+          sku: draft.sku,
+          cost: draft.cost.toFixed(2),
+          tracked: true,
+        },
+        inventoryQuantities: [
+          { locationId, name: "available", quantity: draft.quantity },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Create a draft product for each supplier row
+ * @param admin Admin API context
+ * @param drafts Products to create
+ * @param locationId Location for the initial stock
+ * @returns Result for each row, with the new product's ID when created
+ */
+export async function createDraftProducts(
+  admin: AdminApiContext,
+  drafts: DraftProduct[],
+  locationId: string,
+): Promise<UpdateResponse[]> {
+  const results: UpdateResponse[] = [];
+
+  for (const draft of drafts) {
+    try {
+      const response = await admin.graphql(PRODUCT_SET, {
+        variables: { input: toProductSetInput(draft, locationId) },
+      });
+      const data = (await response.json()) as ProductSetResponse;
+      const result = data.data?.productSet;
+      const productId = result?.product?.id;
+      const error = result?.userErrors[0]?.message;
+
+      results.push(
+        productId && !error
+          ? {
+              sku: draft.sku,
+              updated: true,
+              message: "Draft product created",
+              productId,
+            }
+          : {
+              sku: draft.sku,
+              updated: false,
+              message: error || "Product not created",
+              error: error || "productSet failed",
+            },
+      );
+    } catch (err) {
+      results.push({
+        sku: draft.sku,
+        updated: false,
+        message: "API error",
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }
+
+  return results;
+}
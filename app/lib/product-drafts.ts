@@ -0,0 +1,87 @@
+/**
+ * Draft products for Supplier Updates
+ * Builds a new Shopify product from a supplier row the store does not have:
+ * title, SKU, barcode, vendor and stock from the mapped columns, and a price
+ * from the RRP, a pricing rule or a markup on cost
+ */
+
+import type {
+  CSVProduct,
+  DraftProduct,
+  PriceRoundingRule,
+  PricingRule,
+} from "../types/supplier-updates";
+import { findPricingRule, getRulePrice } from "./pricing-rules";
+import { roundPrice } from "./price-rounding";
+import { addTax } from "./tax";
+
+export interface DraftPricing {
+  markup: number; // Percentage added to cost when no rule applies
+  priceTaxRate: number; // Tax rate included in shop prices (0 for none)
+  rules: PricingRule[];
+  rounding: PriceRoundingRule[];
+}
+
+/**
+ * Price of a new product
+ * The RRP is used as the shop price when the row has one; otherwise the
+ * first pricing rule that applies to the row's brand and cost, or else the
+ * markup, is added to the ex-tax cost, tax added when prices include it and
+ * the result rounded
+ * @param row Supplier row
+ * @param pricing Markup, price tax, pricing rules and rounding
+ * @returns Price, and the calculated price before rounding
+ */
+export function getDraftPrice(
+  row: CSVProduct,
+  pricing: DraftPricing,
+): { price: number; rawPrice: number } {
+  const rrp = row.fields?.rrp;
+  if (typeof rrp === "number" && rrp > 0) return { price: rrp, rawPrice: rrp };
+
+  const rule = findPricingRule(pricing.rules, {
+    vendor: getDraftVendor(row),
+    productType: "",
+    tags: [],
+    collectionIds: [],
+    cost: row.cost,
+  });
+  const rawPrice = rule
+    ? getRulePrice(rule, row.cost, pricing.priceTaxRate)
+    : Math.round(
+        addTax(row.cost * (1 + pricing.markup / 100), pricing.priceTaxRate) *
+          100,
+      ) / 100;
+  return { price: roundPrice(rawPrice, pricing.rounding), rawPrice };
+}
+
+function getDraftVendor(row: CSVProduct): string {
+  const brand = row.fields?.brand;
+  return typeof brand === "string" && brand.trim()
+    ? brand.trim()
+    : row.supplier || "";
+}
+
+/**
+ * Build the product to create for an unmatched supplier row
+ * Rows without a title use their SKU; the vendor falls back to the supplier
+ * (mapping profile) name
+ * @param row Supplier row
+ * @param pricing Markup, price tax, pricing rules and rounding
+ * @returns Draft product
+ */
+export function buildDraftProduct(
+  row: CSVProduct,
+  pricing: DraftPricing,
+): DraftProduct {
+  const { title, barcode } = row.fields || {};
+  return {
+    sku: row.sku,
+    title: typeof title === "string" && title.trim() ? title.trim() : row.sku,
+    vendor: getDraftVendor(row),
+    barcode: typeof barcode === "string" ? barcode.trim() : "",
+    cost: row.cost,
+    price: getDraftPrice(row, pricing).price,
+    quantity: Math.max(0, Math.round(row.soh ?? 0)),
+  };
+}
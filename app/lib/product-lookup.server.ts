@@ -0,0 +1,613 @@
+/**
+ * Product lookup for Supplier Updates
+ * Finds the Shopify variant for each supplier row: through the supplier's SKU
+ * cross-reference first, then by normalised SKU, then by barcode for rows
+ * whose SKU is not in the store. Variants are searched directly and every
+ * page of results is read; for large files the variants can instead come from
+ * a bulk export (see lib/bulk-lookup.server) and be matched in memory. With
+ * SKU normalisation rules the export is always used, as Shopify search cannot
+ * normalise the store's side
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type {
+  CSVProduct,
+  MatchSuggestion,
+  NormalizedProduct,
+  OptionalFieldKey,
+  PriceRoundingRule,
+  PricingRule,
+  ProductMatch,
+  ShopifyProduct,
+  ShopifyVariant,
+  SkuRule,
+  SkuTestResult,
+  SupplierSkuLink,
+} from "../types/supplier-updates";
+import {
+  GET_SIMILAR_PRODUCTS,
+  GET_VARIANTS_BY_ID,
+  GET_VARIANTS_BY_QUERY,
+  buildBarcodeQuery,
+  buildSimilarQuery,
+  buildSkuQuery,
+} from "../graphql/supplier-updates";
+import {
+  chunkArray,
+  getBarcodeSearchTerms,
+  normalizeBarcode,
+  normalizeShopifyProduct,
+} from "./supplier-updates";
+import { normalizeSku } from "./sku-normalization";
+import { applyPricingRules } from "./pricing-rules.server";
+import type { ProductAttributes } from "./pricing-rules.server";
+import { getTitleWords, rankSuggestions } from "./fuzzy-match";
+
+export type VariantNode = ShopifyVariant & {
+  product: Omit<ShopifyProduct, "variants">;
+};
+
+interface VariantSearchResponse {
+  data?: {
+    productVariants: {
+      nodes: VariantNode[];
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    };
+  };
+}
+
+interface VariantsQueryResponse {
+  data?: {
+    nodes: Array<VariantNode | null>;
+  };
+}
+
+interface SimilarProductsResponse {
+  data?: {
+    products: {
+      nodes: Array<{
+        id: string;
+        title: string;
+        variants: { nodes: Array<{ id: string; sku: string | null }> };
+      }>;
+    };
+  };
+}
+
+export interface VariantSearch {
+  products: ShopifyProduct[]; // One per variant found
+  truncated: boolean; // Stopped at the page limit with more to read
+}
+
+// Where the lookup passes find variants: the Admin API, or an export
+interface VariantSource {
+  searchSkus(terms: string[]): Promise<VariantSearch>;
+  searchBarcodes(barcodes: string[]): Promise<VariantSearch>;
+  getByIds(ids: string[]): Promise<ShopifyProduct[]>;
+}
+
+export interface LookupOptions {
+  locationId: string | null;
+  marginThreshold: number;
+  updateFields: OptionalFieldKey[];
+  priceTaxRate: number;
+  links?: SupplierSkuLink[]; // Cross-references of the suppliers in the files
+  skuRules?: SkuRule[];
+  catalog?: ShopifyProduct[]; // Exported variants to match in memory
+  pricingRules?: PricingRule[]; // Suggest prices for the matched products
+  priceRounding?: PriceRoundingRule[]; // Rounding of suggested prices
+}
+
+export interface LookupResult {
+  products: NormalizedProduct[];
+  notFound: string[];
+  suggestions: MatchSuggestion[]; // Closest variants for rows not found
+  truncatedSearches: number; // Searches that had more results than were read
+}
+
+// Values per search query (query string length limit)
+const QUERY_BATCH_SIZE = 50;
+// IDs per nodes query
+const NODES_BATCH_SIZE = 100;
+// Pages of 100 variants read per search before giving up
+const MAX_VARIANT_PAGES = 20;
+// Unmatched rows that get suggestions, and rows per suggestion query
+const MAX_SUGGESTION_ROWS = 200;
+const SUGGESTION_BATCH_SIZE = 10;
+
+/**
+ * Wrap a variant in its product, the shape normalizeShopifyProduct reads
+ */
+export function toShopifyProduct({
+  product,
+  ...variant
+}: VariantNode): ShopifyProduct {
+  return { ...product, variants: { nodes: [variant] } };
+}
+
+/**
+ * Search variants, reading every page of results
+ * A search over a common value can return far more variants than expected,
+ * so paging stops after maxPages and the search is marked truncated
+ * @param admin Admin API context
+ * @param query Variant search query
+ * @param locationId Location for the stock levels
+ * @param maxPages Pages of 100 variants to read at most
+ * @returns Each variant found wrapped in its product, and whether the search
+ * was cut off
+ */
+export async function searchVariants(
+  admin: AdminApiContext,
+  query: string,
+  locationId: string | null,
+  maxPages: number = MAX_VARIANT_PAGES,
+): Promise<VariantSearch> {
+  const products: ShopifyProduct[] = [];
+  let after: string | null = null;
+
+  for (let page = 0; page < maxPages; page++) {
+    const response = await admin.graphql(GET_VARIANTS_BY_QUERY, {
+      variables: { query, locationId: locationId || "", after },
+    });
+    const data = (await response.json()) as VariantSearchResponse;
+    const connection = data.data?.productVariants;
+    if (!connection) break;
+
+    products.push(...connection.nodes.map(toShopifyProduct));
+    if (!connection.pageInfo.hasNextPage) {
+      return { products, truncated: false };
+    }
+    after = connection.pageInfo.endCursor;
+  }
+
+  return { products, truncated: after !== null };
+}
+
+/**
+ * Fetch variants by ID, each wrapped in its product
+ * Deleted variants are left out
+ */
+async function fetchVariants(
+  admin: AdminApiContext,
+  ids: string[],
+  locationId: string | null,
+): Promise<ShopifyProduct[]> {
+  const response = await admin.graphql(GET_VARIANTS_BY_ID, {
+    variables: { ids, locationId: locationId || "" },
+  });
+  const data = (await response.json()) as VariantsQueryResponse;
+  return (data.data?.nodes || []).flatMap((node) =>
+    node?.product ? [toShopifyProduct(node)] : [],
+  );
+}
+
+/**
+ * Search the store through the Admin API, one query per batch of values
+ * Shopify search matches whole SKUs, so without an export a SKU is only found
+ * through its exact or normalised form
+ */
+function createApiSource(
+  admin: AdminApiContext,
+  locationId: string | null,
+): VariantSource {
+  const search = (query: string): Promise<VariantSearch> =>
+    query
+      ? searchVariants(admin, query, locationId)
+      : Promise.resolve({ products: [], truncated: false });
+
+  return {
+    searchSkus: (terms) => search(buildSkuQuery(terms)),
+    searchBarcodes: (barcodes) => search(buildBarcodeQuery(barcodes)),
+    getByIds: (ids) => fetchVariants(admin, ids, locationId),
+  };
+}
+
+/**
+ * Search exported variants in memory, indexed by ID, normalised SKU and
+ * normalised barcode
+ */
+function createCatalogSource(
+  catalog: ShopifyProduct[],
+  rules: SkuRule[],
+): VariantSource {
+  const byId = new Map<string, ShopifyProduct>();
+  const bySku = new Map<string, ShopifyProduct[]>();
+  const byBarcode = new Map<string, ShopifyProduct[]>();
+
+  const add = (
+    index: Map<string, ShopifyProduct[]>,
+    key: string,
+    product: ShopifyProduct,
+  ) => {
+    if (!key) return;
+    const products = index.get(key);
+    if (products) products.push(product);
+    else index.set(key, [product]);
+  };
+
+  for (const product of catalog) {
+    const variant = product.variants.nodes[0];
+    if (!variant) continue;
+    byId.set(variant.id, product);
+    add(bySku, normalizeSku(variant.sku || "", rules), product);
+    add(byBarcode, normalizeBarcode(variant.barcode || ""), product);
+  }
+
+  const find = (
+    index: Map<string, ShopifyProduct[]>,
+    keys: string[],
+  ): Promise<VariantSearch> =>
+    Promise.resolve({
+      products: Array.from(
+        new Set(keys.flatMap((key) => index.get(key) || [])),
+      ),
+      truncated: false,
+    });
+
+  return {
+    searchSkus: (terms) =>
+      find(
+        bySku,
+        terms.map((term) => normalizeSku(term, rules)),
+      ),
+    searchBarcodes: (barcodes) =>
+      find(byBarcode, barcodes.map(normalizeBarcode)),
+    getByIds: (ids) =>
+      Promise.resolve(
+        ids.flatMap((id) => {
+          const product = byId.get(id);
+          return product ? [product] : [];
+        }),
+      ),
+  };
+}
+
+function getLinkKey(profileId: string, sku: string): string {
+  return `${profileId}\n${sku.trim().toLowerCase()}`;
+}
+
+/**
+ * Values to search the store for: each SKU and its normalised form
+ */
+function getSkuSearchTerms(skus: string[], rules: SkuRule[]): string[] {
+  const terms = new Map<string, string>();
+  for (const sku of skus) {
+    for (const term of [sku, normalizeSku(sku, rules)]) {
+      const key = term.trim().toLowerCase();
+      if (key && !terms.has(key)) terms.set(key, term);
+    }
+  }
+  return Array.from(terms.values());
+}
+
+function getBarcode(product: CSVProduct): string {
+  const barcode = product.fields?.barcode;
+  return typeof barcode === "string" ? normalizeBarcode(barcode) : "";
+}
+
+/**
+ * Look up supplier rows in Shopify
+ * Rows whose supplier SKU is linked to a variant use that variant; the rest
+ * are matched on SKU, normalised on both sides. Rows with a barcode whose
+ * SKU was not found get a last pass by barcode. Matches not made by SKU are
+ * marked with matchedBy. A variant is only matched to one row; a SKU shared by
+ * several variants matches them all, flagged with duplicateSku. Every page of
+ * each search is read, up to a limit; searches cut off at the limit are
+ * counted so the caller can warn that matches may be missing
+ * @param admin Admin API context
+ * @param csvProducts Products read from the supplier files
+ * @param options Location, margin threshold, fields to update, price tax, SKU
+ * cross-references, SKU normalisation rules, pricing and rounding rules and,
+ * for large files or with SKU rules, the exported variants to match in
+ * memory instead of searching
+ * @returns Matched products (with pricing rule suggestions), the SKUs of rows
+ * that were not found and the number of searches cut off
+ */
+export async function lookupProducts(
+  admin: AdminApiContext,
+  csvProducts: CSVProduct[],
+  options: LookupOptions,
+): Promise<LookupResult> {
+  const products: NormalizedProduct[] = [];
+  const foundSkus = new Set<string>();
+  const matchedVariants = new Set<string>();
+  const attributes = new Map<string, ProductAttributes>();
+  let truncatedSearches = 0;
+
+  const skuRules = options.skuRules || [];
+  const source = options.catalog
+    ? createCatalogSource(options.catalog, skuRules)
+    : createApiSource(admin, options.locationId);
+
+  const addMatch = (
+    shopifyProduct: ShopifyProduct,
+    csvProduct: CSVProduct,
+    match: ProductMatch,
+  ): NormalizedProduct | null => {
+    const normalized = normalizeShopifyProduct(
+      shopifyProduct,
+      csvProduct,
+      options.marginThreshold,
+      options.locationId,
+      options.updateFields,
+      options.priceTaxRate,
+      match,
+    );
+    if (!normalized || matchedVariants.has(normalized.variantId)) return null;
+    products.push(normalized);
+    matchedVariants.add(normalized.variantId);
+    foundSkus.add(csvProduct.sku.toLowerCase());
+    attributes.set(shopifyProduct.id, {
+      vendor: shopifyProduct.vendor || "",
+      productType: shopifyProduct.productType || "",
+      tags: shopifyProduct.tags || [],
+    });
+    return normalized;
+  };
+
+  // First pass: the supplier's SKU cross-reference
+  const links = new Map(
+    (options.links || []).map((link) => [
+      getLinkKey(link.profileId, link.supplierSku),
+      link.variantId,
+    ]),
+  );
+  const linkedProducts = csvProducts.flatMap((p) => {
+    const variantId = p.profileId && links.get(getLinkKey(p.profileId, p.sku));
+    return variantId ? [{ csvProduct: p, variantId }] : [];
+  });
+
+  for (const batch of chunkArray(linkedProducts, NODES_BATCH_SIZE)) {
+    const variants = await source.getByIds(
+      Array.from(new Set(batch.map((item) => item.variantId))),
+    );
+    for (const { csvProduct, variantId } of batch) {
+      const shopifyProduct = variants.find(
+        (product) => product.variants.nodes[0].id === variantId,
+      );
+      if (shopifyProduct) {
+        addMatch(shopifyProduct, csvProduct, {
+          by: "crossReference",
+          variantId,
+        });
+      }
+    }
+  }
+
+  // Second pass: SKU, normalised on both sides. Rows whose SKUs normalise
+  // the same are looked up together
+  const bySku = new Map<string, CSVProduct[]>();
+  for (const p of csvProducts) {
+    const key = normalizeSku(p.sku, skuRules);
+    if (!key || foundSkus.has(p.sku.toLowerCase())) continue;
+    const rows = bySku.get(key);
+    if (rows) rows.push(p);
+    else bySku.set(key, [p]);
+  }
+
+  // Every variant each normalised SKU matches, so shared SKUs can be flagged
+  const skuMatches = new Map<string, ShopifyProduct[]>();
+
+  for (const termBatch of chunkArray(
+    getSkuSearchTerms(
+      Array.from(bySku.values()).flatMap((rows) => rows.map((p) => p.sku)),
+      skuRules,
+    ),
+    QUERY_BATCH_SIZE,
+  )) {
+    const search = await source.searchSkus(termBatch);
+    if (search.truncated) truncatedSearches++;
+
+    for (const shopifyProduct of search.products) {
+      for (const variant of shopifyProduct.variants.nodes) {
+        const key = normalizeSku(variant.sku || "", skuRules);
+        if (!bySku.has(key) || matchedVariants.has(variant.id)) continue;
+        const matches = skuMatches.get(key) || [];
+        if (
+          !matches.some((match) => match.variants.nodes[0].id === variant.id)
+        ) {
+          skuMatches.set(key, [...matches, shopifyProduct]);
+        }
+      }
+    }
+  }
+
+  // A SKU shared by several variants matches them all, but none is updated
+  // until one of them (or all) is chosen. A variant takes the first of the
+  // rows that match it; the other rows count as found, not missing
+  for (const [key, matches] of skuMatches) {
+    const [csvProduct, ...others] = bySku.get(key) || [];
+    if (!csvProduct) continue;
+    const variantIds = matches.map((match) => match.variants.nodes[0].id);
+    for (const shopifyProduct of matches) {
+      const normalized = addMatch(shopifyProduct, csvProduct, {
+        by: "sku",
+        variantId: shopifyProduct.variants.nodes[0].id,
+      });
+      if (normalized && variantIds.length > 1) {
+        normalized.duplicateSku = { variantIds, choice: "pending" };
+        normalized.update = false;
+      }
+    }
+    if (foundSkus.has(csvProduct.sku.toLowerCase())) {
+      for (const p of others) foundSkus.add(p.sku.toLowerCase());
+    }
+  }
+
+  // Last pass: barcode, for rows whose SKU was not found; each barcode is
+  // searched in its UPC-A and EAN-13 forms too
+  const barcodeProducts = csvProducts.filter(
+    (p) => !foundSkus.has(p.sku.toLowerCase()) && getBarcode(p) !== "",
+  );
+  const barcodeTerms = Array.from(
+    new Set(
+      barcodeProducts.flatMap((p) =>
+        getBarcodeSearchTerms(p.fields?.barcode as string),
+      ),
+    ),
+  );
+
+  for (const termBatch of chunkArray(barcodeTerms, QUERY_BATCH_SIZE)) {
+    const search = await source.searchBarcodes(termBatch);
+    if (search.truncated) truncatedSearches++;
+
+    for (const shopifyProduct of search.products) {
+      for (const variant of shopifyProduct.variants.nodes) {
+        if (!variant.barcode || matchedVariants.has(variant.id)) continue;
+        const barcode = normalizeBarcode(variant.barcode);
+        const csvProduct = barcodeProducts.find(
+          (p) =>
+            !foundSkus.has(p.sku.toLowerCase()) && getBarcode(p) === barcode,
+        );
+        if (csvProduct) {
+          addMatch(shopifyProduct, csvProduct, {
+            by: "barcode",
+            variantId: variant.id,
+          });
+        }
+      }
+    }
+  }
+
+  const unmatched = csvProducts.filter(
+    (p) => !foundSkus.has(p.sku.toLowerCase()),
+  );
+
+  return {
+    products: await applyPricingRules(
+      admin,
+      products,
+      attributes,
+      options.pricingRules || [],
+      options.marginThreshold,
+      options.priceRounding,
+    ),
+    notFound: unmatched.map((p) => p.sku),
+    suggestions: await suggestMatches(
+      admin,
+      unmatched,
+      skuRules,
+      matchedVariants,
+    ),
+    truncatedSearches,
+  };
+}
+
+/**
+ * Find the closest unmatched variants for rows that were not found
+ * The store is searched by the start of each SKU and the words of each
+ * title (when mapped), and the results ranked per row
+ */
+async function suggestMatches(
+  admin: AdminApiContext,
+  rows: CSVProduct[],
+  skuRules: SkuRule[],
+  matchedVariants: Set<string>,
+): Promise<MatchSuggestion[]> {
+  const suggestions: MatchSuggestion[] = [];
+
+  for (const batch of chunkArray(
+    rows.slice(0, MAX_SUGGESTION_ROWS),
+    SUGGESTION_BATCH_SIZE,
+  )) {
+    const query = buildSimilarQuery(
+      batch.map((row) => {
+        const sku = row.sku.trim();
+        return sku.slice(0, Math.max(3, sku.length - 3));
+      }),
+      batch.map((row) =>
+        typeof row.fields?.title === "string"
+          ? getTitleWords(row.fields.title)
+              .filter((word) => word.length >= 3)
+              .sort((a, b) => b.length - a.length)
+              .slice(0, 3)
+          : [],
+      ),
+    );
+    if (!query) continue;
+
+    const response = await admin.graphql(GET_SIMILAR_PRODUCTS, {
+      variables: { query },
+    });
+    const data = (await response.json()) as SimilarProductsResponse;
+    const candidates = (data.data?.products.nodes || []).flatMap((product) =>
+      product.variants.nodes
+        .filter((variant) => !matchedVariants.has(variant.id))
+        .map((variant) => ({
+          variantId: variant.id,
+          sku: variant.sku || "",
+          title: product.title,
+        })),
+    );
+    for (const row of batch) {
+      suggestions.push(...rankSuggestions(row, candidates, skuRules));
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * Normalize one supplier row against the variant it has just been linked to
+ * (or matched to by hand for this import)
+ * @param admin Admin API context
+ * @param csvProduct Supplier row
+ * @param variantId Linked ProductVariant GID
+ * @param options Location, margin threshold, fields to update and price tax
+ * @param by "crossReference" for a saved link, "manual" for this import only
+ * @returns Matched product, or null if the variant does not exist
+ */
+export async function lookupLinkedVariant(
+  admin: AdminApiContext,
+  csvProduct: CSVProduct,
+  variantId: string,
+  options: LookupOptions,
+  by: "crossReference" | "manual" = "crossReference",
+): Promise<NormalizedProduct | null> {
+  const [shopifyProduct] = await fetchVariants(
+    admin,
+    [variantId],
+    options.locationId,
+  );
+  if (!shopifyProduct) return null;
+  return normalizeShopifyProduct(
+    shopifyProduct,
+    csvProduct,
+    options.marginThreshold,
+    options.locationId,
+    options.updateFields,
+    options.priceTaxRate,
+    { by, variantId },
+  );
+}
+
+/**
+ * Search the store for the variants a supplier SKU would match
+ * Only the SKU and its normalised form are searched, so store SKUs that match
+ * after normalising both sides are only found by a lookup's export
+ * @param admin Admin API context
+ * @param sku Supplier SKU
+ * @param rules SKU normalisation rules
+ * @param locationId Location for the stock levels in the query
+ * @returns The SKU with the SKU and product title of each matching variant
+ */
+export async function findSkuMatches(
+  admin: AdminApiContext,
+  sku: string,
+  rules: SkuRule[],
+  locationId: string | null,
+): Promise<SkuTestResult> {
+  const key = normalizeSku(sku, rules);
+  const query = buildSkuQuery(getSkuSearchTerms([sku], rules));
+  if (!key || !query) return { sku, matches: [] };
+
+  const { products } = await searchVariants(admin, query, locationId);
+  return {
+    sku,
+    matches: products.flatMap((product) =>
+      product.variants.nodes
+        .filter((variant) => normalizeSku(variant.sku || "", rules) === key)
+        .map((variant) => ({ sku: variant.sku, title: product.title })),
+    ),
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Reconcile for Supplier Updates
+ * Finds the store's variants in a vendor, collection or tag whose SKU is not
+ * in the supplier files (lines the supplier has dropped), and zeroes their
+ * stock, sets their products to draft or tags them
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type {
+  ReconcileAction,
+  ReconcilePreview,
+  ReconcileScope,
+  ReconcileVariant,
+  ShopifyProduct,
+  SkuRule,
+  UpdateResponse,
+} from "../types/supplier-updates";
+import {
+  INVENTORY_SET_QUANTITIES,
+  PRODUCT_UPDATE,
+  TAGS_ADD,
+  buildScopeQuery,
+} from "../graphql/supplier-updates";
+import { searchVariants } from "./product-lookup.server";
+import { chunkArray } from "./supplier-updates";
+import { normalizeSku } from "./sku-normalization";
+
+interface UserErrorsResponse {
+  data?: Record<
+    string,
+    { userErrors: Array<{ field?: string[]; message: string }> } | undefined
+  >;
+}
+
+// Pages of 100 variants read from a scope before giving up
+const MAX_SCOPE_PAGES = 100;
+
+async function getUserError(
+  response: Response,
+  mutation: string,
+): Promise<string | null> {
+  const data = (await response.json()) as UserErrorsResponse;
+  const result = data.data?.[mutation];
+  if (!result) return `${mutation} failed`;
+  return result.userErrors[0]?.message ?? null;
+}
+
+function toReconcileVariant(
+  shopifyProduct: ShopifyProduct,
+  locationId: string,
+): ReconcileVariant {
+  const variant = shopifyProduct.variants.nodes[0];
+  const level = variant.inventoryItem.inventoryLevel;
+  const available =
+    level?.location?.id === locationId
+      ? level.quantities?.find((qty) => qty.name === "available")?.quantity
+      : undefined;
+
+  return {
+    variantId: variant.id,
+    productId: shopifyProduct.id,
+    inventoryItemId: variant.inventoryItem.id,
+    sku: variant.sku,
+    name: shopifyProduct.title,
+    image: shopifyProduct.featuredMedia?.preview?.image?.url || "",
+    quantity: available ?? null,
+    productInFile: false,
+  };
+}
+
+/**
+ * Find the variants in a scope that the supplier files do not mention
+ * A variant is in the files when its normalised SKU matches a supplier SKU or
+ * the lookup matched it another way (cross-reference, barcode). Variants
+ * without a SKU are left out
+ * @param admin Admin API context
+ * @param scope Vendor, collection or tag to reconcile
+ * @param skus Supplier SKUs in the files
+ * @param matchedVariantIds Variants the lookup matched
+ * @param skuRules SKU normalisation rules
+ * @param locationId Location whose stock would be zeroed
+ * @returns Missing variants, and whether the scope was cut off
+ */
+export async function findMissingVariants(
+  admin: AdminApiContext,
+  scope: ReconcileScope,
+  skus: string[],
+  matchedVariantIds: string[],
+  skuRules: SkuRule[],
+  locationId: string,
+): Promise<ReconcilePreview> {
+  const query = buildScopeQuery(scope);
+  if (!query) return { variants: [], truncated: false };
+
+  const { products, truncated } = await searchVariants(
+    admin,
+    query,
+    locationId,
+    MAX_SCOPE_PAGES,
+  );
+
+  const fileSkus = new Set(skus.map((sku) => normalizeSku(sku, skuRules)));
+  const matched = new Set(matchedVariantIds);
+  const productsInFile = new Set<string>();
+  const missing: ShopifyProduct[] = [];
+
+  for (const shopifyProduct of products) {
+    const variant = shopifyProduct.variants.nodes[0];
+    const key = normalizeSku(variant.sku || "", skuRules);
+    if (!key) continue;
+    if (matched.has(variant.id) || fileSkus.has(key)) {
+      productsInFile.add(shopifyProduct.id);
+    } else {
+      missing.push(shopifyProduct);
+    }
+  }
+
+  return {
+    variants: missing.map((shopifyProduct) => ({
+      ...toReconcileVariant(shopifyProduct, locationId),
+      productInFile: productsInFile.has(shopifyProduct.id),
+    })),
+    truncated,
+  };
+}
+
+/**
+ * Zero the stock of variants, set their products to draft, or tag their
+ * products
+ * Products that still have a variant in the files are not drafted, as that
+ * would hide the variants still supplied. Stock is only zeroed where it is
+ * still the quantity the preview read
+ * @param admin Admin API context
+ * @param variants Variants to reconcile
+ * @param action What to do with them
+ * @param locationId Location whose stock is zeroed
+ * @param tag Tag to add (tag action)
+ * @returns Result for each variant
+ */
+export async function applyReconcileAction(
+  admin: AdminApiContext,
+  variants: ReconcileVariant[],
+  action: ReconcileAction,
+  locationId: string,
+  tag: string,
+): Promise<UpdateResponse[]> {
+  const results = new Map<string, UpdateResponse>();
+  const setResult = (
+    items: ReconcileVariant[],
+    error: string | null,
+    message: string,
+  ) => {
+    for (const item of items) {
+      results.set(item.variantId, {
+        sku: item.sku,
+        updated: !error,
+        message: error || message,
+        ...(error && { error }),
+      });
+    }
+  };
+
+  if (action === "zeroStock") {
+    const skipped = variants.filter((v) => !v.quantity);
+    for (const item of skipped) {
+      results.set(item.variantId, {
+        sku: item.sku,
+        updated: false,
+        message:
+          item.quantity === null
+            ? "Not stocked at this location"
+            : "No stock to clear",
+      });
+    }
+
+    for (const batch of chunkArray(
+      variants.filter((v) => !!v.quantity),
+      100,
+    )) {
+      try {
+        // Set to 0 rather than adjusted, and only where stock is still what
+        // the preview read; Shopify rejects the batch if it has changed
+        const response = await admin.graphql(INVENTORY_SET_QUANTITIES, {
+          variables: {
+            input: {
+              reason: "correction",
+              name: "available",
+              quantities: batch.map((v) => ({
+                inventoryItemId: v.inventoryItemId,
+                locationId,
+                quantity: 0,
+                compareQuantity: v.quantity,
+              })),
+            },
+          },
+        });
+        const error = await getUserError(response, "inventorySetQuantities");
+        setResult(batch, error, "Stock set to 0");
+      } catch (err) {
+        setResult(
+          batch,
+          err instanceof Error ? err.message : "Unknown error",
+          "",
+        );
+      }
+    }
+  } else {
+    const byProduct = new Map<string, ReconcileVariant[]>();
+    for (const variant of variants) {
+      byProduct.set(variant.productId, [
+        ...(byProduct.get(variant.productId) || []),
+        variant,
+      ]);
+    }
+
+    for (const [productId, items] of byProduct) {
+      if (action === "draft" && items.some((item) => item.productInFile)) {
+        for (const item of items) {
+          results.set(item.variantId, {
+            sku: item.sku,
+            updated: false,
+            message: "Product has variants still in the supplier file",
+          });
+        }
+        continue;
+      }
+
+      try {
+        if (action === "draft") {
+          const response = await admin.graphql(PRODUCT_UPDATE, {
+            variables: { product: { id: productId, status: "DRAFT" } },
+          });
+          const error = await getUserError(response, "productUpdate");
+          setResult(items, error, "Product set to draft");
+        } else {
+          const response = await admin.graphql(TAGS_ADD, {
+            variables: { id: productId, tags: [tag] },
+          });
+          const error = await getUserError(response, "tagsAdd");
+          setResult(items, error, `Tagged "${tag}"`);
+        }
+      } catch (err) {
+        setResult(
+          items,
+          err instanceof Error ? err.message : "Unknown error",
+          "",
+        );
+      }
+    }
+  }
+
+  return variants.flatMap((v) => {
+    const result = results.get(v.variantId);
+    return result ? [result] : [];
+  });
+}
@@ -0,0 +1,158 @@
+/**
+ * Row filters for Supplier Updates
+ * Include/exclude rules on any column, applied to the raw cells before rows
+ * are read, so ranges the shop does not stock never reach the product lookup
+ */
+
+import type {
+  ResolvedNumberLocale,
+  RowFilter,
+  RowFilterOperator,
+  RowFilterSummary,
+} from "../types/supplier-updates";
+import { parseLocaleNumber } from "./number-format";
+
+export const ROW_FILTER_OPERATORS: Array<{
+  value: RowFilterOperator;
+  label: string;
+}> = [
+  { value: "equals", label: "equals" },
+  { value: "contains", label: "contains" },
+  { value: "regex", label: "matches regex" },
+  { value: "range", label: "is a number between" },
+];
+
+function normalizeHeader(header: string): string {
+  return header.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function findColumn(headers: string[], name: string): number {
+  const target = normalizeHeader(name);
+  return headers.findIndex((header) => normalizeHeader(header) === target);
+}
+
+/**
+ * Build a test for one filter's condition (ignoring include/exclude)
+ * Text comparisons ignore case and surrounding spaces; an invalid regex
+ * matches nothing
+ */
+function createCondition(
+  filter: RowFilter,
+  locale: ResolvedNumberLocale,
+): (cell: string) => boolean {
+  const value = filter.value.trim().toLowerCase();
+
+  switch (filter.operator) {
+    case "equals":
+      return (cell) => cell.trim().toLowerCase() === value;
+    case "contains":
+      return (cell) => cell.toLowerCase().includes(value);
+    case "regex": {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(filter.value, "i");
+      } catch {
+        return () => false;
+      }
+      return (cell) => regex.test(cell);
+    }
+    case "range":
+      return (cell) => {
+        const parsed = parseLocaleNumber(cell, locale);
+        if (!parsed.ok) return false;
+        if (filter.min !== null && parsed.value < filter.min) return false;
+        if (filter.max !== null && parsed.value > filter.max) return false;
+        return true;
+      };
+  }
+}
+
+/**
+ * Compile filters against a file's headers
+ * Include filters on the same column are alternatives: a row is kept when
+ * any of them matches ("Brand equals A" or "Brand equals B"), and must pass
+ * the includes on each column. A row matching any exclude is removed. Filters
+ * on a column the file does not have are skipped
+ * @param filters Filter rules, in order
+ * @param headers Header row of the file
+ * @param locale Number format of the file (for ranges)
+ * @returns Function giving the index of the first filter that removes a row
+ * (the first include on its column when none of them match), or -1 if the row
+ * is kept
+ */
+export function compileRowFilters(
+  filters: RowFilter[],
+  headers: string[],
+  locale: ResolvedNumberLocale,
+): (row: string[]) => number {
+  const compiled = filters.map((filter) => ({
+    include: filter.mode === "include",
+    column: findColumn(headers, filter.column),
+    test: createCondition(filter, locale),
+  }));
+
+  const includesByColumn = compiled.map((filter) =>
+    compiled.filter((other) => other.include && other.column === filter.column),
+  );
+
+  return (row) =>
+    compiled.findIndex((filter, index) => {
+      if (filter.column === -1) return false;
+      const cell = row[filter.column] || "";
+      if (!filter.include) return filter.test(cell);
+
+      const includes = includesByColumn[index];
+      return includes[0] === filter && !includes.some(({ test }) => test(cell));
+    });
+}
+
+/**
+ * Count the rows each filter removes
+ * @param rows Data rows of the file
+ * @param headers Header row of the file
+ * @param filters Filter rules, in order
+ * @param locale Number format of the file
+ * @returns Kept and removed row counts, and filter columns that are missing
+ */
+export function summarizeRowFilters(
+  rows: string[][],
+  headers: string[],
+  filters: RowFilter[],
+  locale: ResolvedNumberLocale,
+): RowFilterSummary {
+  const removed = filters.map(() => 0);
+  const findRemovingFilter = compileRowFilters(filters, headers, locale);
+
+  for (const row of rows) {
+    const index = findRemovingFilter(row);
+    if (index !== -1) removed[index]++;
+  }
+
+  return {
+    totalRows: rows.length,
+    keptRows: rows.length - removed.reduce((sum, count) => sum + count, 0),
+    removed,
+    missingColumns: filters
+      .map((filter) => filter.column)
+      .filter((column) => findColumn(headers, column) === -1),
+  };
+}
+
+/**
+ * Short description of a filter for lists
+ * @param filter Filter rule
+ * @returns Description text
+ */
+export function describeRowFilter(filter: RowFilter): string {
+  const action =
+    filter.mode === "include" ? "Keep rows where" : "Drop rows where";
+  if (filter.operator === "range") {
+    const min = filter.min ?? "any";
+    const max = filter.max ?? "any";
+    return `${action} ${filter.column} is between ${min} and ${max}`;
+  }
+  const operator = ROW_FILTER_OPERATORS.find(
+    (option) => option.value === filter.operator,
+  )?.label;
+  return `${action} ${filter.column} ${operator} "${filter.value}"`;
+}
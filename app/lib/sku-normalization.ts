@@ -0,0 +1,163 @@
+/**
+ * SKU normalisation for Supplier Updates
+ * Shop-level rules applied to supplier and Shopify SKUs alike before they are
+ * compared, so "ABC-01234" can match "1234" or "AB 12" can match "AB-12"
+ */
+
+import type { SkuRule } from "../types/supplier-updates";
+
+export const SKU_RULE_TYPES: Array<{ value: SkuRule["type"]; label: string }> =
+  [
+    { value: "stripChars", label: "Strip characters" },
+    { value: "stripLeadingZeros", label: "Strip leading zeros" },
+    { value: "prefix", label: "Add or remove prefix" },
+    { value: "suffix", label: "Add or remove suffix" },
+    { value: "regex", label: "Regex capture" },
+  ];
+
+// Compiled capture patterns, reused across SKUs
+const patternCache = new Map<string, RegExp>();
+
+function getPattern(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern, "i");
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Create a rule with default settings
+ * @param type Rule type
+ * @returns New rule
+ */
+export function createSkuRule(type: SkuRule["type"]): SkuRule {
+  switch (type) {
+    case "stripChars":
+      return { type, chars: " -" };
+    case "stripLeadingZeros":
+      return { type };
+    case "prefix":
+    case "suffix":
+      return { type, mode: "remove", value: "" };
+    case "regex":
+      return { type, pattern: "" };
+  }
+}
+
+/**
+ * Check a rule's settings
+ * @param rule Normalisation rule
+ * @returns Error message, or null if the rule is valid
+ */
+export function getSkuRuleError(rule: SkuRule): string | null {
+  switch (rule.type) {
+    case "stripChars":
+      return rule.chars === "" ? "Enter the characters to strip" : null;
+    case "prefix":
+    case "suffix":
+      return rule.value.trim() === "" ? `Enter the ${rule.type}` : null;
+    case "regex":
+      if (rule.pattern === "") return "Enter a pattern";
+      try {
+        getPattern(rule.pattern);
+        return null;
+      } catch (err) {
+        return err instanceof Error ? err.message : "Invalid pattern";
+      }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Short description of a rule for lists
+ * @param rule Normalisation rule
+ * @returns Description text
+ */
+export function describeSkuRule(rule: SkuRule): string {
+  switch (rule.type) {
+    case "stripChars":
+      return `Strip "${rule.chars}"`;
+    case "stripLeadingZeros":
+      return "Strip leading zeros";
+    case "prefix":
+    case "suffix":
+      return rule.mode === "add"
+        ? `Add ${rule.type} "${rule.value}" when missing`
+        : `Remove ${rule.type} "${rule.value}"`;
+    case "regex":
+      return `Keep what /${rule.pattern}/ captures`;
+  }
+}
+
+/**
+ * Normalise a SKU for comparison
+ * The SKU is trimmed and lower-cased, then each rule is applied in order.
+ * Prefixes and suffixes are only added when missing, so "1234" and
+ * "ABC-1234" end up the same either way; a regex keeps its first capture
+ * group (or the whole match) and leaves SKUs it does not match alone
+ * @param sku Supplier or Shopify SKU
+ * @param rules Normalisation rules, in order
+ * @returns Comparable SKU
+ */
+export function normalizeSku(sku: string, rules: SkuRule[] = []): string {
+  let value = sku.trim().toLowerCase();
+
+  for (const rule of rules) {
+    if (getSkuRuleError(rule)) continue;
+
+    switch (rule.type) {
+      case "stripChars": {
+        const chars = new Set(rule.chars.toLowerCase());
+        value = Array.from(value)
+          .filter((char) => !chars.has(char))
+          .join("");
+        break;
+      }
+      case "stripLeadingZeros":
+        value = value.replace(/^0+(?=.)/, "");
+        break;
+      case "prefix": {
+        const prefix = rule.value.trim().toLowerCase();
+        if (rule.mode === "add" && !value.startsWith(prefix)) {
+          value = prefix + value;
+        } else if (rule.mode === "remove" && value.startsWith(prefix)) {
+          value = value.slice(prefix.length);
+        }
+        break;
+      }
+      case "suffix": {
+        const suffix = rule.value.trim().toLowerCase();
+        if (rule.mode === "add" && !value.endsWith(suffix)) {
+          value = value + suffix;
+        } else if (rule.mode === "remove" && value.endsWith(suffix)) {
+          value = value.slice(0, -suffix.length);
+        }
+        break;
+      }
+      case "regex": {
+        const match = value.match(getPattern(rule.pattern));
+        if (match) value = (match[1] ?? match[0]).toLowerCase();
+        break;
+      }
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Read rules from JSON (form data or the database)
+ * @param value JSON array of rules
+ * @returns Rules, or an empty list if the value is not a JSON array
+ */
+export function parseSkuRules(value: string | null | undefined): SkuRule[] {
+  try {
+    const rules: unknown = JSON.parse(value || "[]");
+    return Array.isArray(rules) ? (rules as SkuRule[]) : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * Spreadsheet import for Supplier Updates
+ * Reads XLSX and ODS workbooks in the browser into the same string[][] rows
+ * the CSV parser produces, using raw cell values (not display formatting)
+ */
+
+import type {
+  SpreadsheetFormat,
+  SpreadsheetWorkbook,
+  SpreadsheetSheet,
+} from "../types/supplier-updates";
+
+// Guard against sheets with "repeated" cells running to the end of the grid
+const MAX_REPEATED_COLUMNS = 1000;
+const MAX_REPEATED_ROWS = 10000;
+
+const RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+// Workbook, sheet and shared string elements, whatever prefix the file uses
+const SPREADSHEETML_NS =
+  "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+
+/**
+ * Work out the spreadsheet format from a file name
+ * @param fileName Uploaded file name
+ * @returns "xlsx", "ods" or null for anything else (CSV/TSV/TXT)
+ */
+export function getSpreadsheetFormat(
+  fileName: string,
+): SpreadsheetFormat | null {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "xlsx" || extension === "xlsm") return "xlsx";
+  if (extension === "ods") return "ods";
+  return null;
+}
+
+/**
+ * Read every worksheet of an XLSX or ODS file
+ * @param file Uploaded workbook
+ * @returns Workbook with one entry per sheet, in workbook order
+ */
+export async function readSpreadsheetFile(
+  file: File,
+): Promise<SpreadsheetWorkbook> {
+  const format = getSpreadsheetFormat(file.name);
+  if (!format) {
+    throw new Error(`Unsupported spreadsheet file: ${file.name}`);
+  }
+
+  const entries = await readZipEntries(
+    new Uint8Array(await file.arrayBuffer()),
+  );
+  const sheets =
+    format === "xlsx"
+      ? await readXlsxSheets(entries)
+      : await readOdsSheets(entries);
+
+  return { format, sheets };
+}
+
+/**
+ * Format a numeric cell value without floating point noise
+ * "12.300000000000001" → "12.3", the same precision Excel shows
+ */
+function formatNumber(raw: string): string {
+  const value = Number(raw);
+  if (!Number.isFinite(value)) return raw;
+  return String(parseFloat(value.toPrecision(15)));
+}
+
+function trimRow(row: string[]): string[] {
+  let end = row.length;
+  while (end > 0 && row[end - 1] === "") end--;
+  return end === row.length ? row : row.slice(0, end);
+}
+
+/**
+ * Pad rows to the sheet width so short rows match what a CSV export gives
+ */
+function padRows(rows: string[][]): string[][] {
+  // Not Math.max(...rows), which overflows the stack on very long sheets
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  return rows.map((row) =>
+    row.length < width
+      ? [...row, ...Array<string>(width - row.length).fill("")]
+      : row,
+  );
+}
+
+function isEmptyRow(row: string[]): boolean {
+  return row.every((value) => value.trim() === "");
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Spreadsheet contains invalid XML");
+  }
+  return doc;
+}
+
+// ZIP container
+
+type ZipEntries = Map<string, () => Promise<string>>;
+
+/**
+ * Minimal ZIP reader (stored and deflate entries)
+ * XLSX and ODS are both ZIP archives of XML documents
+ */
+async function readZipEntries(bytes: Uint8Array): Promise<ZipEntries> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory record is in the last 64KB + 22 bytes
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65558); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error("File is not a valid spreadsheet (ZIP) archive");
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder("utf-8");
+  const entries: ZipEntries = new Map();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error("Spreadsheet archive is corrupt");
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error("ZIP64 spreadsheets are not supported");
+    }
+
+    entries.set(name, async () => {
+      const localNameLength = view.getUint16(localOffset + 26, true);
+      const localExtraLength = view.getUint16(localOffset + 28, true);
+      const start = localOffset + 30 + localNameLength + localExtraLength;
+      const data = bytes.slice(start, start + compressedSize);
+
+      if (method === 0) return decoder.decode(data);
+      if (method !== 8) {
+        throw new Error(`Unsupported compression in spreadsheet: ${method}`);
+      }
+
+      const stream = new Blob([data])
+        .stream()
+        .pipeThrough(new DecompressionStream("deflate-raw"));
+      return new Response(stream).text();
+    });
+  }
+
+  return entries;
+}
+
+async function readEntry(entries: ZipEntries, path: string): Promise<string> {
+  const read = entries.get(path);
+  if (!read) throw new Error(`Spreadsheet is missing ${path}`);
+  return read();
+}
+
+// XLSX (Office Open XML)
+
+async function readXlsxSheets(
+  entries: ZipEntries,
+): Promise<SpreadsheetSheet[]> {
+  const workbook = parseXml(await readEntry(entries, "xl/workbook.xml"));
+  const rels = parseXml(await readEntry(entries, "xl/_rels/workbook.xml.rels"));
+
+  const targets = new Map<string, string>();
+  for (const rel of Array.from(rels.getElementsByTagName("Relationship"))) {
+    const target = rel.getAttribute("Target") || "";
+    targets.set(
+      rel.getAttribute("Id") || "",
+      target.startsWith("/") ? target.slice(1) : `xl/${target}`,
+    );
+  }
+
+  const sharedStrings = entries.has("xl/sharedStrings.xml")
+    ? readSharedStrings(
+        parseXml(await readEntry(entries, "xl/sharedStrings.xml")),
+      )
+    : [];
+
+  const sheets: SpreadsheetSheet[] = [];
+  for (const sheet of Array.from(
+    workbook.getElementsByTagNameNS(SPREADSHEETML_NS, "sheet"),
+  )) {
+    const relId =
+      sheet.getAttributeNS(RELATIONSHIPS_NS, "id") ||
+      sheet.getAttribute("r:id") ||
+      "";
+    const path = targets.get(relId);
+    if (!path || !entries.has(path)) continue;
+
+    const { rows, lines } = readXlsxRows(
+      parseXml(await readEntry(entries, path)),
+      sharedStrings,
+    );
+    sheets.push({
+      name: sheet.getAttribute("name") || `Sheet ${sheets.length + 1}`,
+      rows: padRows(rows),
+      lines,
+    });
+  }
+
+  return sheets;
+}
+
+function readSharedStrings(doc: Document): string[] {
+  const items = doc.getElementsByTagNameNS(SPREADSHEETML_NS, "si");
+  return Array.from(items).map((item) => {
+    let text = "";
+    // Plain <t> or rich text runs <r><t/></r>; skip phonetic <rPh> runs
+    for (const child of Array.from(item.children)) {
+      if (child.localName === "t") {
+        text += child.textContent || "";
+      } else if (child.localName === "r") {
+        for (const run of Array.from(child.children)) {
+          if (run.localName === "t") text += run.textContent || "";
+        }
+      }
+    }
+    return text;
+  });
+}
+
+/**
+ * Convert a cell reference column ("B", "AA") to a 0-based index
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || "";
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function readXlsxCell(cell: Element, sharedStrings: string[]): string {
+  const type = cell.getAttribute("t") || "n";
+  const value =
+    cell.getElementsByTagNameNS(SPREADSHEETML_NS, "v")[0]?.textContent ?? "";
+
+  switch (type) {
+    case "s":
+      return sharedStrings[parseInt(value, 10)] ?? "";
+    case "inlineStr":
+      return Array.from(cell.getElementsByTagNameNS(SPREADSHEETML_NS, "t"))
+        .map((t) => t.textContent || "")
+        .join("");
+    case "b":
+      return value === "1" ? "TRUE" : "FALSE";
+    case "n":
+      return value === "" ? "" : formatNumber(value);
+    default:
+      // str (formula string), e (error), d (ISO date)
+      return value;
+  }
+}
+
+/**
+ * Read a worksheet's rows, skipping empty ones
+ * Each row keeps its sheet row number (the row's r attribute, or the one
+ * after the previous row when it has none)
+ */
+function readXlsxRows(
+  doc: Document,
+  sharedStrings: string[],
+): Omit<SpreadsheetSheet, "name"> {
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  let rowNumber = 0;
+
+  for (const rowElement of Array.from(
+    doc.getElementsByTagNameNS(SPREADSHEETML_NS, "row"),
+  )) {
+    const row: string[] = [];
+    const reference = parseInt(rowElement.getAttribute("r") || "", 10);
+    rowNumber = reference > 0 ? reference : rowNumber + 1;
+
+    for (const cell of Array.from(
+      rowElement.getElementsByTagNameNS(SPREADSHEETML_NS, "c"),
+    )) {
+      const reference = cell.getAttribute("r");
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) row.push("");
+      row[index] = readXlsxCell(cell, sharedStrings).trim();
+    }
+
+    const trimmed = trimRow(row);
+    if (!isEmptyRow(trimmed)) {
+      rows.push(trimmed);
+      lines.push(rowNumber);
+    }
+  }
+
+  return { rows, lines };
+}
+
+// ODS (OpenDocument Spreadsheet)
+
+async function readOdsSheets(entries: ZipEntries): Promise<SpreadsheetSheet[]> {
+  const content = parseXml(await readEntry(entries, "content.xml"));
+
+  return Array.from(content.getElementsByTagName("table:table")).map(
+    (table, index) => {
+      const { rows, lines } = readOdsRows(table);
+      return {
+        name: table.getAttribute("table:name") || `Sheet ${index + 1}`,
+        rows: padRows(rows),
+        lines,
+      };
+    },
+  );
+}
+
+function readOdsCell(cell: Element): string {
+  const type = cell.getAttribute("office:value-type");
+
+  switch (type) {
+    case "float":
+    case "percentage":
+    case "currency":
+      return formatNumber(cell.getAttribute("office:value") || "");
+    case "date":
+      return cell.getAttribute("office:date-value") || "";
+    case "time":
+      return cell.getAttribute("office:time-value") || "";
+    case "boolean":
+      return cell.getAttribute("office:boolean-value") === "true"
+        ? "TRUE"
+        : "FALSE";
+    default:
+      return Array.from(cell.getElementsByTagName("text:p"))
+        .map((p) => p.textContent || "")
+        .join("\n");
+  }
+}
+
+/**
+ * Read a table's rows, skipping empty ones
+ * Repeated rows are expanded, and counted towards the sheet row numbers even
+ * when empty
+ */
+function readOdsRows(table: Element): Omit<SpreadsheetSheet, "name"> {
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  let rowNumber = 0;
+
+  for (const rowElement of Array.from(
+    table.getElementsByTagName("table:table-row"),
+  )) {
+    const row: string[] = [];
+
+    for (const cell of Array.from(rowElement.children)) {
+      if (
+        cell.tagName !== "table:table-cell" &&
+        cell.tagName !== "table:covered-table-cell"
+      ) {
+        continue;
+      }
+
+      const value = readOdsCell(cell).trim();
+      const repeat = Math.min(
+        parseInt(cell.getAttribute("table:number-columns-repeated") || "1", 10),
+        MAX_REPEATED_COLUMNS,
+      );
+      for (let i = 0; i < repeat; i++) row.push(value);
+    }
+
+    const repeated =
+      parseInt(
+        rowElement.getAttribute("table:number-rows-repeated") || "1",
+        10,
+      ) || 1;
+    const trimmed = trimRow(row);
+    if (isEmptyRow(trimmed)) {
+      rowNumber += repeated;
+      continue;
+    }
+
+    const repeat = Math.min(repeated, MAX_REPEATED_ROWS);
+    for (let i = 0; i < repeat; i++) {
+      rows.push([...trimmed]);
+      lines.push(rowNumber + i + 1);
+    }
+    rowNumber += repeated;
+  }
+
+  return { rows, lines };
+}
@@ -6,104 +6,517 @@
 import type {
   CSVProduct,
   CSVFieldMapping,
+  CSVExtractResult,
+  CSVInvalidValue,
+  CSVLayout,
+  CSVParsingOptions,
+  DuplicateSkuPolicy,
+  FieldChange,
+  FieldTransforms,
+  MappedCellPreview,
+  MappedRowPreview,
   MarginStatus,
   NormalizedProduct,
+  OptionalFieldKey,
+  ProductMatch,
+  ResolvedNumberLocale,
+  RowFilter,
   ShopifyProduct,
+  SkuRule,
+  SupplierFieldKey,
+  SupplierFields,
 } from "../types/supplier-updates";
+import { parseCSVText } from "./csv-parser";
+import { detectNumberLocale } from "./number-format";
+import {
+  applyTransforms,
+  parseTransformedField,
+  parseTransformedNumber,
+} from "./transforms";
+import { compileRowFilters } from "./row-filters";
+import { removeTax } from "./tax";
+import { getSkuRuleError, normalizeSku } from "./sku-normalization";
+import {
+  DISCONTINUED_TAG,
+  OPTIONAL_FIELDS,
+  formatFieldValue,
+  getFieldDefinition,
+  getFieldName,
+} from "./field-registry";
+
+export const DEFAULT_CSV_LAYOUT: CSVLayout = { headerRow: 0, footerRows: 0 };
+export const DEFAULT_CSV_PARSING: CSVParsingOptions = { numberLocale: "auto" };
+// Rows from which lookups use a bulk export, for shops that have not set one
+export const DEFAULT_BULK_LOOKUP_THRESHOLD = 5000;
 
 /**
  * Parse CSV text into a 2D array
- * Uses a simple parser that handles quoted fields
+ * Thin wrapper around the streaming RFC 4180 parser
  * @param text Raw CSV file content
  * @returns Array of rows, each row is array of cell values
  */
 export function parseCSV(text: string): string[][] {
-  const rows: string[][] = [];
-  const lines = text.split(/\r?\n/);
-
-  for (const line of lines) {
-    if (line.trim() === "") continue;
-
-    const row: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          // Escaped quote
-          current += '"';
-          i++;
-        } else {
-          // Toggle quote mode
-          inQuotes = !inQuotes;
-        }
-      } else if (char === "," && !inQuotes) {
-        row.push(current.trim());
-        current = "";
-      } else {
-        current += char;
-      }
+  return parseCSVText(text).rows;
+}
+
+// Rows scanned when looking for the header row
+const HEADER_SCAN_ROWS = 30;
+
+/**
+ * Guess which row holds the column headers
+ * Skips letterheads, "Price list valid from..." lines and other preamble by
+ * picking the first wide, mostly-text row whose width matches the data below
+ * @param csvData Parsed CSV rows
+ * @returns 0-based index of the header row
+ */
+export function detectHeaderRow(csvData: string[][]): number {
+  const scanRows = csvData.slice(0, HEADER_SCAN_ROWS);
+  if (scanRows.length === 0) return 0;
+
+  const filledCells = (row: string[]) =>
+    row.filter((value) => value.trim() !== "");
+  const isNumeric = (value: string) =>
+    /^[-+(]?[^\d\s]{0,3}\s?[\d.,\s]+\)?$/.test(value.trim());
+
+  let bestIndex = 0;
+  let bestScore = -1;
+
+  scanRows.forEach((row, index) => {
+    const filled = filledCells(row);
+    if (filled.length < 2) return;
+
+    const textCells = filled.filter((value) => !isNumeric(value)).length;
+    const uniqueCells = new Set(filled.map((v) => v.toLowerCase())).size;
+
+    // Headers should line up with the rows that follow them
+    const following = csvData.slice(index + 1, index + 6);
+    const matchingWidth = following.filter(
+      (next) => Math.abs(filledCells(next).length - filled.length) <= 1,
+    ).length;
+
+    const score =
+      filled.length *
+        (textCells / filled.length) *
+        (uniqueCells / filled.length) +
+      matchingWidth;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
     }
+  });
 
-    // Don't forget the last field
-    row.push(current.trim());
-    rows.push(row);
-  }
+  return bestIndex;
+}
 
+/**
+ * Get the header row for the current layout
+ * @param csvData Parsed CSV rows
+ * @param layout Header row and footer settings
+ * @returns Header cells (empty when the header row is out of range)
+ */
+export function getCSVHeaders(
+  csvData: string[][],
+  layout: CSVLayout = DEFAULT_CSV_LAYOUT,
+): string[] {
+  return csvData[layout.headerRow] || [];
+}
+
+/**
+ * Get the data rows between the header row and the skipped footer rows
+ * @param csvData Parsed CSV rows
+ * @param layout Header row and footer settings
+ * @returns Data rows with their 0-based index in csvData
+ */
+export function getCSVDataRows(
+  csvData: string[][],
+  layout: CSVLayout = DEFAULT_CSV_LAYOUT,
+): Array<{ index: number; row: string[] }> {
+  const start = layout.headerRow + 1;
+  const end = Math.max(start, csvData.length - layout.footerRows);
+  const rows: Array<{ index: number; row: string[] }> = [];
+  for (let i = start; i < end; i++) {
+    rows.push({ index: i, row: csvData[i] });
+  }
   return rows;
 }
 
+/**
+ * Number of a data row as the supplier sees it in their file
+ * @param index 0-based index in csvData
+ * @param lines File line (or sheet row) of each parsed row
+ * @returns 1-based line or sheet row (the row's position when none is known)
+ */
+export function getRowNumber(index: number, lines: number[] = []): number {
+  return lines[index] ?? index + 1;
+}
+
+/**
+ * Create an empty field mapping
+ * @returns Mapping with no columns selected
+ */
+export function createFieldMapping(): CSVFieldMapping {
+  const column = (key: SupplierFieldKey) => ({
+    label: getFieldDefinition(key).label,
+    value: null,
+  });
+  return {
+    sku: column("sku"),
+    cost: column("cost"),
+    soh: column("soh"),
+    rrp: column("rrp"),
+    barcode: column("barcode"),
+    compareAtPrice: column("compareAtPrice"),
+    weight: column("weight"),
+    title: column("title"),
+    brand: column("brand"),
+    discontinued: column("discontinued"),
+  };
+}
+
+/**
+ * Get the optional fields that have a column selected
+ * @param fields Field mapping configuration
+ * @returns Mapped optional field keys, in registry order
+ */
+export function getMappedOptionalFields(
+  fields: CSVFieldMapping,
+): OptionalFieldKey[] {
+  return OPTIONAL_FIELDS.filter(
+    (field) => fields[field.key].value !== null,
+  ).map((field) => field.key);
+}
+
+/**
+ * Check every required field has a column (or "none" for SOH)
+ * Optional fields can stay unmapped
+ * @param fields Field mapping configuration
+ * @returns True when the mapping can be used for extraction
+ */
+export function isFieldMappingComplete(fields: CSVFieldMapping): boolean {
+  return (
+    fields.sku.value !== null &&
+    fields.cost.value !== null &&
+    fields.soh.value !== null
+  );
+}
+
+/**
+ * Resolve "auto" number locale from the values in the mapped cost column
+ * @param csvData Parsed CSV rows
+ * @param fields Field mapping configuration
+ * @param layout Header row and footer settings
+ * @param parsing Parsing options
+ * @returns Concrete number locale
+ */
+export function resolveNumberLocale(
+  csvData: string[][],
+  fields: CSVFieldMapping,
+  layout: CSVLayout = DEFAULT_CSV_LAYOUT,
+  parsing: CSVParsingOptions = DEFAULT_CSV_PARSING,
+): ResolvedNumberLocale {
+  if (parsing.numberLocale !== "auto") return parsing.numberLocale;
+  const costColumn = fields.cost.value;
+  if (costColumn === null) return "en";
+
+  const samples = getCSVDataRows(csvData, layout)
+    .slice(0, 200)
+    .map(({ row }) => row[costColumn] || "");
+  return detectNumberLocale(samples);
+}
+
 /**
  * Extract products from parsed CSV data using field mapping
- * @param csvData Parsed CSV rows (including header)
+ * Rows whose cost cannot be parsed are left out and reported; an unparseable
+ * stock or optional field value leaves that field unchanged for the row and is
+ * reported. Blank optional cells are skipped. Each field's transforms run on
+ * the cell before it is parsed; rows removed by a row filter are skipped
+ * @param csvData Parsed CSV rows (including header and any preamble)
  * @param fields Field mapping configuration
- * @returns Array of CSVProduct objects
+ * @param layout Header row and footer settings
+ * @param parsing Number format options
+ * @param transforms Transform steps per field
+ * @param filters Row filter rules
+ * @param lines File line of each parsed row, for reported cells
+ * @returns Products plus the cells that could not be parsed
  */
 export function extractProductsFromCSV(
   csvData: string[][],
   fields: CSVFieldMapping,
-): CSVProduct[] {
-  if (csvData.length < 2) return [];
-  if (fields.sku.value === null || fields.cost.value === null) return [];
-
+  layout: CSVLayout = DEFAULT_CSV_LAYOUT,
+  parsing: CSVParsingOptions = DEFAULT_CSV_PARSING,
+  transforms: FieldTransforms = {},
+  filters: RowFilter[] = [],
+  lines: number[] = [],
+): CSVExtractResult {
   const products: CSVProduct[] = [];
+  const invalidValues: CSVInvalidValue[] = [];
 
-  // Skip header row (index 0)
-  for (let i = 1; i < csvData.length; i++) {
-    const row = csvData[i];
-    if (!row || row.length === 0) continue;
+  if (fields.sku.value === null || fields.cost.value === null) {
+    return { products, invalidValues };
+  }
 
-    const sku = row[fields.sku.value]?.trim();
+  const locale = resolveNumberLocale(csvData, fields, layout, parsing);
+  const headers = getCSVHeaders(csvData, layout);
+  const findRemovingFilter = compileRowFilters(filters, headers, locale);
+  const optionalFields = OPTIONAL_FIELDS.filter(
+    (field) => fields[field.key].value !== null,
+  );
+
+  for (const { index, row } of getCSVDataRows(csvData, layout)) {
+    if (!row || row.length === 0) continue;
+    if (findRemovingFilter(row) !== -1) continue;
+    const context = { row, headers, locale };
+
+    const rawSku = row[fields.sku.value] || "";
+    if (!rawSku.trim()) continue;
+    const transformedSku = applyTransforms(rawSku, transforms.sku, context);
+    if (!transformedSku.ok) {
+      invalidValues.push({
+        row: getRowNumber(index, lines),
+        field: "sku",
+        value: rawSku,
+        reason: transformedSku.reason,
+      });
+      continue;
+    }
+    const sku = transformedSku.value.trim();
     if (!sku) continue;
 
-    const cost = cleanCostValue(row[fields.cost.value] || "0");
+    const rawCost = row[fields.cost.value] || "";
+    const cost = parseTransformedNumber(rawCost, transforms.cost, context);
+    if (!cost.ok) {
+      invalidValues.push({
+        row: getRowNumber(index, lines),
+        field: "cost",
+        value: rawCost,
+        reason: cost.reason,
+      });
+      continue;
+    }
 
-    const product: CSVProduct = { sku, cost };
+    const product: CSVProduct = { sku, cost: cost.value };
 
     // Only add SOH if field is mapped (not "none")
     if (fields.soh.value !== null && fields.soh.value !== "none") {
-      const soh = parseInt(row[fields.soh.value] || "0", 10);
-      product.soh = isNaN(soh) ? 0 : soh;
+      const rawSoh = row[fields.soh.value] || "";
+      const soh = parseTransformedNumber(rawSoh, transforms.soh, context);
+      if (soh.ok) {
+        product.soh = Math.trunc(soh.value);
+      } else {
+        invalidValues.push({
+          row: getRowNumber(index, lines),
+          field: "soh",
+          value: rawSoh,
+          reason: soh.reason,
+        });
+      }
+    }
+
+    for (const field of optionalFields) {
+      const raw = row[fields[field.key].value as number] || "";
+      if (raw.trim() === "") continue;
+
+      const parsed = parseTransformedField(
+        field.type,
+        raw,
+        transforms[field.key],
+        context,
+      );
+      if (parsed.ok) {
+        product.fields = { ...product.fields, [field.key]: parsed.value };
+      } else {
+        invalidValues.push({
+          row: getRowNumber(index, lines),
+          field: field.key,
+          value: raw,
+          reason: parsed.reason,
+        });
+      }
     }
 
     products.push(product);
   }
 
-  return products;
+  return { products, invalidValues };
 }
 
 /**
- * Clean cost value from CSV (remove currency symbols, spaces, etc.)
- * @param value Raw cost string from CSV
- * @returns Cleaned numeric value
+ * Get the SKU of every data row in a file
+ * Row filters and cost parsing are ignored so that a product the supplier
+ * still lists is never reported as missing from the file. SKU transforms are
+ * applied where they succeed
+ * @param csvData Parsed CSV rows (including header and any preamble)
+ * @param fields Field mapping configuration
+ * @param layout Header row and footer settings
+ * @param parsing Number format options
+ * @param transforms Transform steps per field
+ * @returns Non-blank SKUs
  */
-export function cleanCostValue(value: string): number {
-  const cleaned = value.replace(/[^\d.-]/g, "");
-  const parsed = parseFloat(cleaned);
-  return isNaN(parsed) ? 0 : parsed;
+export function getFileSkus(
+  csvData: string[][],
+  fields: CSVFieldMapping,
+  layout: CSVLayout = DEFAULT_CSV_LAYOUT,
+  parsing: CSVParsingOptions = DEFAULT_CSV_PARSING,
+  transforms: FieldTransforms = {},
+): string[] {
+  const skuColumn = fields.sku.value;
+  if (skuColumn === null) return [];
+
+  const locale = resolveNumberLocale(csvData, fields, layout, parsing);
+  const headers = getCSVHeaders(csvData, layout);
+  const skus: string[] = [];
+
+  for (const { row } of getCSVDataRows(csvData, layout)) {
+    const rawSku = row?.[skuColumn] || "";
+    if (!rawSku.trim()) continue;
+    const transformed = applyTransforms(rawSku, transforms.sku, {
+      row,
+      headers,
+      locale,
+    });
+    const sku = (transformed.ok ? transformed.value : rawSku).trim();
+    if (sku) skus.push(sku);
+  }
+
+  return skus;
+}
+
+/**
+ * Read the first data rows the way the current mapping will
+ * @param csvData Parsed CSV rows
+ * @param fields Field mapping configuration
+ * @param layout Header row and footer settings
+ * @param parsing Number format options
+ * @param transforms Transform steps per field
+ * @param filters Row filter rules (removed rows are not previewed)
+ * @param lines File line of each parsed row
+ * @param limit Number of rows to preview
+ * @returns Raw and transformed, parsed values of the mapped columns
+ */
+export function previewMappedRows(
+  csvData: string[][],
+  fields: CSVFieldMapping,
+  layout: CSVLayout = DEFAULT_CSV_LAYOUT,
+  parsing: CSVParsingOptions = DEFAULT_CSV_PARSING,
+  transforms: FieldTransforms = {},
+  filters: RowFilter[] = [],
+  lines: number[] = [],
+  limit: number = 5,
+): MappedRowPreview[] {
+  const locale = resolveNumberLocale(csvData, fields, layout, parsing);
+  const headers = getCSVHeaders(csvData, layout);
+  const findRemovingFilter = compileRowFilters(filters, headers, locale);
+
+  const readNumber = (
+    row: string[],
+    column: number | "none" | null,
+    field: "cost" | "soh",
+  ): MappedCellPreview | null => {
+    if (column === null || column === "none") return null;
+    const raw = row[column] || "";
+    const parsed = parseTransformedNumber(raw, transforms[field], {
+      row,
+      headers,
+      locale,
+    });
+    return { raw, value: parsed.ok ? parsed.value : null };
+  };
+
+  const optionalFields = OPTIONAL_FIELDS.filter(
+    (field) => fields[field.key].value !== null,
+  );
+
+  return getCSVDataRows(csvData, layout)
+    .filter(({ row }) => findRemovingFilter(row) === -1)
+    .slice(0, limit)
+    .map(({ index, row }) => {
+      const context = { row, headers, locale };
+      const skuRaw =
+        fields.sku.value !== null ? row[fields.sku.value]?.trim() || "" : "";
+      const sku = skuRaw
+        ? applyTransforms(skuRaw, transforms.sku, context)
+        : null;
+      const preview: MappedRowPreview = {
+        row: getRowNumber(index, lines),
+        skuRaw,
+        sku: sku?.ok ? sku.value.trim() : "",
+        cost: readNumber(row, fields.cost.value, "cost"),
+        soh: readNumber(row, fields.soh.value, "soh"),
+        fields: {},
+      };
+
+      for (const field of optionalFields) {
+        const raw = row[fields[field.key].value as number] || "";
+        const parsed = parseTransformedField(
+          field.type,
+          raw,
+          transforms[field.key],
+          context,
+        );
+        preview.fields[field.key] = {
+          raw,
+          value:
+            raw.trim() === ""
+              ? ""
+              : parsed.ok
+                ? formatFieldValue(field.type, parsed.value)
+                : null,
+        };
+      }
+
+      return preview;
+    });
+}
+
+/**
+ * Merge products from several supplier files into one list
+ * Duplicate SKUs (case-insensitive) are resolved by the policy:
+ * - first: keep the first occurrence (file order, then row order)
+ * - last: keep the last occurrence
+ * - lowestCost: keep the occurrence with the lowest cost
+ * - sumStock: keep the first cost and add up stock across occurrences
+ * @param productLists Products per file, in upload order
+ * @param policy Duplicate-SKU policy
+ * @returns Merged products, one per SKU, in first-seen order
+ */
+export function mergeSupplierProducts(
+  productLists: CSVProduct[][],
+  policy: DuplicateSkuPolicy = "first",
+): CSVProduct[] {
+  const merged = new Map<string, CSVProduct>();
+
+  for (const products of productLists) {
+    for (const product of products) {
+      const key = product.sku.toLowerCase();
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, { ...product });
+        continue;
+      }
+
+      switch (policy) {
+        case "last":
+          // Map.set on an existing key keeps its first-seen position
+          merged.set(key, { ...product });
+          break;
+        case "lowestCost":
+          if (product.cost < existing.cost) merged.set(key, { ...product });
+          break;
+        case "sumStock":
+          if (existing.soh !== undefined || product.soh !== undefined) {
+            existing.soh = (existing.soh ?? 0) + (product.soh ?? 0);
+          }
+          break;
+        case "first":
+        default:
+          break;
+      }
+    }
+  }
+
+  return Array.from(merged.values());
 }
 
 /**
@@ -133,11 +546,91 @@ export function getMarginStatus(
   return "good";
 }
 
+/**
+ * Normalize a barcode for comparison
+ * Spaces are dropped and numeric codes lose leading zeros, so a UPC-A and
+ * the same code as EAN-13 compare equal
+ * @param barcode Barcode text
+ * @returns Comparable barcode
+ */
+export function normalizeBarcode(barcode: string): string {
+  const compact = barcode.replace(/\s+/g, "");
+  return /^\d+$/.test(compact)
+    ? compact.replace(/^0+(?=\d)/, "")
+    : compact.toLowerCase();
+}
+
+// GTIN lengths a numeric barcode may be stored at (UPC-A, EAN-13, GTIN-14)
+const GTIN_LENGTHS = [12, 13, 14];
+
+/**
+ * Forms of a barcode to search the store for
+ * Shopify search matches the stored barcode exactly, so a numeric code is
+ * also searched without leading zeros and padded to each GTIN length; a
+ * UPC-A in the file then finds the same code stored as EAN-13, and the
+ * other way round
+ * @param barcode Barcode text
+ * @returns Search values, the barcode as given first
+ */
+export function getBarcodeSearchTerms(barcode: string): string[] {
+  const compact = barcode.replace(/\s+/g, "");
+  if (!/^\d+$/.test(compact)) return compact ? [compact] : [];
+
+  const digits = normalizeBarcode(compact);
+  const padded = GTIN_LENGTHS.filter((length) => digits.length <= length).map(
+    (length) => digits.padStart(length, "0"),
+  );
+  return Array.from(new Set([compact, digits, ...padded]));
+}
+
+/**
+ * Read the current Shopify values of the optional supplier fields
+ * @param shopifyProduct Product from GraphQL response
+ * @param variant Matched variant
+ * @returns Current values keyed like the supplier fields
+ */
+function getCurrentFields(
+  shopifyProduct: ShopifyProduct,
+  variant: ShopifyProduct["variants"]["nodes"][number],
+): SupplierFields {
+  const weight = variant.inventoryItem.measurement?.weight;
+  const weightKg = weight
+    ? {
+        KILOGRAMS: weight.value,
+        GRAMS: weight.value / 1000,
+        POUNDS: weight.value * 0.45359237,
+        OUNCES: weight.value * 0.028349523125,
+      }[weight.unit]
+    : undefined;
+
+  return {
+    rrp: parseFloat(variant.price) || 0,
+    barcode: variant.barcode || "",
+    compareAtPrice: variant.compareAtPrice
+      ? parseFloat(variant.compareAtPrice)
+      : undefined,
+    weight:
+      weightKg !== undefined ? Math.round(weightKg * 1000) / 1000 : undefined,
+    title: shopifyProduct.title,
+    brand: shopifyProduct.vendor || "",
+    discontinued: (shopifyProduct.tags || []).some(
+      (tag) => tag.toLowerCase() === DISCONTINUED_TAG,
+    ),
+  };
+}
+
 /**
  * Normalize Shopify product to our internal format
  * @param shopifyProduct Product from GraphQL response
  * @param csvProduct Matching CSV product data
  * @param marginThreshold Threshold for margin status calculation
+ * @param locationId Location the stock is read from
+ * @param updateFields Optional supplier fields selected for update; a
+ * selected RRP becomes the new price, next to the current Shopify price
+ * @param priceTaxRate Tax included in Shopify prices, taken out for the margin
+ * (costs are already ex tax)
+ * @param match How the row was matched: the variant if already known, and
+ * the SKU normalisation rules
  * @returns Normalized product for UI
  */
 export function normalizeShopifyProduct(
@@ -145,11 +638,24 @@ export function normalizeShopifyProduct(
   csvProduct: CSVProduct,
   marginThreshold: number = 5,
   locationId?: string | null,
+  updateFields: OptionalFieldKey[] = [],
+  priceTaxRate: number = 0,
+  match: ProductMatch = { by: "sku" },
 ): NormalizedProduct | null {
-  // Find the variant with matching SKU
-  const variant = shopifyProduct.variants.nodes.find(
-    (v) => v.sku?.toLowerCase() === csvProduct.sku.toLowerCase(),
-  );
+  // Find the matched variant, or the one with matching SKU (or barcode)
+  const barcode = csvProduct.fields?.barcode;
+  const sku = normalizeSku(csvProduct.sku, match.skuRules);
+  const variant = shopifyProduct.variants.nodes.find((v) => {
+    if (match.variantId) return v.id === match.variantId;
+    if (match.by === "barcode") {
+      return (
+        typeof barcode === "string" &&
+        !!v.barcode &&
+        normalizeBarcode(v.barcode) === normalizeBarcode(barcode)
+      );
+    }
+    return sku !== "" && normalizeSku(v.sku || "", match.skuRules) === sku;
+  });
 
   if (!variant) return null;
 
@@ -157,7 +663,15 @@ export function normalizeShopifyProduct(
     ? parseFloat(variant.inventoryItem.unitCost.amount)
     : 0;
 
+  const supplierFields: SupplierFields = {};
+  for (const key of updateFields) {
+    const value = csvProduct.fields?.[key];
+    if (value !== undefined) supplierFields[key] = value;
+  }
+
   const currentPrice = parseFloat(variant.price) || 0;
+  const newPrice =
+    typeof supplierFields.rrp === "number" ? supplierFields.rrp : currentPrice;
   const newCost = csvProduct.cost;
   const locationAvailable = locationId
     ? variant.inventoryItem.inventoryLevel?.location?.id === locationId
@@ -174,13 +688,13 @@ export function normalizeShopifyProduct(
       : variant.inventoryQuantity;
   const newQuantity = csvProduct.soh ?? currentQuantity;
 
-  const margin = calculateMargin(currentPrice, newCost);
+  const margin = calculateMargin(removeTax(newPrice, priceTaxRate), newCost);
 
   return {
     id: shopifyProduct.id,
     variantId: variant.id,
     inventoryItemId: variant.inventoryItem.id,
-    sku: variant.sku,
+    sku: variant.sku || csvProduct.sku,
     name: shopifyProduct.title,
     image: shopifyProduct.featuredMedia?.preview?.image?.url || "",
 
@@ -192,10 +706,29 @@ export function normalizeShopifyProduct(
     // New values from CSV
     costNew: newCost,
     quantityNew: newQuantity,
+    priceNew: newPrice,
+    ...(csvProduct.sourceCost && { sourceCost: csvProduct.sourceCost }),
 
     // Calculated
     margin,
     marginStatus: getMarginStatus(margin, marginThreshold),
+    ...(priceTaxRate > 0 && { priceTaxRate }),
+
+    // Optional fields
+    ...(updateFields.length > 0 && {
+      supplierFields,
+      currentFields: getCurrentFields(shopifyProduct, variant),
+    }),
+
+    // How the row was matched, when not by SKU, and the supplier's SKU when
+    // it differs
+    ...(match.by !== "sku" && {
+      matchedBy: match.by,
+      supplierSku: csvProduct.sku,
+    }),
+    ...(csvProduct.sku.toLowerCase() !== variant.sku?.toLowerCase() && {
+      supplierSku: csvProduct.sku,
+    }),
 
     // UI state
     update: true,
@@ -206,6 +739,42 @@ export function normalizeShopifyProduct(
   };
 }
 
+/**
+ * List the optional fields whose supplier value differs from Shopify
+ * @param product Normalized product
+ * @returns Changed fields with display values
+ */
+export function getFieldChanges(product: NormalizedProduct): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of OPTIONAL_FIELDS) {
+    const next = product.supplierFields?.[field.key];
+    if (next === undefined) continue;
+    // RRP is shown as the new price
+    if (field.key === "rrp") continue;
+
+    const current = product.currentFields?.[field.key];
+    if (current === next) continue;
+
+    changes.push({
+      key: field.key,
+      label: getFieldName(field),
+      from: formatFieldValue(field.type, current),
+      to: formatFieldValue(field.type, next),
+    });
+  }
+  return changes;
+}
+
+/**
+ * Whether a product's SKU is shared by several variants and no choice has
+ * been made of which to update
+ * @param product Matched product
+ * @returns Whether the product must not be updated yet
+ */
+export function isDuplicatePending(product: NormalizedProduct): boolean {
+  return product.duplicateSku?.choice === "pending";
+}
+
 /**
  * Chunk array into smaller arrays
  * @param arr Array to chunk
@@ -220,6 +789,24 @@ export function chunkArray<T>(arr: T[], size: number): T[][] {
   return chunks;
 }
 
+/**
+ * Whether to look up a file with a bulk export
+ * Large files use one to save searches; with SKU normalisation rules it is
+ * always used, as the store's SKUs must be normalised before they compare
+ * @param rowCount Supplier rows to look up
+ * @param threshold Shop's bulk lookup threshold (0 turns bulk lookups off)
+ * @param skuRules SKU normalisation rules
+ * @returns Whether to use a bulk export
+ */
+export function shouldUseBulkLookup(
+  rowCount: number,
+  threshold: number,
+  skuRules: SkuRule[] = [],
+): boolean {
+  if (skuRules.some((rule) => !getSkuRuleError(rule))) return true;
+  return threshold > 0 && rowCount >= threshold;
+}
+
 /**
  * Format currency for display
  * @param value Numeric value
@@ -247,6 +834,23 @@ export function formatMargin(margin: number): string {
   return `${margin.toFixed(1)}%`;
 }
 
+/**
+ * Link to a product in the Shopify admin
+ * @param shopDomain Shop domain, with or without protocol
+ * @param productId Product GID
+ * @returns Admin URL, or null without a shop domain or product ID
+ */
+export function getProductAdminUrl(
+  shopDomain: string | null | undefined,
+  productId: string,
+): string | null {
+  const id = productId.split("/").pop();
+  const shopHost = shopDomain
+    ? shopDomain.replace(/^https?:\/\//, "").replace(/\/$/, "")
+    : null;
+  return id && shopHost ? `https://${shopHost}/admin/products/${id}` : null;
+}
+
 /**
  * Group products by their parent product ID
  * Needed for productVariantsBulkUpdate which requires productId
@@ -0,0 +1,41 @@
+/**
+ * Tax normalisation for Supplier Updates
+ * Supplier costs and Shopify prices may each include tax; margins are worked
+ * out with tax taken out of both
+ */
+
+import type { ShopSettings, SupplierTax } from "../types/supplier-updates";
+
+export const DEFAULT_SUPPLIER_TAX: SupplierTax = {
+  costIncludesTax: false,
+  rate: 10,
+};
+
+/**
+ * Take tax out of a tax-inclusive amount
+ * @param amount Amount including tax
+ * @param rate Tax rate percentage (0 for none)
+ * @returns Amount excluding tax
+ */
+export function removeTax(amount: number, rate: number): number {
+  return rate > 0 ? amount / (1 + rate / 100) : amount;
+}
+
+/**
+ * Add tax to a tax-exclusive amount
+ * @param amount Amount excluding tax
+ * @param rate Tax rate percentage (0 for none)
+ * @returns Amount including tax
+ */
+export function addTax(amount: number, rate: number): number {
+  return rate > 0 ? amount * (1 + rate / 100) : amount;
+}
+
+/**
+ * Tax rate included in the shop's prices
+ * @param settings Shop settings
+ * @returns Rate percentage, or 0 when prices exclude tax
+ */
+export function getPriceTaxRate(settings: ShopSettings): number {
+  return settings.pricesIncludeTax ? settings.priceTaxRate : 0;
+}
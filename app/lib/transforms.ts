@@ -0,0 +1,394 @@
+/**
+ * Field transforms for Supplier Updates
+ * Per-field steps applied to a mapped cell before it is parsed: trim, case
+ * changes, regex replace, pack-size division and arithmetic expressions that
+ * can reference other columns of the row by header name
+ */
+
+import type {
+  FieldTransform,
+  ParsedFieldValue,
+  ParsedNumber,
+  ResolvedNumberLocale,
+  SupplierFieldType,
+  TransformResult,
+} from "../types/supplier-updates";
+import { parseLocaleNumber } from "./number-format";
+import { parseFieldValue } from "./field-registry";
+
+export interface TransformContext {
+  row: string[];
+  headers: string[];
+  locale: ResolvedNumberLocale;
+}
+
+export const TRANSFORM_TYPES: Array<{
+  value: FieldTransform["type"];
+  label: string;
+}> = [
+  { value: "trim", label: "Trim spaces" },
+  { value: "case", label: "Change case" },
+  { value: "replace", label: "Find and replace (regex)" },
+  { value: "packSize", label: "Divide by pack size" },
+  { value: "expression", label: "Formula" },
+];
+
+type Expression = (resolve: (column: string | null) => number) => number;
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "column"; name: string }
+  | { type: "name"; name: string }
+  | { type: "symbol"; symbol: string };
+
+const FUNCTIONS: Record<string, (args: number[]) => number> = {
+  round: ([value, digits = 0]) =>
+    Math.round(value * 10 ** digits) / 10 ** digits,
+  min: (args) => Math.min(...args),
+  max: (args) => Math.max(...args),
+};
+
+// Compiled expressions and patterns, reused across rows
+const expressionCache = new Map<string, Expression>();
+const patternCache = new Map<string, RegExp>();
+
+function normalizeHeader(header: string): string {
+  return header.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "[" || char === "{") {
+      const close = source.indexOf(char === "[" ? "]" : "}", i);
+      if (close === -1) throw new Error(`Unclosed column reference`);
+      tokens.push({ type: "column", name: source.slice(i + 1, close) });
+      i = close + 1;
+    } else if (/[\d.]/.test(char)) {
+      const match = source.slice(i).match(/^\d*\.?\d+|^\d+\./);
+      if (!match) throw new Error(`Unexpected "${char}"`);
+      tokens.push({ type: "number", value: Number(match[0]) });
+      i += match[0].length;
+    } else if (/[a-z]/i.test(char)) {
+      const name = source.slice(i).match(/^[a-z]+/i)![0];
+      tokens.push({ type: "name", name: name.toLowerCase() });
+      i += name.length;
+    } else if ("+-*/(),".includes(char)) {
+      tokens.push({ type: "symbol", symbol: char });
+      i++;
+    } else {
+      throw new Error(`Unexpected "${char}"`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Compile an arithmetic expression
+ * Supports + - * / and brackets, numbers, `value` (the mapped cell),
+ * [Column Name] references and round(x, digits), min(...) and max(...)
+ */
+function compileExpression(source: string): Expression {
+  const cached = expressionCache.get(source);
+  if (cached) return cached;
+
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isSymbol = (symbol: string) => {
+    const token = peek();
+    return token?.type === "symbol" && token.symbol === symbol;
+  };
+  const expect = (symbol: string) => {
+    if (!isSymbol(symbol)) throw new Error(`Expected "${symbol}"`);
+    position++;
+  };
+
+  const parseSum = (): Expression => {
+    let left = parseProduct();
+    while (isSymbol("+") || isSymbol("-")) {
+      const add = isSymbol("+");
+      position++;
+      const a = left;
+      const b = parseProduct();
+      left = add ? (r) => a(r) + b(r) : (r) => a(r) - b(r);
+    }
+    return left;
+  };
+
+  const parseProduct = (): Expression => {
+    let left = parseFactor();
+    while (isSymbol("*") || isSymbol("/")) {
+      const multiply = isSymbol("*");
+      position++;
+      const a = left;
+      const b = parseFactor();
+      left = multiply
+        ? (r) => a(r) * b(r)
+        : (r) => {
+            const divisor = b(r);
+            if (divisor === 0) throw new Error("Division by zero");
+            return a(r) / divisor;
+          };
+    }
+    return left;
+  };
+
+  const parseFactor = (): Expression => {
+    const token = peek();
+    if (!token) throw new Error("Formula ends too early");
+    position++;
+
+    if (token.type === "number") return () => token.value;
+    if (token.type === "column") return (r) => r(token.name);
+
+    if (token.type === "name") {
+      if (token.name === "value") return (r) => r(null);
+      const fn = FUNCTIONS[token.name];
+      if (!fn) throw new Error(`Unknown name "${token.name}"`);
+      expect("(");
+      const args = [parseSum()];
+      while (isSymbol(",")) {
+        position++;
+        args.push(parseSum());
+      }
+      expect(")");
+      return (r) => fn(args.map((arg) => arg(r)));
+    }
+
+    if (token.symbol === "-") {
+      const operand = parseFactor();
+      return (r) => -operand(r);
+    }
+    if (token.symbol === "+") return parseFactor();
+    if (token.symbol === "(") {
+      const inner = parseSum();
+      expect(")");
+      return inner;
+    }
+    throw new Error(`Unexpected "${token.symbol}"`);
+  };
+
+  const expression = parseSum();
+  if (position < tokens.length)
+    throw new Error("Unexpected text after formula");
+
+  expressionCache.set(source, expression);
+  return expression;
+}
+
+// Plain "1234.5" text for a computed number, without float noise
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+function getPattern(pattern: string, flags: string): RegExp {
+  const key = `${flags}/${pattern}`;
+  let regex = patternCache.get(key);
+  if (!regex) {
+    regex = new RegExp(pattern, flags);
+    patternCache.set(key, regex);
+  }
+  return regex;
+}
+
+/**
+ * Check a formula without running it
+ * @param expression Formula text
+ * @returns Error message, or null if the formula is valid
+ */
+export function getExpressionError(expression: string): string | null {
+  if (expression.trim() === "") return "Formula is empty";
+  try {
+    compileExpression(expression);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : "Invalid formula";
+  }
+}
+
+/**
+ * Check a regex pattern and flags
+ * @param pattern Pattern text
+ * @param flags Regex flags
+ * @returns Error message, or null if the pattern is valid
+ */
+export function getPatternError(pattern: string, flags: string): string | null {
+  try {
+    getPattern(pattern, flags);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : "Invalid pattern";
+  }
+}
+
+/**
+ * Short description of a transform step for lists
+ * @param transform Transform step
+ * @returns Description text
+ */
+export function describeTransform(transform: FieldTransform): string {
+  switch (transform.type) {
+    case "trim":
+      return "Trim spaces";
+    case "case":
+      return `Change to ${transform.mode} case`;
+    case "replace":
+      return `Replace /${transform.pattern}/${transform.flags} with "${transform.replacement}"`;
+    case "packSize":
+      return transform.column
+        ? `Divide by [${transform.column}] (or ${transform.size} when blank)`
+        : `Divide by pack size ${transform.size}`;
+    case "expression":
+      return `Formula: ${transform.expression}`;
+  }
+}
+
+/**
+ * Run a cell through a field's transforms
+ * Text steps work on the cell text; numeric steps parse it with the file's
+ * number format and hand on a plain "1234.5" number, so the result carries
+ * the locale it should be parsed with
+ * @param raw Raw cell value
+ * @param transforms Transform steps, in order
+ * @param context Row, headers and number format of the file
+ * @returns Transformed text, or the reason a step failed
+ */
+export function applyTransforms(
+  raw: string,
+  transforms: FieldTransform[] | undefined,
+  context: TransformContext,
+): TransformResult {
+  let value = raw;
+  let locale = context.locale;
+
+  const readNumber = (text: string, textLocale: ResolvedNumberLocale) => {
+    const parsed = parseLocaleNumber(text, textLocale);
+    if (!parsed.ok) throw new Error(parsed.reason);
+    return parsed.value;
+  };
+
+  const findColumn = (name: string) => {
+    const target = normalizeHeader(name);
+    const index = context.headers.findIndex(
+      (header) => normalizeHeader(header) === target,
+    );
+    if (index === -1) throw new Error(`No column named [${name}]`);
+    return index;
+  };
+
+  const readColumn = (name: string) => {
+    const cell = context.row[findColumn(name)] || "";
+    if (cell.trim() === "") throw new Error(`[${name}] is blank`);
+    return readNumber(cell, context.locale);
+  };
+
+  try {
+    for (const transform of transforms || []) {
+      switch (transform.type) {
+        case "trim":
+          value = value.trim().replace(/\s+/g, " ");
+          break;
+
+        case "case":
+          value =
+            transform.mode === "upper"
+              ? value.toUpperCase()
+              : transform.mode === "lower"
+                ? value.toLowerCase()
+                : value
+                    .toLowerCase()
+                    .replace(
+                      /(^|[\s\-/])(\S)/g,
+                      (_, space, letter) => `${space}${letter.toUpperCase()}`,
+                    );
+          break;
+
+        case "replace":
+          value = value.replace(
+            getPattern(transform.pattern, transform.flags),
+            transform.replacement,
+          );
+          break;
+
+        case "packSize": {
+          // A missing pack column fails the row; a blank cell uses the size
+          const cell = transform.column
+            ? context.row[findColumn(transform.column)]
+            : undefined;
+          const size =
+            cell && cell.trim() !== ""
+              ? readNumber(cell, context.locale)
+              : transform.size;
+          if (!(size > 0)) throw new Error("Pack size must be more than 0");
+          value = formatNumber(readNumber(value, locale) / size);
+          locale = "en";
+          break;
+        }
+
+        case "expression": {
+          const expression = compileExpression(transform.expression);
+          const result = expression((column) =>
+            column === null ? readNumber(value, locale) : readColumn(column),
+          );
+          if (!Number.isFinite(result)) {
+            throw new Error("Formula result is not a number");
+          }
+          value = formatNumber(result);
+          locale = "en";
+          break;
+        }
+      }
+    }
+  } catch (err) {
+    return {
+      ok: false,
+      reason: err instanceof Error ? err.message : "Transform failed",
+    };
+  }
+
+  return { ok: true, value, locale };
+}
+
+/**
+ * Transform a cell and parse it as a number
+ * @param raw Raw cell value
+ * @param transforms Transform steps
+ * @param context Row, headers and number format of the file
+ * @returns Parsed number, or the reason it is invalid
+ */
+export function parseTransformedNumber(
+  raw: string,
+  transforms: FieldTransform[] | undefined,
+  context: TransformContext,
+): ParsedNumber {
+  const result = applyTransforms(raw, transforms, context);
+  if (!result.ok) return result;
+  return parseLocaleNumber(result.value, result.locale);
+}
+
+/**
+ * Transform a cell and parse it for a field type
+ * @param type Field value type
+ * @param raw Raw cell value
+ * @param transforms Transform steps
+ * @param context Row, headers and number format of the file
+ * @returns Parsed value, or the reason it is invalid
+ */
+export function parseTransformedField(
+  type: SupplierFieldType,
+  raw: string,
+  transforms: FieldTransform[] | undefined,
+  context: TransformContext,
+): ParsedFieldValue {
+  const result = applyTransforms(raw, transforms, context);
+  if (!result.ok) return result;
+  return parseFieldValue(type, result.value, result.locale);
+}
@@ -0,0 +1,254 @@
+/**
+ * Pre-import validation for Supplier Updates
+ * Row-level diagnostics over the mapped CSV before products are looked up
+ */
+
+import type {
+  CSVFieldMapping,
+  CSVLayout,
+  CSVParsingOptions,
+  FieldTransforms,
+  RowFilter,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationReport,
+} from "../types/supplier-updates";
+import {
+  DEFAULT_CSV_LAYOUT,
+  DEFAULT_CSV_PARSING,
+  getCSVDataRows,
+  getCSVHeaders,
+  getRowNumber,
+  resolveNumberLocale,
+} from "./supplier-updates";
+import { OPTIONAL_FIELDS, getFieldName } from "./field-registry";
+import {
+  applyTransforms,
+  parseTransformedField,
+  parseTransformedNumber,
+} from "./transforms";
+import { compileRowFilters } from "./row-filters";
+import { serializeCSV } from "./csv-parser";
+
+export const VALIDATION_ISSUE_LABELS: Record<ValidationIssueCode, string> = {
+  duplicate_sku_conflict: "Duplicate SKU with conflicting cost",
+  blank_sku: "Blank SKU",
+  invalid_cost: "Non-numeric cost",
+  negative_cost: "Negative cost",
+  invalid_stock: "Non-numeric stock",
+  negative_stock: "Negative stock",
+  fractional_stock: "Fractional stock",
+  invalid_field: "Invalid field value",
+  column_count: "Wrong column count",
+};
+
+// Issues that block the import unless configured otherwise
+export const DEFAULT_FATAL_ISSUES: ValidationIssueCode[] = [
+  "duplicate_sku_conflict",
+  "invalid_cost",
+  "negative_cost",
+];
+
+/**
+ * Validate the mapped CSV rows
+ * Values are checked after each field's transforms, as they will be imported;
+ * rows removed by a row filter are not checked
+ * @param csvData Parsed CSV rows
+ * @param fields Field mapping configuration
+ * @param layout Header row and footer settings
+ * @param parsing Number format options
+ * @param transforms Transform steps per field
+ * @param filters Row filter rules
+ * @param lines File line (or sheet row) of each parsed row, reported as the
+ * issue's row
+ * @param fatal Issue codes that should block the import
+ * @returns Issues in row order, with counts and whether the import is blocked
+ */
+export function validateCSV(
+  csvData: string[][],
+  fields: CSVFieldMapping,
+  layout: CSVLayout = DEFAULT_CSV_LAYOUT,
+  parsing: CSVParsingOptions = DEFAULT_CSV_PARSING,
+  transforms: FieldTransforms = {},
+  filters: RowFilter[] = [],
+  lines: number[] = [],
+  fatal: ValidationIssueCode[] = DEFAULT_FATAL_ISSUES,
+): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const skuColumn = fields.sku.value;
+  const costColumn = fields.cost.value;
+  const sohColumn =
+    fields.soh.value !== null && fields.soh.value !== "none"
+      ? fields.soh.value
+      : null;
+
+  const optionalFields = OPTIONAL_FIELDS.filter(
+    (field) => fields[field.key].value !== null,
+  );
+
+  const headers = getCSVHeaders(csvData, layout);
+  const headerWidth = headers.length;
+  const locale = resolveNumberLocale(csvData, fields, layout, parsing);
+  const findRemovingFilter = compileRowFilters(filters, headers, locale);
+  const costsBySku = new Map<
+    string,
+    Array<{ row: number; sku: string; cost: number }>
+  >();
+
+  const addIssue = (
+    code: ValidationIssueCode,
+    row: number,
+    message: string,
+    sku = "",
+    value = "",
+  ) => {
+    issues.push({
+      code,
+      row,
+      message,
+      sku,
+      value,
+      fatal: fatal.includes(code),
+    });
+  };
+
+  for (const { index, row } of getCSVDataRows(csvData, layout)) {
+    if (findRemovingFilter(row) !== -1) continue;
+    const rowNumber = getRowNumber(index, lines);
+    const context = { row, headers, locale };
+    const rawSku = skuColumn !== null ? row[skuColumn]?.trim() || "" : "";
+    const transformedSku = applyTransforms(rawSku, transforms.sku, context);
+    const sku = transformedSku.ok ? transformedSku.value.trim() : rawSku;
+
+    // Trailing empty cells past the header are harmless
+    let width = row.length;
+    while (width > headerWidth && row[width - 1] === "") width--;
+    if (width !== headerWidth) {
+      addIssue(
+        "column_count",
+        rowNumber,
+        `Row has ${width} columns, header has ${headerWidth}`,
+        sku,
+      );
+    }
+
+    if (skuColumn === null) continue;
+    if (!transformedSku.ok) {
+      addIssue(
+        "invalid_field",
+        rowNumber,
+        `SKU: ${transformedSku.reason}`,
+        rawSku,
+        rawSku,
+      );
+      continue;
+    }
+    if (!sku) {
+      addIssue("blank_sku", rowNumber, "SKU is blank");
+      continue;
+    }
+
+    if (costColumn !== null) {
+      const rawCost = row[costColumn] || "";
+      const cost = parseTransformedNumber(rawCost, transforms.cost, context);
+      if (!cost.ok) {
+        addIssue("invalid_cost", rowNumber, cost.reason, sku, rawCost);
+      } else if (cost.value < 0) {
+        addIssue("negative_cost", rowNumber, "Cost is negative", sku, rawCost);
+      } else {
+        const key = sku.toLowerCase();
+        const seen = costsBySku.get(key) || [];
+        seen.push({ row: rowNumber, sku, cost: cost.value });
+        costsBySku.set(key, seen);
+      }
+    }
+
+    if (sohColumn !== null) {
+      const rawSoh = row[sohColumn] || "";
+      const soh = parseTransformedNumber(rawSoh, transforms.soh, context);
+      if (!soh.ok) {
+        addIssue("invalid_stock", rowNumber, soh.reason, sku, rawSoh);
+      } else if (soh.value < 0) {
+        addIssue("negative_stock", rowNumber, "Stock is negative", sku, rawSoh);
+      } else if (!Number.isInteger(soh.value)) {
+        addIssue(
+          "fractional_stock",
+          rowNumber,
+          "Stock is not a whole number",
+          sku,
+          rawSoh,
+        );
+      }
+    }
+
+    for (const field of optionalFields) {
+      const raw = row[fields[field.key].value as number] || "";
+      if (raw.trim() === "") continue;
+
+      const parsed = parseTransformedField(
+        field.type,
+        raw,
+        transforms[field.key],
+        context,
+      );
+      if (!parsed.ok) {
+        addIssue(
+          "invalid_field",
+          rowNumber,
+          `${getFieldName(field)}: ${parsed.reason}`,
+          sku,
+          raw,
+        );
+      }
+    }
+  }
+
+  for (const entries of costsBySku.values()) {
+    const costs = new Set(entries.map((entry) => entry.cost));
+    if (costs.size < 2) continue;
+
+    const rows = entries.map((entry) => entry.row).join(", ");
+    for (const entry of entries) {
+      addIssue(
+        "duplicate_sku_conflict",
+        entry.row,
+        `SKU appears on rows ${rows} with different costs`,
+        entry.sku,
+        String(entry.cost),
+      );
+    }
+  }
+
+  issues.sort((a, b) => a.row - b.row);
+
+  const counts = {} as Record<ValidationIssueCode, number>;
+  for (const code of Object.keys(VALIDATION_ISSUE_LABELS)) {
+    counts[code as ValidationIssueCode] = 0;
+  }
+  for (const issue of issues) counts[issue.code]++;
+
+  return {
+    issues,
+    counts,
+    fatalCount: issues.filter((issue) => issue.fatal).length,
+  };
+}
+
+/**
+ * Build a downloadable CSV of the validation report
+ * @param report Validation report
+ * @returns CSV text
+ */
+export function validationReportToCSV(report: ValidationReport): string {
+  return serializeCSV([
+    ["Row", "Severity", "Issue", "SKU", "Value", "Details"],
+    ...report.issues.map((issue) => [
+      issue.row.toString(),
+      issue.fatal ? "Error" : "Warning",
+      VALIDATION_ISSUE_LABELS[issue.code],
+      issue.sku,
+      issue.value,
+      issue.message,
+    ]),
+  ]);
+}
@@ -0,0 +1,67 @@
+/**
+ * Exchange rate storage
+ * Per-shop, manually maintained rates from supplier currencies to the shop
+ * currency, kept in the ExchangeRate table
+ */
+
+import prisma from "../db.server";
+import type { ExchangeRate } from "../types/supplier-updates";
+
+interface ExchangeRateRecord {
+  currency: string;
+  rate: number;
+  updatedAt: Date;
+}
+
+function toExchangeRate(record: ExchangeRateRecord): ExchangeRate {
+  return {
+    currency: record.currency,
+    rate: record.rate,
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Get all exchange rates for a shop
+ * @param shop Shop domain
+ * @returns Rates sorted by currency code
+ */
+export async function getExchangeRates(shop: string): Promise<ExchangeRate[]> {
+  const records: ExchangeRateRecord[] = await prisma.exchangeRate.findMany({
+    where: { shop },
+    orderBy: { currency: "asc" },
+  });
+  return records.map(toExchangeRate);
+}
+
+/**
+ * Create or replace the rate for a currency
+ * @param shop Shop domain
+ * @param currency ISO 4217 currency code
+ * @param rate Shop currency per 1 unit of the currency
+ * @returns Saved rate
+ */
+export async function saveExchangeRate(
+  shop: string,
+  currency: string,
+  rate: number,
+): Promise<ExchangeRate> {
+  const record: ExchangeRateRecord = await prisma.exchangeRate.upsert({
+    where: { shop_currency: { shop, currency } },
+    create: { shop, currency, rate },
+    update: { rate },
+  });
+  return toExchangeRate(record);
+}
+
+/**
+ * Delete the rate for a currency
+ * @param shop Shop domain (rates of other shops are never touched)
+ * @param currency ISO 4217 currency code
+ */
+export async function deleteExchangeRate(
+  shop: string,
+  currency: string,
+): Promise<void> {
+  await prisma.exchangeRate.deleteMany({ where: { shop, currency } });
+}
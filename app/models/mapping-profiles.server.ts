@@ -0,0 +1,105 @@
+/**
+ * Mapping profile storage
+ * Per-shop saved column mappings, kept in the MappingProfile table with the
+ * headers and config serialized as JSON
+ */
+
+import prisma from "../db.server";
+import type {
+  MappingProfile,
+  MappingProfileConfig,
+} from "../types/supplier-updates";
+
+interface MappingProfileRecord {
+  id: string;
+  name: string;
+  headers: string;
+  config: string;
+  updatedAt: Date;
+}
+
+function toMappingProfile(record: MappingProfileRecord): MappingProfile {
+  return {
+    id: record.id,
+    name: record.name,
+    headers: JSON.parse(record.headers) as string[],
+    config: JSON.parse(record.config) as MappingProfileConfig,
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Get all mapping profiles for a shop
+ * @param shop Shop domain
+ * @returns Profiles sorted by name
+ */
+export async function getMappingProfiles(
+  shop: string,
+): Promise<MappingProfile[]> {
+  const records: MappingProfileRecord[] = await prisma.mappingProfile.findMany({
+    where: { shop },
+    orderBy: { name: "asc" },
+  });
+  return records.map(toMappingProfile);
+}
+
+/**
+ * Create or replace a mapping profile (profiles are unique by name per shop)
+ * A profile saved with its ID is updated in place, renamed if the name has
+ * changed, so its ID (and the SKU links kept under it) stays the same
+ * @param shop Shop domain
+ * @param profile Profile ID (when re-saving one), name, source headers and
+ * config
+ * @returns Saved profile, or null if another profile already has the name
+ */
+export async function saveMappingProfile(
+  shop: string,
+  profile: {
+    id?: string | null;
+    name: string;
+    headers: string[];
+    config: MappingProfileConfig;
+  },
+): Promise<MappingProfile | null> {
+  const data = {
+    headers: JSON.stringify(profile.headers),
+    config: JSON.stringify(profile.config),
+  };
+
+  const existing = profile.id
+    ? await prisma.mappingProfile.findFirst({
+        where: { id: profile.id, shop },
+      })
+    : null;
+  if (existing) {
+    const taken = await prisma.mappingProfile.findFirst({
+      where: { shop, name: profile.name, NOT: { id: existing.id } },
+    });
+    if (taken) return null;
+
+    const record: MappingProfileRecord = await prisma.mappingProfile.update({
+      where: { id: existing.id },
+      data: { name: profile.name, ...data },
+    });
+    return toMappingProfile(record);
+  }
+
+  const record: MappingProfileRecord = await prisma.mappingProfile.upsert({
+    where: { shop_name: { shop, name: profile.name } },
+    create: { shop, name: profile.name, ...data },
+    update: data,
+  });
+  return toMappingProfile(record);
+}
+
+/**
+ * Delete a mapping profile
+ * @param shop Shop domain (profiles of other shops are never touched)
+ * @param id Profile ID
+ */
+export async function deleteMappingProfile(
+  shop: string,
+  id: string,
+): Promise<void> {
+  await prisma.mappingProfile.deleteMany({ where: { id, shop } });
+}
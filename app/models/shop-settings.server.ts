@@ -0,0 +1,75 @@
+/**
+ * Shop settings storage
+ * One ShopSettings row per shop; shops without a row use the defaults passed
+ * in (taken from the shop's Shopify tax configuration)
+ */
+
+import prisma from "../db.server";
+import type { ShopSettings } from "../types/supplier-updates";
+import { parseSkuRules } from "../lib/sku-normalization";
+import { parsePricingRules } from "../lib/pricing-rules";
+import { parsePriceRounding } from "../lib/price-rounding";
+
+interface ShopSettingsRecord {
+  pricesIncludeTax: boolean;
+  priceTaxRate: number;
+  skuRules: string;
+  bulkLookupThreshold: number;
+  pricingRules: string;
+  priceRounding: string;
+}
+
+/**
+ * Get the settings for a shop
+ * @param shop Shop domain
+ * @param defaults Settings used when the shop has not saved any
+ * @returns Shop settings
+ */
+export async function getShopSettings(
+  shop: string,
+  defaults: ShopSettings,
+): Promise<ShopSettings> {
+  const record: ShopSettingsRecord | null =
+    await prisma.shopSettings.findUnique({ where: { shop } });
+  if (!record) return defaults;
+  return {
+    pricesIncludeTax: record.pricesIncludeTax,
+    priceTaxRate: record.priceTaxRate,
+    skuRules: parseSkuRules(record.skuRules),
+    bulkLookupThreshold: record.bulkLookupThreshold,
+    pricingRules: parsePricingRules(record.pricingRules),
+    priceRounding: parsePriceRounding(record.priceRounding),
+  };
+}
+
+/**
+ * Save the settings for a shop
+ * @param shop Shop domain
+ * @param settings Settings to save
+ * @returns Saved settings
+ */
+export async function saveShopSettings(
+  shop: string,
+  settings: ShopSettings,
+): Promise<ShopSettings> {
+  const saved: ShopSettings = {
+    pricesIncludeTax: settings.pricesIncludeTax,
+    priceTaxRate: settings.priceTaxRate,
+    skuRules: settings.skuRules,
+    bulkLookupThreshold: settings.bulkLookupThreshold,
+    pricingRules: settings.pricingRules,
+    priceRounding: settings.priceRounding,
+  };
+  const data = {
+    ...saved,
+    skuRules: JSON.stringify(saved.skuRules),
+    pricingRules: JSON.stringify(saved.pricingRules),
+    priceRounding: JSON.stringify(saved.priceRounding),
+  };
+  await prisma.shopSettings.upsert({
+    where: { shop },
+    create: { shop, ...data },
+    update: data,
+  });
+  return saved;
+}
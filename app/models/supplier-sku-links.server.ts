@@ -0,0 +1,95 @@
+/**
+ * Supplier SKU cross-reference storage
+ * Per-shop links from a supplier's part number to the Shopify variant it
+ * stands for, kept in the SupplierSkuLink table and keyed by supplier (the
+ * mapping profile ID, so links survive a renamed profile)
+ */
+
+import prisma from "../db.server";
+import type { SupplierSkuLink } from "../types/supplier-updates";
+
+interface SupplierSkuLinkRecord {
+  profileId: string;
+  supplierSku: string;
+  variantId: string;
+  updatedAt: Date;
+}
+
+function toSupplierSkuLink(record: SupplierSkuLinkRecord): SupplierSkuLink {
+  return {
+    profileId: record.profileId,
+    supplierSku: record.supplierSku,
+    variantId: record.variantId,
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Get the links of the given suppliers
+ * @param shop Shop domain
+ * @param profileIds Mapping profile IDs of the suppliers
+ * @returns Links of those suppliers
+ */
+export async function getSupplierSkuLinks(
+  shop: string,
+  profileIds: string[],
+): Promise<SupplierSkuLink[]> {
+  if (profileIds.length === 0) return [];
+  const records: SupplierSkuLinkRecord[] =
+    await prisma.supplierSkuLink.findMany({
+      where: { shop, profileId: { in: profileIds } },
+    });
+  return records.map(toSupplierSkuLink);
+}
+
+/**
+ * Link a supplier SKU to a variant, replacing any existing link
+ * @param shop Shop domain
+ * @param profileId Mapping profile ID of the supplier
+ * @param supplierSku SKU in the supplier's files
+ * @param variantId ProductVariant GID
+ * @returns Saved link
+ */
+export async function saveSupplierSkuLink(
+  shop: string,
+  profileId: string,
+  supplierSku: string,
+  variantId: string,
+): Promise<SupplierSkuLink> {
+  const record: SupplierSkuLinkRecord = await prisma.supplierSkuLink.upsert({
+    where: {
+      shop_profileId_supplierSku: { shop, profileId, supplierSku },
+    },
+    create: { shop, profileId, supplierSku, variantId },
+    update: { variantId },
+  });
+  return toSupplierSkuLink(record);
+}
+
+/**
+ * Remove the link of a supplier SKU
+ * @param shop Shop domain (links of other shops are never touched)
+ * @param profileId Mapping profile ID of the supplier
+ * @param supplierSku SKU in the supplier's files
+ */
+export async function deleteSupplierSkuLink(
+  shop: string,
+  profileId: string,
+  supplierSku: string,
+): Promise<void> {
+  await prisma.supplierSkuLink.deleteMany({
+    where: { shop, profileId, supplierSku },
+  });
+}
+
+/**
+ * Remove every link of a supplier, when its mapping profile is deleted
+ * @param shop Shop domain (links of other shops are never touched)
+ * @param profileId Mapping profile ID of the supplier
+ */
+export async function deleteProfileSkuLinks(
+  shop: string,
+  profileId: string,
+): Promise<void> {
+  await prisma.supplierSkuLink.deleteMany({ where: { shop, profileId } });
+}
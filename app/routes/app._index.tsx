@@ -11,59 +11,160 @@ import { authenticate } from "../shopify.server";
 
 import {
   CSVUploader,
+  CSVLayoutSettings,
+  SupplierFileList,
   FieldMapper,
+  FieldTransformEditor,
+  RowFilterEditor,
+  CurrencySettings,
+  CostTaxSettings,
+  PriceTaxSettings,
+  BulkLookupSettings,
+  SkuRuleSettings,
+  ExchangeRateTable,
+  MappingPreview,
+  MappingProfilePicker,
+  ValidationSummary,
   ActionSelector,
+  FieldUpdateSelector,
   BatchProgress,
   UpdateResults,
+  CreatedProducts,
+  NotFoundReview,
+  PriceRoundingSettings,
+  PricingRuleSettings,
+  DuplicateSkuReview,
+  ReconcileReview,
   ProductTable,
   FilterButtons,
   MarginSettings,
 } from "../components/supplier-updates";
 
 import {
-  useCSVFieldMapping,
+  useSupplierFiles,
   usePricingProducts,
   useBatchProcessor,
 } from "../hooks/supplier-updates";
 
 import {
   extractProductsFromCSV,
-  normalizeShopifyProduct,
+  getFileSkus,
+  getCSVDataRows,
+  getCSVHeaders,
+  getMappedOptionalFields,
+  isFieldMappingComplete,
+  mergeSupplierProducts,
+  previewMappedRows,
+  resolveNumberLocale,
   chunkArray,
   groupProductsByParent,
+  isDuplicatePending,
+  shouldUseBulkLookup,
+  DEFAULT_BULK_LOOKUP_THRESHOLD,
 } from "../lib/supplier-updates";
+import { summarizeRowFilters } from "../lib/row-filters";
+import {
+  convertSupplierCosts,
+  getExchangeRate,
+  isCurrencyCode,
+} from "../lib/currency";
+import { DEFAULT_SUPPLIER_TAX, getPriceTaxRate } from "../lib/tax";
+
+import { DEFAULT_FATAL_ISSUES, validateCSV } from "../lib/validation";
+import { buildMappingProfileConfig } from "../lib/mapping-profiles";
+import {
+  mergeFieldResults,
+  parseFieldKeys,
+  updateSupplierFields,
+} from "../lib/field-updates.server";
+import {
+  findSkuMatches,
+  lookupLinkedVariant,
+  lookupProducts,
+} from "../lib/product-lookup.server";
+import {
+  getVariantExport,
+  loadVariantExport,
+  startVariantExport,
+} from "../lib/bulk-lookup.server";
+import {
+  applyReconcileAction,
+  findMissingVariants,
+} from "../lib/reconcile.server";
+import { createDraftProducts } from "../lib/product-create.server";
+import { buildDraftProduct } from "../lib/product-drafts";
+import { getSkuRuleError, parseSkuRules } from "../lib/sku-normalization";
+import { getPricingRuleError, parsePricingRules } from "../lib/pricing-rules";
+import {
+  getPriceRoundingError,
+  parsePriceRounding,
+} from "../lib/price-rounding";
+import {
+  deleteMappingProfile,
+  getMappingProfiles,
+  saveMappingProfile,
+} from "../models/mapping-profiles.server";
+import {
+  deleteExchangeRate,
+  getExchangeRates,
+  saveExchangeRate,
+} from "../models/exchange-rates.server";
+import {
+  getShopSettings,
+  saveShopSettings,
+} from "../models/shop-settings.server";
+import {
+  deleteProfileSkuLinks,
+  deleteSupplierSkuLink,
+  getSupplierSkuLinks,
+  saveSupplierSkuLink,
+} from "../models/supplier-sku-links.server";
 
 import {
-  GET_PRODUCTS_BY_SKU,
   GET_LOCATIONS,
+  GET_SHOP_DETAILS,
   INVENTORY_ADJUST_QUANTITIES,
   PRODUCT_VARIANTS_BULK_UPDATE,
   INVENTORY_ITEM_UPDATE,
-  buildSkuQuery,
 } from "../graphql/supplier-updates";
 
 import type {
+  BulkExport,
+  CSVParseResult,
   CSVProduct,
+  DraftProduct,
+  DuplicateSkuPolicy,
+  MappingProfile,
+  MappingProfileConfig,
+  MatchSuggestion,
   NormalizedProduct,
-  ShopifyProduct,
+  OptionalFieldKey,
+  PriceRoundingRule,
+  PricingRule,
+  ReconcileAction,
+  ReconcilePreview,
+  ReconcileScope,
+  ReconcileVariant,
+  ShopSettings,
+  SkuRule,
+  SkuTestResult,
   WorkflowStep,
   UpdateResponse,
+  ValidationIssueCode,
 } from "../types/supplier-updates";
 
 // Type for GraphQL response
-interface ProductsQueryResponse {
+interface LocationsQueryResponse {
   data?: {
-    products: {
-      nodes: ShopifyProduct[];
+    locations: {
+      nodes: Array<{ id: string; name: string; isActive: boolean }>;
     };
   };
 }
 
-interface LocationsQueryResponse {
+interface ShopDetailsResponse {
   data?: {
-    locations: {
-      nodes: Array<{ id: string; name: string; isActive: boolean }>;
-    };
+    shop: { currencyCode: string; taxesIncluded: boolean };
   };
 }
 
@@ -111,7 +212,8 @@ interface InventoryItemUpdateResponse {
 }
 
 /**
- * Loader - Get initial data (location ID)
+ * Loader - Get initial data (location ID, shop currency and settings, saved
+ * mapping profiles and exchange rates)
  */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { admin, session } = await authenticate.admin(request);
@@ -124,6 +226,9 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const locations = locationsData.data?.locations.nodes || [];
   const defaultLocation = locations.find((l) => l.isActive) || locations[0];
 
+  const shopResponse = await admin.graphql(GET_SHOP_DETAILS);
+  const shopData = (await shopResponse.json()) as ShopDetailsResponse;
+
   return {
     locationId: defaultLocation?.id || null,
     locationName: defaultLocation?.name || "Unknown",
@@ -133,6 +238,18 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       isActive: location.isActive,
     })),
     shopDomain: session.shop,
+    shopCurrency: shopData.data?.shop.currencyCode || "AUD",
+    // Shops that have not saved a setting follow their Shopify tax setting
+    shopSettings: await getShopSettings(session.shop, {
+      pricesIncludeTax: shopData.data?.shop.taxesIncluded ?? true,
+      priceTaxRate: DEFAULT_SUPPLIER_TAX.rate,
+      skuRules: [],
+      bulkLookupThreshold: DEFAULT_BULK_LOOKUP_THRESHOLD,
+      pricingRules: [],
+      priceRounding: [],
+    }),
+    mappingProfiles: await getMappingProfiles(session.shop),
+    exchangeRates: await getExchangeRates(session.shop),
   };
 };
 
@@ -140,13 +257,155 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
  * Action - Handle form submissions
  */
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin } = await authenticate.admin(request);
+  const { admin, session } = await authenticate.admin(request);
   const formData = await request.formData();
   const intent = formData.get("intent") as string;
 
+  if (intent === "saveMappingProfile") {
+    const name = ((formData.get("name") as string) || "").trim();
+    const headers: string[] = JSON.parse(
+      (formData.get("headers") as string) || "[]",
+    );
+    const config: MappingProfileConfig | null = JSON.parse(
+      (formData.get("config") as string) || "null",
+    );
+
+    if (!name || !config) {
+      return { profile: null, error: "Profile name and mapping are required" };
+    }
+
+    const profile = await saveMappingProfile(session.shop, {
+      id: (formData.get("profileId") as string) || null,
+      name,
+      headers,
+      config,
+    });
+    if (!profile) {
+      return {
+        profile: null,
+        error: `Another profile is already called "${name}"`,
+      };
+    }
+    return { profile, error: null };
+  }
+
+  if (intent === "deleteMappingProfile") {
+    const id = formData.get("profileId") as string;
+    await deleteMappingProfile(session.shop, id);
+    await deleteProfileSkuLinks(session.shop, id);
+    return { deletedProfileId: id, error: null };
+  }
+
+  if (intent === "saveShopSettings") {
+    const pricesIncludeTax = formData.get("pricesIncludeTax") === "true";
+    const priceTaxRate = parseFloat(
+      (formData.get("priceTaxRate") as string) || "0",
+    );
+
+    const skuRules = parseSkuRules(formData.get("skuRules") as string);
+    const pricingRules = parsePricingRules(
+      formData.get("pricingRules") as string,
+    );
+    const priceRounding = parsePriceRounding(
+      formData.get("priceRounding") as string,
+    );
+    const bulkLookupThreshold = parseInt(
+      (formData.get("bulkLookupThreshold") as string) || "0",
+      10,
+    );
+
+    if (!(priceTaxRate >= 0)) {
+      return { shopSettings: null, error: "Tax rate must be 0 or more" };
+    }
+    if (!(bulkLookupThreshold >= 0)) {
+      return {
+        shopSettings: null,
+        error: "Bulk lookup row count must be 0 or more",
+      };
+    }
+    const ruleErrors = skuRules.map(getSkuRuleError);
+    const ruleError = ruleErrors.find(Boolean);
+    if (ruleError) {
+      return {
+        shopSettings: null,
+        error: `SKU rule ${ruleErrors.indexOf(ruleError) + 1}: ${ruleError}`,
+      };
+    }
+    const pricingErrors = pricingRules.map(getPricingRuleError);
+    const pricingError = pricingErrors.find(Boolean);
+    if (pricingError) {
+      return {
+        shopSettings: null,
+        error: `Pricing rule ${pricingErrors.indexOf(pricingError) + 1}: ${pricingError}`,
+      };
+    }
+    const roundingErrors = priceRounding.map(getPriceRoundingError);
+    const roundingError = roundingErrors.find(Boolean);
+    if (roundingError) {
+      return {
+        shopSettings: null,
+        error: `Rounding rule ${roundingErrors.indexOf(roundingError) + 1}: ${roundingError}`,
+      };
+    }
+
+    const shopSettings = await saveShopSettings(session.shop, {
+      pricesIncludeTax,
+      priceTaxRate,
+      skuRules,
+      bulkLookupThreshold,
+      pricingRules,
+      priceRounding,
+    });
+    return { shopSettings, error: null };
+  }
+
+  if (intent === "saveExchangeRate") {
+    const currency = ((formData.get("currency") as string) || "")
+      .trim()
+      .toUpperCase();
+    const rate = parseFloat((formData.get("rate") as string) || "");
+
+    if (!isCurrencyCode(currency) || !(rate > 0)) {
+      return {
+        exchangeRate: null,
+        error: "Enter a 3-letter currency code and a rate above 0",
+      };
+    }
+
+    const exchangeRate = await saveExchangeRate(session.shop, currency, rate);
+    return { exchangeRate, error: null };
+  }
+
+  if (intent === "deleteExchangeRate") {
+    const currency = formData.get("currency") as string;
+    await deleteExchangeRate(session.shop, currency);
+    return { deletedCurrency: currency, error: null };
+  }
+
   // Get location ID
   const locationId = formData.get("locationId") as string;
 
+  if (intent === "startBulkLookup") {
+    try {
+      const bulkExport = await startVariantExport(admin, locationId);
+      return { bulkExport, error: null };
+    } catch (err) {
+      return {
+        bulkExport: null,
+        error: err instanceof Error ? err.message : "Unknown error",
+      };
+    }
+  }
+
+  if (intent === "getBulkLookup") {
+    const bulkOperationId = formData.get("bulkOperationId") as string;
+    const bulkExport = await getVariantExport(admin, bulkOperationId);
+    return {
+      bulkExport,
+      error: bulkExport ? null : "The variant export was not found",
+    };
+  }
+
   if (intent === "lookupProducts") {
     // Parse CSV products from form data
     const csvProductsJson = formData.get("csvProducts") as string;
@@ -154,61 +413,183 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const marginThreshold = parseFloat(
       (formData.get("marginThreshold") as string) || "5",
     );
+    const updateFields = parseFieldKeys(formData.get("updateFields"));
+    const priceTaxRate = parseFloat(
+      (formData.get("priceTaxRate") as string) || "0",
+    );
 
     if (csvProducts.length === 0) {
-      return { error: "No products to look up", products: [], notFound: [] };
+      return {
+        error: "No products to look up",
+        products: [],
+        notFound: [],
+        suggestions: [],
+        truncatedSearches: 0,
+      };
     }
 
-    // Look up products in batches of 50 (query string limit)
-    const skuBatches = chunkArray(
-      csvProducts.map((p) => p.sku),
-      50,
+    // Large files are matched against a finished bulk export of the store
+    const bulkOperationId = formData.get("bulkOperationId") as string;
+    let catalog;
+    if (bulkOperationId) {
+      try {
+        catalog = await loadVariantExport(admin, bulkOperationId);
+      } catch (err) {
+        return {
+          error: err instanceof Error ? err.message : "Unknown error",
+          products: [],
+          notFound: [],
+          suggestions: [],
+          truncatedSearches: 0,
+        };
+      }
+    }
+
+    const profileIds = new Set(
+      csvProducts.flatMap((p) => (p.profileId ? [p.profileId] : [])),
     );
-    const allProducts: NormalizedProduct[] = [];
-    const foundSkus = new Set<string>();
-
-    for (const skuBatch of skuBatches) {
-      const query = buildSkuQuery(skuBatch);
-      if (!query) continue;
-      const response = await admin.graphql(GET_PRODUCTS_BY_SKU, {
-        variables: {
-          query,
-          locationId: locationId || "",
-        },
-      });
-      const data = (await response.json()) as ProductsQueryResponse;
+    const result = await lookupProducts(admin, csvProducts, {
+      locationId,
+      marginThreshold,
+      updateFields,
+      priceTaxRate,
+      links: await getSupplierSkuLinks(session.shop, Array.from(profileIds)),
+      skuRules: parseSkuRules(formData.get("skuRules") as string),
+      pricingRules: parsePricingRules(formData.get("pricingRules") as string),
+      priceRounding: parsePriceRounding(
+        formData.get("priceRounding") as string,
+      ),
+      catalog,
+    });
+
+    return { ...result, error: null };
+  }
 
-      const shopifyProducts = data.data?.products.nodes || [];
+  if (intent === "reconcilePreview") {
+    const scope: ReconcileScope = JSON.parse(
+      (formData.get("scope") as string) || "{}",
+    );
+    if (!locationId) {
+      return { reconcilePreview: null, error: "Select a location first" };
+    }
 
-      // Match and normalize products
-      for (const shopifyProduct of shopifyProducts) {
-        for (const variant of shopifyProduct.variants.nodes) {
-          const csvProduct = csvProducts.find(
-            (p) => p.sku.toLowerCase() === variant.sku?.toLowerCase(),
-          );
+    const reconcilePreview = await findMissingVariants(
+      admin,
+      scope,
+      JSON.parse((formData.get("skus") as string) || "[]"),
+      JSON.parse((formData.get("matchedVariantIds") as string) || "[]"),
+      parseSkuRules(formData.get("skuRules") as string),
+      locationId,
+    );
+    return { reconcilePreview, error: null };
+  }
 
-          if (csvProduct) {
-            const normalized = normalizeShopifyProduct(
-              shopifyProduct,
-              csvProduct,
-              marginThreshold,
-              locationId,
-            );
-            if (normalized) {
-              allProducts.push(normalized);
-              foundSkus.add(csvProduct.sku.toLowerCase());
-            }
-          }
-        }
-      }
+  if (intent === "reconcileApply") {
+    const variants: ReconcileVariant[] = JSON.parse(
+      (formData.get("variants") as string) || "[]",
+    );
+    const reconcileAction = formData.get("reconcileAction") as ReconcileAction;
+    const tag = ((formData.get("tag") as string) || "").trim();
+
+    if (!["zeroStock", "draft", "tag"].includes(reconcileAction)) {
+      return { reconcileResults: null, error: "Choose what to do" };
+    }
+    if (reconcileAction === "tag" && !tag) {
+      return { reconcileResults: null, error: "Enter a tag" };
     }
+    if (variants.length === 0) {
+      return { reconcileResults: null, error: "No variants selected" };
+    }
+
+    const reconcileResults = await applyReconcileAction(
+      admin,
+      variants,
+      reconcileAction,
+      locationId,
+      tag,
+    );
+    return { reconcileResults, error: null };
+  }
 
-    // Find SKUs not found
-    const notFound = csvProducts
-      .filter((p) => !foundSkus.has(p.sku.toLowerCase()))
-      .map((p) => p.sku);
+  if (intent === "testSkuRules") {
+    const sku = ((formData.get("sku") as string) || "").trim();
+    const skuRules = parseSkuRules(formData.get("skuRules") as string);
+    if (!sku) return { skuTest: null, error: "Enter a SKU to test" };
 
-    return { products: allProducts, notFound, error: null };
+    const skuTest = await findSkuMatches(admin, sku, skuRules, locationId);
+    return { skuTest, error: null };
+  }
+
+  if (intent === "linkVariant") {
+    const csvProduct: CSVProduct | null = JSON.parse(
+      (formData.get("csvProduct") as string) || "null",
+    );
+    const variantId = formData.get("variantId") as string;
+    // Not saved when a suggestion is only used for this import
+    const save = formData.get("save") !== "false";
+
+    if (!csvProduct || !variantId) {
+      return { linkedProduct: null, error: "Choose a variant to link" };
+    }
+    if (save && !csvProduct.profileId) {
+      return {
+        linkedProduct: null,
+        error: "Save a mapping profile for this file to link its SKUs",
+      };
+    }
+
+    if (save && csvProduct.profileId) {
+      await saveSupplierSkuLink(
+        session.shop,
+        csvProduct.profileId,
+        csvProduct.sku,
+        variantId,
+      );
+    }
+    const linkedProduct = await lookupLinkedVariant(
+      admin,
+      csvProduct,
+      variantId,
+      {
+        locationId,
+        marginThreshold: parseFloat(
+          (formData.get("marginThreshold") as string) || "5",
+        ),
+        updateFields: parseFieldKeys(formData.get("updateFields")),
+        priceTaxRate: parseFloat(
+          (formData.get("priceTaxRate") as string) || "0",
+        ),
+      },
+      save ? "crossReference" : "manual",
+    );
+
+    if (!linkedProduct) {
+      return { linkedProduct: null, error: "Variant not found" };
+    }
+    return { linkedProduct, error: null };
+  }
+
+  if (intent === "unlinkVariant") {
+    const profileId = (formData.get("profileId") as string) || "";
+    const supplierSku = formData.get("supplierSku") as string;
+    await deleteSupplierSkuLink(session.shop, profileId, supplierSku);
+    return { unlinkedSku: supplierSku, error: null };
+  }
+
+  if (intent === "createProducts") {
+    const drafts: DraftProduct[] = JSON.parse(
+      (formData.get("drafts") as string) || "[]",
+    );
+
+    if (drafts.length === 0) {
+      return { createResults: null, error: "No products to create" };
+    }
+    if (!locationId) {
+      return { createResults: null, error: "Select a location first" };
+    }
+
+    const createResults = await createDraftProducts(admin, drafts, locationId);
+    return { createResults, error: null };
   }
 
   if (intent === "updateStock") {
@@ -221,6 +602,20 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     const results: UpdateResponse[] = [];
 
+    // Optional supplier fields (barcode, weight, ...); prices are only written
+    // by a pricing update, so RRP is never written here
+    const fieldKeys = parseFieldKeys(formData.get("updateFields")).filter(
+      (key) => key !== "rrp",
+    );
+    const fieldResults =
+      fieldKeys.length > 0
+        ? await updateSupplierFields(
+            admin,
+            products.filter((p) => p.update),
+            fieldKeys,
+          )
+        : [];
+
     // Build inventory changes
     const changes = products
       .filter((p) => p.update)
@@ -233,11 +628,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     if (changes.length === 0) {
       return {
-        results: products.map((p) => ({
-          sku: p.sku,
-          updated: false,
-          message: "No quantity change needed",
-        })),
+        results: mergeFieldResults(
+          products.map((p) => ({
+            sku: p.sku,
+            updated: false,
+            message: "No quantity change needed",
+          })),
+          fieldResults,
+        ),
         error: null,
       };
     }
@@ -294,7 +692,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       }
     }
 
-    return { results, error: null };
+    return { results: mergeFieldResults(results, fieldResults), error: null };
   }
 
   if (intent === "updatePricing") {
@@ -321,7 +719,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         for (const variantBatch of variantBatches) {
           const variantInputs = variantBatch.map((v) => ({
             id: v.variantId,
-            price: v.price.toFixed(2),
+            price: v.priceNew.toFixed(2),
             inventoryItem: {
               cost: v.costNew,
             },
@@ -348,7 +746,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           if (userErrors.length > 0 && hasCostError) {
             const priceInputs = variantBatch.map((v) => ({
               id: v.variantId,
-              price: v.price.toFixed(2),
+              price: v.priceNew.toFixed(2),
             }));
 
             const priceResponse = await admin.graphql(
@@ -442,6 +840,15 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       }
     }
 
+    // Optional supplier fields; RRP was already written as the price
+    const fieldKeys = parseFieldKeys(formData.get("updateFields")).filter(
+      (key) => key !== "rrp",
+    );
+    const fieldResults =
+      fieldKeys.length > 0
+        ? await updateSupplierFields(admin, productsToUpdate, fieldKeys)
+        : [];
+
     // Also update stock if requested
     if (updateStock) {
       const stockChanges = productsToUpdate
@@ -499,7 +906,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       }
     }
 
-    return { results, error: null };
+    return { results: mergeFieldResults(results, fieldResults), error: null };
   }
 
   return { error: "Unknown action" };
@@ -509,18 +916,33 @@ export const action = async ({ request }: ActionFunctionArgs) => {
  * Supplier Updates Page Component
  */
 export default function SupplierUpdatesPage() {
-  const { locationId, shopDomain, locations } = useLoaderData<typeof loader>();
+  const {
+    locationId,
+    shopDomain,
+    shopCurrency,
+    locations,
+    mappingProfiles,
+    exchangeRates,
+    shopSettings,
+  } = useLoaderData<typeof loader>();
   const fetcher = useFetcher<typeof action>();
+  const profileFetcher = useFetcher<typeof action>({ key: "mapping-profiles" });
+  const rateFetcher = useFetcher<typeof action>({ key: "exchange-rates" });
+  const settingsFetcher = useFetcher<typeof action>({ key: "shop-settings" });
+  const linkFetcher = useFetcher<typeof action>({ key: "sku-links" });
+  const skuTestFetcher = useFetcher<typeof action>({ key: "sku-rule-test" });
+  const bulkFetcher = useFetcher<typeof action>({ key: "bulk-lookup" });
+  const reconcileFetcher = useFetcher<typeof action>({ key: "reconcile" });
+  const createFetcher = useFetcher<typeof action>({ key: "create-products" });
   const shopify = useAppBridge();
   const batchResolver = useRef<((data: typeof fetcher.data) => void) | null>(
     null,
   );
   const updateBatchSize = 50;
+  const bulkPollInterval = 3000;
 
   // Workflow state
   const [step, setStep] = useState<WorkflowStep>("csv");
-  const [csvData, setCsvData] = useState<string[][]>([]);
-  const [csvFileName, setCsvFileName] = useState<string>("");
   const [error, setError] = useState<string>("");
   const [updateType, setUpdateType] = useState<"stock" | "pricing" | null>(
     null,
@@ -529,9 +951,27 @@ export default function SupplierUpdatesPage() {
     locationId || "",
   );
 
-  // CSV field mapping
-  const { fields, updateField, allFieldsSelected, resetFields } =
-    useCSVFieldMapping();
+  // Supplier files, each with its own column mapping
+  const {
+    files,
+    activeFile,
+    setActiveFileId,
+    loadFile,
+    removeFile,
+    updateField,
+    updateLayout,
+    updateParsing,
+    updateTransforms,
+    updateFilters,
+    updateCurrency,
+    updateTax,
+    applyProfile,
+    setActiveProfileId,
+    resetFiles,
+    allFilesMapped,
+  } = useSupplierFiles(mappingProfiles);
+  const [duplicatePolicy, setDuplicatePolicy] =
+    useState<DuplicateSkuPolicy>("first");
 
   // Pricing products
   const {
@@ -543,31 +983,343 @@ export default function SupplierUpdatesPage() {
     margin,
     setMargin,
     toggleProductUpdate,
+    resolveDuplicateSku,
     updateProductPrice,
     confirmProductEdit,
     setUpdatesForVariants,
     stats,
   } = usePricingProducts(5);
 
+  // SKUs the lookup did not find, suggested variants for them and the ones
+  // set aside in the review
+  const [notFound, setNotFound] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<MatchSuggestion[]>([]);
+  const [ignoredSkus, setIgnoredSkus] = useState<string[]>([]);
+  const [linkingSku, setLinkingSku] = useState<string | null>(null);
+  // Lookup searches that returned more variants than were read
+  const [truncatedSearches, setTruncatedSearches] = useState(0);
+  // Reconcile step: variants in the chosen scope missing from the files, and
+  // the results of acting on them
+  const [reconcilePreview, setReconcilePreview] =
+    useState<ReconcilePreview | null>(null);
+  const [reconcileResults, setReconcileResults] = useState<
+    UpdateResponse[] | null
+  >(null);
+  // Draft products created from unmatched rows
+  const [createdProducts, setCreatedProducts] = useState<UpdateResponse[]>([]);
+  // Variant export running for a bulk lookup
+  const [bulkExport, setBulkExport] = useState<BulkExport | null>(null);
+
   // Batch processing
   const batchProcessor = useBatchProcessor();
 
-  // Check if fetcher is loading
-  const isLoading = fetcher.state !== "idle";
+  // Check if fetcher is loading (or a bulk lookup is exporting variants)
+  const isExporting = bulkExport !== null || bulkFetcher.state !== "idle";
+  const isLoading = fetcher.state !== "idle" || isExporting;
 
-  // CSV headers (first row)
-  const csvHeaders = useMemo(() => csvData[0] || [], [csvData]);
+  // Files still in the session, so the uploader can forget removed ones
+  const fileIds = useMemo(() => files.map((file) => file.id), [files]);
 
-  // Has stock field mapped
-  const hasStockField =
-    fields.soh.value !== null && fields.soh.value !== "none";
+  // CSV headers of the file being mapped (detected or selected header row)
+  const csvHeaders = useMemo(
+    () => (activeFile ? getCSVHeaders(activeFile.data, activeFile.layout) : []),
+    [activeFile],
+  );
+
+  // First rows of the active file as the current mapping reads them
+  const mappedPreview = useMemo(
+    () =>
+      activeFile
+        ? previewMappedRows(
+            activeFile.data,
+            activeFile.fields,
+            activeFile.layout,
+            activeFile.parsing,
+            activeFile.transforms,
+            activeFile.filters,
+            activeFile.parseResult.lines,
+          )
+        : [],
+    [activeFile],
+  );
+
+  // Rows removed by each of the active file's row filters
+  const filterSummary = useMemo(
+    () =>
+      activeFile
+        ? summarizeRowFilters(
+            getCSVDataRows(activeFile.data, activeFile.layout).map(
+              ({ row }) => row,
+            ),
+            csvHeaders,
+            activeFile.filters,
+            resolveNumberLocale(
+              activeFile.data,
+              activeFile.fields,
+              activeFile.layout,
+              activeFile.parsing,
+            ),
+          )
+        : null,
+    [activeFile, csvHeaders],
+  );
+
+  // Optional fields mapped in any file, and those selected for update
+  const mappedOptionalFields = useMemo(
+    () =>
+      Array.from(
+        new Set(files.flatMap((file) => getMappedOptionalFields(file.fields))),
+      ),
+    [files],
+  );
+  const [fieldUpdates, setFieldUpdates] = useState<OptionalFieldKey[]>([]);
+
+  // Has stock field mapped in any file
+  const hasStockField = files.some(
+    (file) => file.fields.soh.value !== null && file.fields.soh.value !== "none",
+  );
+
+  // Products from every file's mapped columns, with costs converted to the
+  // shop currency ex tax, merged by duplicate policy
+  const csvProducts = useMemo(
+    () =>
+      mergeSupplierProducts(
+        files.map((file) => {
+          const products = convertSupplierCosts(
+            extractProductsFromCSV(
+              file.data,
+              file.fields,
+              file.layout,
+              file.parsing,
+              file.transforms,
+              file.filters,
+              file.parseResult.lines,
+            ).products,
+            file.currency,
+            shopCurrency,
+            exchangeRates,
+            file.tax,
+          );
+          // The file's profile is the supplier for SKU cross-references
+          const profile = mappingProfiles.find(
+            (candidate) => candidate.id === file.profileId,
+          );
+          return profile
+            ? products.map((product) => ({
+                ...product,
+                supplier: profile.name,
+                profileId: profile.id,
+              }))
+            : products;
+        }),
+        duplicatePolicy,
+      ),
+    [files, duplicatePolicy, shopCurrency, exchangeRates, mappingProfiles],
+  );
+
+  // Files in a currency that has no stored exchange rate
+  const filesMissingRate = files.filter(
+    (file) =>
+      getExchangeRate(file.currency.code, shopCurrency, exchangeRates) === null,
+  );
+
+  // Pre-import validation of each file's mapped rows
+  const [fatalIssues, setFatalIssues] =
+    useState<ValidationIssueCode[]>(DEFAULT_FATAL_ISSUES);
+  const validations = useMemo(
+    () =>
+      new Map(
+        files
+          .filter((file) => isFieldMappingComplete(file.fields))
+          .map((file) => [
+            file.id,
+            validateCSV(
+              file.data,
+              file.fields,
+              file.layout,
+              file.parsing,
+              file.transforms,
+              file.filters,
+              file.parseResult.lines,
+              fatalIssues,
+            ),
+          ]),
+      ),
+    [files, fatalIssues],
+  );
+  const activeValidation = activeFile
+    ? validations.get(activeFile.id) || null
+    : null;
+  const validationBlocked = Array.from(validations.values()).some(
+    (report) => report.fatalCount > 0,
+  );
 
   // Handle file load
-  const handleFileLoad = useCallback((data: string[][], fileName: string) => {
-    setCsvData(data);
-    setCsvFileName(fileName);
-    setError("");
-  }, []);
+  const handleFileLoad = useCallback(
+    (
+      data: string[][],
+      fileName: string,
+      result: CSVParseResult,
+      fileId: string,
+    ) => {
+      loadFile(fileId, fileName, data, result);
+      setError("");
+    },
+    [loadFile],
+  );
+
+  // Save the active file's mapping as a named profile
+  const handleSaveProfile = useCallback(
+    (name: string) => {
+      if (!activeFile) return;
+      const config = buildMappingProfileConfig(activeFile);
+      if (!config) return;
+      profileFetcher.submit(
+        {
+          intent: "saveMappingProfile",
+          profileId: activeFile.profileId ?? "",
+          name,
+          headers: JSON.stringify(csvHeaders),
+          config: JSON.stringify(config),
+        },
+        { method: "post" },
+      );
+    },
+    [activeFile, csvHeaders, profileFetcher],
+  );
+
+  const handleDeleteProfile = useCallback(
+    (profileId: string) => {
+      profileFetcher.submit(
+        { intent: "deleteMappingProfile", profileId },
+        { method: "post" },
+      );
+    },
+    [profileFetcher],
+  );
+
+  // Link the active file to the profile once it has been saved or deleted
+  const handledProfileResult = useRef<typeof profileFetcher.data>(undefined);
+  useEffect(() => {
+    const data = profileFetcher.data;
+    if (profileFetcher.state !== "idle" || !data) return;
+    if (handledProfileResult.current === data) return;
+    handledProfileResult.current = data;
+    if ("profile" in data && data.profile) {
+      const profile = data.profile as MappingProfile;
+      setActiveProfileId(profile.id);
+      shopify?.toast?.show(`Saved profile "${profile.name}"`);
+    } else if ("deletedProfileId" in data) {
+      setActiveProfileId(null);
+      shopify?.toast?.show("Profile deleted");
+    } else if (data.error) {
+      setError(data.error);
+    }
+  }, [profileFetcher.state, profileFetcher.data, setActiveProfileId, shopify]);
+
+  const handleSaveRate = useCallback(
+    (currency: string, rate: number) => {
+      rateFetcher.submit(
+        { intent: "saveExchangeRate", currency, rate: rate.toString() },
+        { method: "post" },
+      );
+    },
+    [rateFetcher],
+  );
+
+  const handleDeleteRate = useCallback(
+    (currency: string) => {
+      rateFetcher.submit(
+        { intent: "deleteExchangeRate", currency },
+        { method: "post" },
+      );
+    },
+    [rateFetcher],
+  );
+
+  useEffect(() => {
+    const data = rateFetcher.data;
+    if (rateFetcher.state !== "idle" || !data) return;
+    if (data.error) setError(data.error);
+  }, [rateFetcher.state, rateFetcher.data]);
+
+  const handleSaveShopSettings = useCallback(
+    (settings: ShopSettings) => {
+      settingsFetcher.submit(
+        {
+          intent: "saveShopSettings",
+          pricesIncludeTax: settings.pricesIncludeTax.toString(),
+          priceTaxRate: settings.priceTaxRate.toString(),
+          skuRules: JSON.stringify(settings.skuRules),
+          bulkLookupThreshold: settings.bulkLookupThreshold.toString(),
+          pricingRules: JSON.stringify(settings.pricingRules),
+          priceRounding: JSON.stringify(settings.priceRounding),
+        },
+        { method: "post" },
+      );
+    },
+    [settingsFetcher],
+  );
+
+  useEffect(() => {
+    const data = settingsFetcher.data;
+    if (settingsFetcher.state !== "idle" || !data) return;
+    if (data.error) setError(data.error);
+  }, [settingsFetcher.state, settingsFetcher.data]);
+
+  const handleSaveSkuRules = useCallback(
+    (skuRules: SkuRule[]) => {
+      handleSaveShopSettings({ ...shopSettings, skuRules });
+    },
+    [handleSaveShopSettings, shopSettings],
+  );
+
+  const handleSavePricingRules = useCallback(
+    (pricingRules: PricingRule[]) => {
+      handleSaveShopSettings({ ...shopSettings, pricingRules });
+    },
+    [handleSaveShopSettings, shopSettings],
+  );
+
+  const handleSavePriceRounding = useCallback(
+    (priceRounding: PriceRoundingRule[]) => {
+      handleSaveShopSettings({ ...shopSettings, priceRounding });
+    },
+    [handleSaveShopSettings, shopSettings],
+  );
+
+  const handleSaveBulkLookupThreshold = useCallback(
+    (bulkLookupThreshold: number) => {
+      handleSaveShopSettings({ ...shopSettings, bulkLookupThreshold });
+    },
+    [handleSaveShopSettings, shopSettings],
+  );
+
+  const handleTestSkuRules = useCallback(
+    (sku: string, skuRules: SkuRule[]) => {
+      skuTestFetcher.submit(
+        {
+          intent: "testSkuRules",
+          sku,
+          skuRules: JSON.stringify(skuRules),
+          locationId: selectedLocationId,
+        },
+        { method: "post" },
+      );
+    },
+    [selectedLocationId, skuTestFetcher],
+  );
+
+  useEffect(() => {
+    const data = skuTestFetcher.data;
+    if (skuTestFetcher.state !== "idle" || !data) return;
+    if (data.error) setError(data.error);
+  }, [skuTestFetcher.state, skuTestFetcher.data]);
+
+  const skuTestResult =
+    skuTestFetcher.data && "skuTest" in skuTestFetcher.data
+      ? (skuTestFetcher.data.skuTest as SkuTestResult | null)
+      : null;
 
   // Handle file error
   const handleFileError = useCallback((err: string) => {
@@ -602,19 +1354,136 @@ export default function SupplierUpdatesPage() {
 
   // Go to next step
   const goToActions = useCallback(() => {
-    if (allFieldsSelected) {
+    if (allFilesMapped && !validationBlocked && filesMissingRate.length === 0) {
+      // Fields are only written when the user ticks them; keep earlier
+      // choices that are still mapped
+      setFieldUpdates((prev) =>
+        prev.filter((key) => mappedOptionalFields.includes(key)),
+      );
       setStep("actions");
     }
-  }, [allFieldsSelected]);
+  }, [
+    allFilesMapped,
+    validationBlocked,
+    filesMissingRate.length,
+    mappedOptionalFields,
+  ]);
 
   // Go back to CSV step
   const goToCSV = useCallback(() => {
     setStep("csv");
     setUpdateType(null);
     setProducts([]);
+    setNotFound([]);
+    setSuggestions([]);
+    setIgnoredSkus([]);
+    setTruncatedSearches(0);
+    setBulkExport(null);
+    setReconcilePreview(null);
+    setReconcileResults(null);
+    setCreatedProducts([]);
     batchProcessor.reset();
   }, [setProducts, batchProcessor]);
 
+  // Submit extracted products for lookup, against a finished variant export
+  // when given one
+  const submitLookup = useCallback(
+    (bulkOperationId?: string) => {
+      fetcher.submit(
+        {
+          intent: "lookupProducts",
+          csvProducts: JSON.stringify(csvProducts),
+          locationId: selectedLocationId,
+          marginThreshold: margin.toString(),
+          updateFields: JSON.stringify(fieldUpdates),
+          priceTaxRate: getPriceTaxRate(shopSettings).toString(),
+          skuRules: JSON.stringify(shopSettings.skuRules),
+          pricingRules: JSON.stringify(shopSettings.pricingRules),
+          priceRounding: JSON.stringify(shopSettings.priceRounding),
+          bulkOperationId: bulkOperationId || "",
+        },
+        { method: "post" },
+      );
+    },
+    [
+      csvProducts,
+      fetcher,
+      fieldUpdates,
+      margin,
+      selectedLocationId,
+      shopSettings,
+    ],
+  );
+
+  // Large files, and any file when SKU rules are set, export the store's
+  // variants first; the lookup is submitted once the export finishes
+  const startLookup = useCallback(() => {
+    if (
+      shouldUseBulkLookup(
+        csvProducts.length,
+        shopSettings.bulkLookupThreshold,
+        shopSettings.skuRules,
+      )
+    ) {
+      bulkFetcher.submit(
+        { intent: "startBulkLookup", locationId: selectedLocationId },
+        { method: "post" },
+      );
+    } else {
+      submitLookup();
+    }
+  }, [
+    bulkFetcher,
+    csvProducts.length,
+    selectedLocationId,
+    shopSettings.bulkLookupThreshold,
+    shopSettings.skuRules,
+    submitLookup,
+  ]);
+
+  const handledBulkResult = useRef<typeof bulkFetcher.data>(undefined);
+  useEffect(() => {
+    const data = bulkFetcher.data;
+    if (bulkFetcher.state !== "idle" || !data) return;
+    if (handledBulkResult.current === data) return;
+    handledBulkResult.current = data;
+
+    const current =
+      "bulkExport" in data ? (data.bulkExport as BulkExport | null) : null;
+    if (data.error || !current) {
+      setBulkExport(null);
+      setUpdateType(null);
+      if (data.error) setError(data.error);
+      return;
+    }
+
+    if (current.status === "COMPLETED") {
+      setBulkExport(null);
+      submitLookup(current.id);
+    } else if (current.status === "CREATED" || current.status === "RUNNING") {
+      setBulkExport(current);
+    } else {
+      setBulkExport(null);
+      setUpdateType(null);
+      setError(
+        `The variant export was ${current.status.toLowerCase()}` +
+          (current.errorCode ? ` (${current.errorCode})` : ""),
+      );
+    }
+  }, [bulkFetcher.state, bulkFetcher.data, submitLookup]);
+
+  // Check on a running export every few seconds
+  useEffect(() => {
+    if (!bulkExport) return;
+    const timer = setTimeout(() => {
+      bulkFetcher.submit(
+        { intent: "getBulkLookup", bulkOperationId: bulkExport.id },
+        { method: "post" },
+      );
+    }, bulkPollInterval);
+    return () => clearTimeout(timer);
+  }, [bulkExport, bulkFetcher]);
+
   // Start stock only update
   const handleStockOnly = useCallback(() => {
     if (!selectedLocationId) {
@@ -623,19 +1492,8 @@ export default function SupplierUpdatesPage() {
     }
     setUpdateType("stock");
 
-    // Extract products and submit for lookup
-    const csvProducts = extractProductsFromCSV(csvData, fields);
-
-    fetcher.submit(
-      {
-        intent: "lookupProducts",
-        csvProducts: JSON.stringify(csvProducts),
-        locationId: selectedLocationId,
-        marginThreshold: margin.toString(),
-      },
-      { method: "post" },
-    );
-  }, [csvData, fields, fetcher, margin, selectedLocationId]);
+    startLookup();
+  }, [selectedLocationId, startLookup]);
 
   // Start pricing update
   const handleStockAndPricing = useCallback(() => {
@@ -645,19 +1503,8 @@ export default function SupplierUpdatesPage() {
     }
     setUpdateType("pricing");
 
-    // Extract products and submit for lookup
-    const csvProducts = extractProductsFromCSV(csvData, fields);
-
-    fetcher.submit(
-      {
-        intent: "lookupProducts",
-        csvProducts: JSON.stringify(csvProducts),
-        locationId: selectedLocationId,
-        marginThreshold: margin.toString(),
-      },
-      { method: "post" },
-    );
-  }, [csvData, fields, fetcher, margin, selectedLocationId]);
+    startLookup();
+  }, [selectedLocationId, startLookup]);
 
   // Effect to handle lookup response
   useEffect(() => {
@@ -667,17 +1514,247 @@ export default function SupplierUpdatesPage() {
     if (products.length > 0) return;
 
     setProducts(fetcher.data.products);
-
+    setNotFound(fetcher.data.notFound || []);
+    setSuggestions(fetcher.data.suggestions || []);
+    setTruncatedSearches(fetcher.data.truncatedSearches || 0);
+
+    const messages: string[] = [];
+    const barcodeMatches = fetcher.data.products.filter(
+      (p) => p.matchedBy === "barcode",
+    ).length;
+    if (barcodeMatches > 0) {
+      messages.push(`${barcodeMatches} matched by barcode`);
+    }
+    const sharedSkus = new Set(
+      fetcher.data.products.flatMap((p) =>
+        p.duplicateSku ? [p.duplicateSku.variantIds[0]] : [],
+      ),
+    ).size;
+    if (sharedSkus > 0) {
+      messages.push(`${sharedSkus} SKUs match more than one variant`);
+    }
+    const rulePrices = fetcher.data.products.filter(
+      (p) => p.suggestedPrice,
+    ).length;
+    if (rulePrices > 0) {
+      messages.push(`${rulePrices} prices suggested by pricing rules`);
+    }
     if (fetcher.data.notFound && fetcher.data.notFound.length > 0) {
+      messages.push(`${fetcher.data.notFound.length} SKUs not found in store`);
+    }
+    if (messages.length > 0) shopify?.toast?.show(messages.join(", "));
+  }, [fetcher.data, isLoading, products.length, setProducts, shopify]);
+
+  // Supplier rows the lookup did not find and that have not been ignored
+  const unmatchedRows = useMemo(() => {
+    const ignored = new Set(ignoredSkus);
+    const skus = new Set(
+      notFound
+        .filter((sku) => !ignored.has(sku))
+        .map((sku) => sku.toLowerCase()),
+    );
+    return csvProducts.filter((p) => skus.has(p.sku.toLowerCase()));
+  }, [csvProducts, ignoredSkus, notFound]);
+
+  // Match an unmatched supplier row to a variant, saving the link for future
+  // imports or for this import only
+  const submitLink = useCallback(
+    (row: CSVProduct, variantId: string, save: boolean) => {
+      const matched = products.find((p) => p.variantId === variantId);
+      if (matched) {
+        setError(`That variant is already matched to ${matched.sku}`);
+        return;
+      }
+      // Links are kept per supplier, so the file needs a saved profile
+      if (save && !row.profileId) {
+        setError("Save a mapping profile for this file to link its SKUs");
+        return;
+      }
+
+      setLinkingSku(row.sku);
+      linkFetcher.submit(
+        {
+          intent: "linkVariant",
+          csvProduct: JSON.stringify(row),
+          variantId,
+          save: save.toString(),
+          locationId: selectedLocationId,
+          marginThreshold: margin.toString(),
+          updateFields: JSON.stringify(fieldUpdates),
+          priceTaxRate: getPriceTaxRate(shopSettings).toString(),
+        },
+        { method: "post" },
+      );
+    },
+    [
+      fieldUpdates,
+      linkFetcher,
+      margin,
+      products,
+      selectedLocationId,
+      shopSettings,
+    ],
+  );
+
+  const handleAcceptSuggestion = useCallback(
+    (row: CSVProduct, variantId: string) => submitLink(row, variantId, false),
+    [submitLink],
+  );
+
+  const handleLinkSuggestion = useCallback(
+    (row: CSVProduct, variantId: string) => submitLink(row, variantId, true),
+    [submitLink],
+  );
+
+  // Link an unmatched supplier SKU to a variant chosen in the resource picker
+  const handlePickVariant = useCallback(
+    (row: CSVProduct) => {
+      void (async () => {
+        const selection = await shopify.resourcePicker({
+          type: "variant",
+          action: "select",
+          query: row.sku,
+        });
+        const variantId = selection?.[0]?.id;
+        if (variantId) submitLink(row, variantId, true);
+      })();
+    },
+    [shopify, submitLink],
+  );
+
+  // Reconcile: find variants in a scope that the files do not mention
+  const handleFindMissing = useCallback(
+    (scope: ReconcileScope) => {
+      setReconcileResults(null);
+      reconcileFetcher.submit(
+        {
+          intent: "reconcilePreview",
+          scope: JSON.stringify(scope),
+          skus: JSON.stringify(
+            files.flatMap((file) =>
+              getFileSkus(
+                file.data,
+                file.fields,
+                file.layout,
+                file.parsing,
+                file.transforms,
+              ),
+            ),
+          ),
+          matchedVariantIds: JSON.stringify(products.map((p) => p.variantId)),
+          skuRules: JSON.stringify(shopSettings.skuRules),
+          locationId: selectedLocationId,
+        },
+        { method: "post" },
+      );
+    },
+    [
+      files,
+      products,
+      reconcileFetcher,
+      selectedLocationId,
+      shopSettings.skuRules,
+    ],
+  );
+
+  const handlePickCollection = useCallback(async () => {
+    const selection = await shopify.resourcePicker({
+      type: "collection",
+      action: "select",
+    });
+    const collection = selection?.[0];
+    return collection ? { id: collection.id, title: collection.title } : null;
+  }, [shopify]);
+
+  const handleApplyReconcile = useCallback(
+    (
+      variants: ReconcileVariant[],
+      reconcileAction: ReconcileAction,
+      tag: string,
+    ) => {
+      reconcileFetcher.submit(
+        {
+          intent: "reconcileApply",
+          variants: JSON.stringify(variants),
+          reconcileAction,
+          tag,
+          locationId: selectedLocationId,
+        },
+        { method: "post" },
+      );
+    },
+    [reconcileFetcher, selectedLocationId],
+  );
+
+  const handledReconcileResult =
+    useRef<typeof reconcileFetcher.data>(undefined);
+  useEffect(() => {
+    const data = reconcileFetcher.data;
+    if (reconcileFetcher.state !== "idle" || !data) return;
+    if (handledReconcileResult.current === data) return;
+    handledReconcileResult.current = data;
+
+    if (data.error) setError(data.error);
+    if ("reconcilePreview" in data && data.reconcilePreview) {
+      setReconcilePreview(data.reconcilePreview as ReconcilePreview);
+    }
+    if ("reconcileResults" in data && data.reconcileResults) {
+      setReconcileResults(data.reconcileResults as UpdateResponse[]);
+    }
+  }, [reconcileFetcher.state, reconcileFetcher.data]);
+
+  const handleIgnoreRow = useCallback((row: CSVProduct) => {
+    setIgnoredSkus((prev) => [...prev, row.sku]);
+  }, []);
+
+  const handleUnlinkVariant = useCallback(
+    (product: NormalizedProduct) => {
+      const row = csvProducts.find((p) => p.sku === product.supplierSku);
+      linkFetcher.submit(
+        {
+          intent: "unlinkVariant",
+          profileId: row?.profileId || "",
+          supplierSku: product.supplierSku || "",
+        },
+        { method: "post" },
+      );
+    },
+    [csvProducts, linkFetcher],
+  );
+
+  // Move linked rows into the products, and unlinked ones back out
+  const handledLinkResult = useRef<typeof linkFetcher.data>(undefined);
+  useEffect(() => {
+    const data = linkFetcher.data;
+    if (linkFetcher.state !== "idle" || !data) return;
+    if (handledLinkResult.current === data) return;
+    handledLinkResult.current = data;
+    setLinkingSku(null);
+
+    if ("linkedProduct" in data && data.linkedProduct) {
+      const linked = data.linkedProduct as NormalizedProduct;
+      setProducts((prev) => [...prev, linked]);
+      setNotFound((prev) => prev.filter((sku) => sku !== linked.supplierSku));
       shopify?.toast?.show(
-        `${fetcher.data.notFound.length} SKUs not found in store`,
+        linked.matchedBy === "manual"
+          ? `Using ${linked.sku} for ${linked.supplierSku}`
+          : `Linked ${linked.supplierSku} to ${linked.sku}`,
       );
+    } else if ("unlinkedSku" in data && data.unlinkedSku) {
+      const sku = data.unlinkedSku as string;
+      setProducts((prev) => prev.filter((p) => p.supplierSku !== sku));
+      setNotFound((prev) => [...prev, sku]);
+      shopify?.toast?.show(`Unlinked ${sku}`);
+    } else if (data.error) {
+      setError(data.error);
     }
-  }, [fetcher.data, isLoading, products.length, setProducts, shopify]);
+  }, [linkFetcher.state, linkFetcher.data, setProducts, shopify]);
 
   // Handle update now (pricing)
   const handleUpdatePricing = useCallback(() => {
-    const productsToUpdate = products.filter((p) => p.update);
+    const productsToUpdate = products.filter(
+      (p) => p.update && !isDuplicatePending(p),
+    );
 
     if (productsToUpdate.length === 0) {
       setError("No products selected for update");
@@ -698,6 +1775,7 @@ export default function SupplierUpdatesPage() {
           products: JSON.stringify(batches[index]),
           locationId: selectedLocationId,
           updateStock: hasStockField ? "true" : "false",
+          updateFields: JSON.stringify(fieldUpdates),
         });
 
         if (data && "results" in data && Array.isArray(data.results)) {
@@ -714,6 +1792,7 @@ export default function SupplierUpdatesPage() {
   }, [
     products,
     hasStockField,
+    fieldUpdates,
     batchProcessor,
     selectedLocationId,
     updateBatchSize,
@@ -722,7 +1801,9 @@ export default function SupplierUpdatesPage() {
 
   // Handle update stock only
   const handleUpdateStock = useCallback(() => {
-    const productsToUpdate = products.filter((p) => p.update);
+    const productsToUpdate = products.filter(
+      (p) => p.update && !isDuplicatePending(p),
+    );
 
     if (productsToUpdate.length === 0) {
       setError("No products selected for update");
@@ -742,6 +1823,7 @@ export default function SupplierUpdatesPage() {
           intent: "updateStock",
           products: JSON.stringify(batches[index]),
           locationId: selectedLocationId,
+          updateFields: JSON.stringify(fieldUpdates),
         });
 
         if (data && "results" in data && Array.isArray(data.results)) {
@@ -757,12 +1839,69 @@ export default function SupplierUpdatesPage() {
     })();
   }, [
     products,
+    fieldUpdates,
     batchProcessor,
     selectedLocationId,
     updateBatchSize,
     submitBatch,
   ]);
 
+  // Price tax, pricing rules and rounding for new products
+  const draftPricing = useMemo(
+    () => ({
+      priceTaxRate: getPriceTaxRate(shopSettings),
+      rules: shopSettings.pricingRules,
+      rounding: shopSettings.priceRounding,
+    }),
+    [shopSettings],
+  );
+
+  // Create draft products for unmatched rows; the results are shown with the
+  // update results
+  const handleCreateProducts = useCallback(
+    (rows: CSVProduct[], markup: number) => {
+      const drafts = rows.map((row) =>
+        buildDraftProduct(row, { ...draftPricing, markup }),
+      );
+      if (drafts.length === 0) return;
+
+      createFetcher.submit(
+        {
+          intent: "createProducts",
+          drafts: JSON.stringify(drafts),
+          locationId: selectedLocationId,
+        },
+        { method: "post" },
+      );
+    },
+    [createFetcher, draftPricing, selectedLocationId],
+  );
+
+  // Created rows leave the not-found list, so they cannot be created twice
+  const handledCreateResult = useRef<typeof createFetcher.data>(undefined);
+  useEffect(() => {
+    const data = createFetcher.data;
+    if (createFetcher.state !== "idle" || !data) return;
+    if (handledCreateResult.current === data) return;
+    handledCreateResult.current = data;
+
+    if (data.error) setError(data.error);
+    if (!("createResults" in data) || !data.createResults) return;
+
+    const results = data.createResults as UpdateResponse[];
+    const created = results.filter((result) => !!result.productId);
+    const createdSkus = new Set(created.map((result) => result.sku));
+    setCreatedProducts((prev) => [...prev, ...created]);
+    setNotFound((prev) => prev.filter((sku) => !createdSkus.has(sku)));
+
+    const failed = results.filter((result) => !result.productId);
+    if (failed.length > 0) {
+      setError(
+        `${failed.length} products not created: ${failed[0].sku} (${failed[0].message})`,
+      );
+    }
+  }, [createFetcher.state, createFetcher.data]);
+
   // Handle update results
   const updateComplete =
     updateType !== null &&
@@ -776,19 +1915,34 @@ export default function SupplierUpdatesPage() {
   const lookupEmpty =
     lookupComplete &&
     fetcher.data?.products &&
-    fetcher.data.products.length === 0;
+    fetcher.data.products.length === 0 &&
+    products.length === 0;
+
+  const lookupMessage = isExporting
+    ? `Exporting store variants${
+        bulkExport?.objectCount
+          ? ` (${bulkExport.objectCount.toLocaleString()} so far)`
+          : ""
+      }... Large files are matched in one go once the export finishes.`
+    : "Looking up products... This can take a minute!";
 
   // Start again
   const handleStartAgain = useCallback(() => {
-    setCsvData([]);
-    setCsvFileName("");
+    resetFiles();
     setStep("csv");
     setUpdateType(null);
     setProducts([]);
+    setNotFound([]);
+    setSuggestions([]);
+    setIgnoredSkus([]);
+    setTruncatedSearches(0);
+    setBulkExport(null);
+    setReconcilePreview(null);
+    setReconcileResults(null);
+    setCreatedProducts([]);
     setError("");
-    resetFields();
     batchProcessor.reset();
-  }, [resetFields, setProducts, batchProcessor]);
+  }, [resetFiles, setProducts, batchProcessor]);
 
   return (
     <s-page heading="Supplier Updates">
@@ -798,14 +1952,27 @@ export default function SupplierUpdatesPage() {
         </s-banner>
       )}
 
+      {truncatedSearches > 0 && (
+        <s-banner
+          tone="warning"
+          dismissible
+          onDismiss={() => setTruncatedSearches(0)}
+        >
+          {truncatedSearches} product{" "}
+          {truncatedSearches === 1 ? "search" : "searches"} returned more
+          variants than could be read, so some matches may be missing. Check for
+          SKUs shared by many variants.
+        </s-banner>
+      )}
+
       <s-section heading="How To Use">
         <s-stack gap="base">
           <s-text tone="neutral">
-            1. Upload a CSV file from your supplier containing SKU, cost, and
-            optionally stock on hand.
+            1. Upload one or more CSV or spreadsheet files from your supplier
+            containing SKU, cost, and optionally stock on hand.
           </s-text>
           <s-text tone="neutral">
-            2. Map the CSV columns to the required fields.
+            2. Check the suggested column for each field, or pick it yourself.
           </s-text>
           <s-text tone="neutral">
             3. Choose whether to update stock only, or stock and pricing.
@@ -821,29 +1988,169 @@ export default function SupplierUpdatesPage() {
           <s-card>
             <s-stack gap="base">
               <CSVUploader
+                activeFileId={activeFile?.id ?? null}
+                fileIds={fileIds}
                 onFileLoad={handleFileLoad}
                 onError={handleFileError}
               />
 
-              {csvData.length > 1 && (
+              <SupplierFileList
+                files={files}
+                activeFileId={activeFile?.id ?? null}
+                onSelectFile={setActiveFileId}
+                onRemoveFile={removeFile}
+                duplicatePolicy={duplicatePolicy}
+                onDuplicatePolicyChange={setDuplicatePolicy}
+              />
+
+              {activeFile && activeFile.data.length > 1 && (
                 <s-text tone="critical">
-                  {csvData.length - 1} rows loaded from
-                  {csvFileName ? ` "${csvFileName}"` : " CSV"}
+                  {getCSVDataRows(activeFile.data, activeFile.layout).length}{" "}
+                  rows loaded from &quot;{activeFile.fileName}&quot;
                 </s-text>
               )}
 
-              {csvHeaders.length > 0 && (
+              {activeFile && activeFile.parseResult.malformedRows.length > 0 && (
+                <s-banner tone="warning">
+                  <s-stack gap="small-200">
+                    <s-text>
+                      {activeFile.parseResult.malformedRows.length} of{" "}
+                      {activeFile.parseResult.rowCount} rows look malformed.
+                      Check these rows before continuing:
+                    </s-text>
+                    {activeFile.parseResult.malformedRows
+                      .slice(0, 10)
+                      .map((issue) => (
+                        <s-text key={`${issue.row}-${issue.reason}`}>
+                          Row {issue.row} (line {issue.line}): {issue.reason}
+                        </s-text>
+                      ))}
+                  </s-stack>
+                </s-banner>
+              )}
+
+              {activeFile && activeFile.data.length > 1 && (
+                <CSVLayoutSettings
+                  csvData={activeFile.data}
+                  layout={activeFile.layout}
+                  onLayoutChange={updateLayout}
+                />
+              )}
+
+              {activeFile && csvHeaders.length > 0 && (
+                <MappingProfilePicker
+                  profiles={mappingProfiles}
+                  profileId={activeFile.profileId}
+                  defaultName={activeFile.fileName.replace(/\.[^.]+$/, "")}
+                  canSave={isFieldMappingComplete(activeFile.fields)}
+                  isSaving={profileFetcher.state !== "idle"}
+                  onApply={applyProfile}
+                  onSave={handleSaveProfile}
+                  onDelete={handleDeleteProfile}
+                />
+              )}
+
+              {activeFile && csvHeaders.length > 0 && (
                 <FieldMapper
                   headers={csvHeaders}
-                  fields={fields}
+                  fields={activeFile.fields}
                   onFieldChange={updateField}
+                  numberLocale={activeFile.parsing.numberLocale}
+                  onNumberLocaleChange={(numberLocale) =>
+                    updateParsing({ numberLocale })
+                  }
+                  suggestions={activeFile.suggestions}
+                />
+              )}
+
+              {activeFile && csvHeaders.length > 0 && (
+                <FieldTransformEditor
+                  headers={csvHeaders}
+                  fields={activeFile.fields}
+                  transforms={activeFile.transforms}
+                  onChange={updateTransforms}
                 />
               )}
 
-              {allFieldsSelected && (
-                <s-button variant="primary" onClick={goToActions}>
-                  Next
-                </s-button>
+              {activeFile && csvHeaders.length > 0 && (
+                <RowFilterEditor
+                  headers={csvHeaders}
+                  filters={activeFile.filters}
+                  summary={filterSummary}
+                  onChange={updateFilters}
+                />
+              )}
+
+              {activeFile && csvHeaders.length > 0 && (
+                <CurrencySettings
+                  currency={activeFile.currency}
+                  shopCurrency={shopCurrency}
+                  rates={exchangeRates}
+                  onChange={updateCurrency}
+                />
+              )}
+
+              {activeFile && csvHeaders.length > 0 && (
+                <CostTaxSettings tax={activeFile.tax} onChange={updateTax} />
+              )}
+
+              {activeFile &&
+                (activeFile.currency.code || exchangeRates.length > 0) && (
+                  <ExchangeRateTable
+                    rates={exchangeRates}
+                    shopCurrency={shopCurrency}
+                    isSaving={rateFetcher.state !== "idle"}
+                    onSave={handleSaveRate}
+                    onDelete={handleDeleteRate}
+                  />
+                )}
+
+              {activeFile &&
+                activeFile.fields.sku.value !== null &&
+                activeFile.fields.cost.value !== null && (
+                  <MappingPreview rows={mappedPreview} />
+                )}
+
+              {activeFile && activeValidation && (
+                <ValidationSummary
+                  report={activeValidation}
+                  fatalIssues={fatalIssues}
+                  onFatalIssuesChange={setFatalIssues}
+                  fileName={activeFile.fileName}
+                />
+              )}
+
+              {allFilesMapped && (
+                <s-stack gap="small-200">
+                  {files.length > 1 && (
+                    <s-text>
+                      {csvProducts.length} unique SKUs across {files.length}{" "}
+                      files.
+                    </s-text>
+                  )}
+                  {validationBlocked && (
+                    <s-text tone="critical">
+                      Fix the blocking validation problems in every file to
+                      continue.
+                    </s-text>
+                  )}
+                  {filesMissingRate.length > 0 && (
+                    <s-text tone="critical">
+                      Add an exchange rate for{" "}
+                      {filesMissingRate
+                        .map((file) => file.currency.code)
+                        .join(", ")}{" "}
+                      to continue.
+                    </s-text>
+                  )}
+                  <s-button
+                    variant="primary"
+                    onClick={goToActions}
+                    disabled={validationBlocked || filesMissingRate.length > 0}
+                  >
+                    Next
+                  </s-button>
+                </s-stack>
               )}
             </s-stack>
           </s-card>
@@ -871,6 +2178,40 @@ export default function SupplierUpdatesPage() {
                   </s-select>
                 </s-stack>
               </s-box>
+              <PriceTaxSettings
+                settings={shopSettings}
+                isSaving={settingsFetcher.state !== "idle"}
+                onSave={handleSaveShopSettings}
+              />
+              <BulkLookupSettings
+                threshold={shopSettings.bulkLookupThreshold}
+                isSaving={settingsFetcher.state !== "idle"}
+                onSave={handleSaveBulkLookupThreshold}
+              />
+              <PricingRuleSettings
+                rules={shopSettings.pricingRules}
+                isSaving={settingsFetcher.state !== "idle"}
+                onSave={handleSavePricingRules}
+                onPickCollection={handlePickCollection}
+              />
+              <PriceRoundingSettings
+                rules={shopSettings.priceRounding}
+                isSaving={settingsFetcher.state !== "idle"}
+                onSave={handleSavePriceRounding}
+              />
+              <SkuRuleSettings
+                rules={shopSettings.skuRules}
+                isSaving={settingsFetcher.state !== "idle"}
+                onSave={handleSaveSkuRules}
+                testResult={skuTestResult}
+                isTesting={skuTestFetcher.state !== "idle"}
+                onTest={handleTestSkuRules}
+              />
+              <FieldUpdateSelector
+                mappedFields={mappedOptionalFields}
+                selected={fieldUpdates}
+                onChange={setFieldUpdates}
+              />
               <ActionSelector
                 hasStock={hasStockField}
                 onStockOnly={handleStockOnly}
@@ -892,9 +2233,7 @@ export default function SupplierUpdatesPage() {
               {isLoading && products.length === 0 && (
                 <s-box>
                   <s-spinner size="large" />
-                  <s-text>
-                    Looking up products... This can take a minute!
-                  </s-text>
+                  <s-text>{lookupMessage}</s-text>
                 </s-box>
               )}
 
@@ -907,7 +2246,36 @@ export default function SupplierUpdatesPage() {
                 </s-box>
               )}
 
-              {products.length > 0 &&
+              {!isLoading && !batchProcessor.isProcessing && (
+                <NotFoundReview
+                  rows={unmatchedRows}
+                  suggestions={suggestions}
+                  currency={shopCurrency}
+                  pricing={draftPricing}
+                  linkingSku={linkingSku}
+                  onAccept={handleAcceptSuggestion}
+                  onLink={handleLinkSuggestion}
+                  onPick={handlePickVariant}
+                  onIgnore={handleIgnoreRow}
+                  isCreating={createFetcher.state !== "idle"}
+                  onCreate={handleCreateProducts}
+                />
+              )}
+
+              <CreatedProducts
+                results={createdProducts}
+                shopDomain={shopDomain}
+              />
+
+              {!isLoading && !batchProcessor.isProcessing && (
+                <DuplicateSkuReview
+                  products={products}
+                  currency={shopCurrency}
+                  onResolve={resolveDuplicateSku}
+                />
+              )}
+
+              {(products.length > 0 || batchProcessor.isProcessing) &&
                 (batchProcessor.isProcessing ? (
                   <BatchProgress
                     current={batchProcessor.currentBatch}
@@ -930,6 +2298,9 @@ export default function SupplierUpdatesPage() {
                       >
                         Update Stock Now
                       </s-button>
+                      <s-button onClick={() => setStep("reconcile")}>
+                        Reconcile missing products
+                      </s-button>
                       <s-button onClick={goToCSV}>Cancel</s-button>
                     </s-stack>
                   </>
@@ -949,9 +2320,7 @@ export default function SupplierUpdatesPage() {
               {isLoading && products.length === 0 && (
                 <s-box>
                   <s-spinner size="large" />
-                  <s-text>
-                    Looking up products... This can take a minute!
-                  </s-text>
+                  <s-text>{lookupMessage}</s-text>
                 </s-box>
               )}
 
@@ -964,7 +2333,36 @@ export default function SupplierUpdatesPage() {
                 </s-box>
               )}
 
-              {products.length > 0 &&
+              {!isLoading && !batchProcessor.isProcessing && (
+                <NotFoundReview
+                  rows={unmatchedRows}
+                  suggestions={suggestions}
+                  currency={shopCurrency}
+                  pricing={draftPricing}
+                  linkingSku={linkingSku}
+                  onAccept={handleAcceptSuggestion}
+                  onLink={handleLinkSuggestion}
+                  onPick={handlePickVariant}
+                  onIgnore={handleIgnoreRow}
+                  isCreating={createFetcher.state !== "idle"}
+                  onCreate={handleCreateProducts}
+                />
+              )}
+
+              <CreatedProducts
+                results={createdProducts}
+                shopDomain={shopDomain}
+              />
+
+              {!isLoading && !batchProcessor.isProcessing && (
+                <DuplicateSkuReview
+                  products={products}
+                  currency={shopCurrency}
+                  onResolve={resolveDuplicateSku}
+                />
+              )}
+
+              {(products.length > 0 || batchProcessor.isProcessing) &&
                 (batchProcessor.isProcessing ? (
                   <BatchProgress
                     current={batchProcessor.currentBatch}
@@ -991,7 +2389,10 @@ export default function SupplierUpdatesPage() {
                     onPriceChange={updateProductPrice}
                     onConfirmEdit={confirmProductEdit}
                     onSelectCurrentPage={setUpdatesForVariants}
+                    onUnlink={handleUnlinkVariant}
+                    onResolveDuplicate={resolveDuplicateSku}
                     shopDomain={shopDomain}
+                    currency={shopCurrency}
                     filter={filter}
                   />
 
@@ -1009,6 +2410,9 @@ export default function SupplierUpdatesPage() {
                         >
                           Update Now ({stats.toUpdate} products)
                         </s-button>
+                        <s-button onClick={() => setStep("reconcile")}>
+                          Reconcile missing products
+                        </s-button>
                         <s-button onClick={goToCSV}>Cancel</s-button>
                       </s-stack>
                     </div>
@@ -1018,11 +2422,33 @@ export default function SupplierUpdatesPage() {
           </s-card>
         )}
 
+        {/* Reconcile: products in a scope missing from the files */}
+        {step === "reconcile" && (
+          <s-card>
+            <ReconcileReview
+              preview={reconcilePreview}
+              results={reconcileResults}
+              isFinding={
+                reconcileFetcher.state !== "idle" &&
+                reconcileFetcher.formData?.get("intent") === "reconcilePreview"
+              }
+              isApplying={
+                reconcileFetcher.state !== "idle" &&
+                reconcileFetcher.formData?.get("intent") === "reconcileApply"
+              }
+              onFind={handleFindMissing}
+              onPickCollection={handlePickCollection}
+              onApply={handleApplyReconcile}
+              onBack={() => setStep("actions")}
+            />
+          </s-card>
+        )}
+
         {/* Results */}
         {updateComplete && (
           <s-card>
             <UpdateResults
-              totalChecked={csvData.length - 1}
+              totalChecked={csvProducts.length}
               totalFound={products.length}
               updatedCount={batchProcessor.updatedCount}
               notUpdatedCount={batchProcessor.notUpdatedCount}
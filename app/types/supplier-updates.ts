@@ -9,7 +9,159 @@ export interface CSVData {
   rows: string[][];
 }
 
-export interface CSVFieldMapping {
+// CSV parser options and results
+export interface CSVParseOptions {
+  delimiter?: string;
+  quote?: string;
+  trim?: boolean;
+  skipEmptyLines?: boolean;
+}
+
+export interface CSVMalformedRow {
+  row: number; // 1-based index in the parsed rows
+  line: number; // 1-based physical line in the file where the row starts
+  reason: string;
+}
+
+export interface CSVParseResult {
+  rows: string[][];
+  rowCount: number;
+  malformedRows: CSVMalformedRow[];
+  lines: number[]; // 1-based file line (or sheet row) each row starts on
+}
+
+// Supplier file decoding
+export type CSVEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+export type CSVDelimiter = "," | ";" | "\t" | "|";
+
+export interface CSVImportOptions {
+  encoding: CSVEncoding | "auto";
+  delimiter: CSVDelimiter | "auto";
+}
+
+export interface CSVFileResult extends CSVParseResult {
+  encoding: CSVEncoding;
+  delimiter: CSVDelimiter;
+  hasBOM: boolean;
+}
+
+// Spreadsheet (XLSX / ODS) import
+export type SpreadsheetFormat = "xlsx" | "ods";
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: string[][];
+  lines: number[]; // 1-based sheet row of each row
+}
+
+export interface SpreadsheetWorkbook {
+  format: SpreadsheetFormat;
+  sheets: SpreadsheetSheet[];
+}
+
+// Where the header and data sit within the parsed rows
+export interface CSVLayout {
+  headerRow: number; // 0-based index of the header row
+  footerRows: number; // Rows to ignore at the end (totals etc.)
+}
+
+// Number parsing
+export type ResolvedNumberLocale = "en" | "de" | "fr" | "ch";
+export type NumberLocale = ResolvedNumberLocale | "auto";
+
+export type ParsedNumber =
+  | { ok: true; value: number }
+  | { ok: false; reason: string };
+
+export interface CSVParsingOptions {
+  numberLocale: NumberLocale;
+}
+
+// A mapped cell that could not be parsed
+export interface CSVInvalidValue {
+  row: number; // 1-based row in the parsed file
+  field: string;
+  value: string;
+  reason: string;
+}
+
+export interface CSVExtractResult {
+  products: CSVProduct[];
+  invalidValues: CSVInvalidValue[];
+}
+
+// Pre-import validation
+export type ValidationIssueCode =
+  | "duplicate_sku_conflict"
+  | "blank_sku"
+  | "invalid_cost"
+  | "negative_cost"
+  | "invalid_stock"
+  | "negative_stock"
+  | "fractional_stock"
+  | "invalid_field"
+  | "column_count";
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  row: number; // 1-based row in the parsed file
+  message: string;
+  sku: string;
+  value: string;
+  fatal: boolean;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  counts: Record<ValidationIssueCode, number>;
+  fatalCount: number;
+}
+
+// Mappable supplier fields (see SUPPLIER_FIELDS in lib/field-registry)
+export type OptionalFieldKey =
+  | "rrp"
+  | "barcode"
+  | "compareAtPrice"
+  | "weight"
+  | "title"
+  | "brand"
+  | "discontinued";
+
+export type SupplierFieldKey = "sku" | "cost" | "soh" | OptionalFieldKey;
+
+export type SupplierFieldType =
+  | "code"
+  | "text"
+  | "money"
+  | "quantity"
+  | "barcode"
+  | "weight"
+  | "flag";
+
+export type SupplierFieldValue = string | number | boolean;
+
+export type ParsedFieldValue =
+  | { ok: true; value: SupplierFieldValue }
+  | { ok: false; reason: string };
+
+export interface SupplierFieldDefinition {
+  key: SupplierFieldKey;
+  label: string;
+  type: SupplierFieldType;
+  required: boolean;
+  target: string; // What the field updates in Shopify
+  synonyms: string[]; // Normalized header names used for auto-mapping
+  exclusions: string[]; // Header words that rule the field out
+  suggestFromValues?: boolean; // Can be suggested without a header match
+}
+
+export interface FieldColumn {
+  label: string;
+  value: number | null;
+}
+
+// Optional fields are unmapped when their value is null
+export interface CSVFieldMapping extends Record<OptionalFieldKey, FieldColumn> {
   sku: {
     label: string;
     value: number | null;
@@ -24,11 +176,238 @@ export interface CSVFieldMapping {
   };
 }
 
+// Transform steps applied to a mapped cell before it is parsed
+export type FieldTransform =
+  | { type: "trim" }
+  | { type: "case"; mode: "upper" | "lower" | "title" }
+  | { type: "replace"; pattern: string; replacement: string; flags: string }
+  | { type: "packSize"; size: number; column: string | null } // Divide by pack size
+  | { type: "expression"; expression: string }; // e.g. "value / 1.15", "[Carton Price] / [Qty]"
+
+export type FieldTransforms = Partial<
+  Record<SupplierFieldKey, FieldTransform[]>
+>;
+
+export type TransformResult =
+  | { ok: true; value: string; locale: ResolvedNumberLocale }
+  | { ok: false; reason: string };
+
+// Row filter rules, matched against raw cells of a column (by header name)
+export type RowFilterOperator = "equals" | "contains" | "regex" | "range";
+
+export interface RowFilter {
+  mode: "include" | "exclude";
+  column: string;
+  operator: RowFilterOperator;
+  value: string; // equals / contains / regex
+  min: number | null; // range
+  max: number | null;
+}
+
+export interface RowFilterSummary {
+  totalRows: number;
+  keptRows: number;
+  removed: number[]; // Rows removed by each filter (first filter to remove a row)
+  missingColumns: string[]; // Filter columns the file does not have (ignored)
+}
+
+// Currency a supplier invoices in, and the landed-cost uplift added on top
+export interface SupplierCurrency {
+  code: string | null; // null: costs are already in shop currency
+  uplift: number; // Percentage added after conversion (freight, duty)
+}
+
+// Whether a supplier's costs include tax, and at what rate
+export interface SupplierTax {
+  costIncludesTax: boolean;
+  rate: number; // Percentage
+}
+
+// SKU normalisation rule, applied to supplier and Shopify SKUs alike
+export type SkuRule =
+  | { type: "stripChars"; chars: string }
+  | { type: "stripLeadingZeros" }
+  | { type: "prefix" | "suffix"; mode: "add" | "remove"; value: string }
+  | { type: "regex"; pattern: string }; // Keeps the first capture group
+
+// Variants a supplier SKU matches under the SKU rules (rule test box)
+export interface SkuTestResult {
+  sku: string;
+  matches: Array<{ sku: string; title: string }>;
+}
+
+// Products a pricing rule applies to
+export type PricingRuleCondition =
+  | { type: "all" }
+  | { type: "vendor" | "productType" | "tag"; value: string }
+  | { type: "collection"; id: string; title: string }
+  | { type: "costBand"; min: number | null; max: number | null }; // Ex-tax cost, min inclusive
+
+// Target markup or margin for the products a rule applies to; the first
+// matching rule prices a product
+export interface PricingRule {
+  id: string;
+  condition: PricingRuleCondition;
+  target: "markup" | "margin"; // Markup on cost, or margin as a share of price
+  percent: number;
+}
+
+// Product attributes pricing rules are matched against
+export interface PricingTarget {
+  vendor: string;
+  productType: string;
+  tags: string[];
+  collectionIds: string[];
+  cost: number; // Ex tax
+}
+
+// Rounding of calculated prices: up or down to an ending (cents), or to the
+// nearest step
+export type PriceRounding =
+  | { type: "up" | "down"; ending: number } // e.g. 0.95
+  | { type: "nearest"; step: number }; // e.g. 1 or 0.5
+
+// Rounding for prices from an amount up; the rule with the highest amount at
+// or below a price rounds it
+export type PriceRoundingRule = PriceRounding & { from: number };
+
+// Price a pricing rule set for a product
+export interface SuggestedPrice {
+  ruleId: string;
+  rule: string; // Rule description at the time it was applied
+  price: number; // Rounded
+  rawPrice: number; // Before rounding
+}
+
+// Shop-level settings, stored per shop
+export interface ShopSettings {
+  pricesIncludeTax: boolean; // Shopify prices include tax
+  priceTaxRate: number; // Percentage included in prices
+  skuRules: SkuRule[]; // SKU normalisation before matching
+  bulkLookupThreshold: number; // Rows from which lookups use a bulk export
+  pricingRules: PricingRule[]; // Suggested prices, first matching rule wins
+  priceRounding: PriceRoundingRule[]; // Rounding of calculated prices
+}
+
+// Shop currency per unit of another currency, maintained per shop
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  updatedAt: string;
+}
+
+// Supplier part number linked to a Shopify variant (cross-reference)
+export interface SupplierSkuLink {
+  profileId: string; // Mapping profile of the supplier
+  supplierSku: string;
+  variantId: string;
+  updatedAt: string;
+}
+
+// Supplier cost before conversion to shop currency
+export interface SourceCost {
+  amount: number;
+  currency: string;
+  rate: number;
+  uplift: number;
+  taxRate: number; // Tax taken out of the supplier cost (0 if none)
+}
+
+// Supplier values for the optional fields of one row
+export type SupplierFields = Partial<
+  Record<OptionalFieldKey, SupplierFieldValue>
+>;
+
+// Column suggested for a field from header names and sample values
+export type MappingConfidence = "high" | "medium" | "low";
+
+export interface FieldSuggestion {
+  column: number;
+  confidence: MappingConfidence;
+  score: number; // 0-1
+}
+
+export type FieldSuggestions = Partial<
+  Record<keyof CSVFieldMapping, FieldSuggestion>
+>;
+
+// First rows of a file as the current mapping reads them
+export interface MappedCellPreview {
+  raw: string;
+  value: number | null; // null when the cell cannot be parsed
+}
+
+export interface MappedFieldPreview {
+  raw: string;
+  value: string | null; // Formatted value, null when it cannot be parsed
+}
+
+export interface MappedRowPreview {
+  row: number; // 1-based row in the parsed file
+  skuRaw: string; // Before transforms
+  sku: string;
+  cost: MappedCellPreview | null;
+  soh: MappedCellPreview | null;
+  fields: Partial<Record<OptionalFieldKey, MappedFieldPreview>>;
+}
+
+// One uploaded supplier file with its own mapping
+export interface SupplierFile {
+  id: string;
+  fileName: string;
+  data: string[][];
+  parseResult: CSVParseResult;
+  fields: CSVFieldMapping;
+  layout: CSVLayout;
+  parsing: CSVParsingOptions;
+  profileId: string | null; // Saved mapping profile applied to this file
+  suggestions: FieldSuggestions;
+  transforms: FieldTransforms;
+  filters: RowFilter[];
+  currency: SupplierCurrency;
+  tax: SupplierTax;
+}
+
+// Saved mapping profiles, stored per shop
+// Columns are kept by header name so they survive reordered columns
+export interface MappingProfileColumns extends Partial<
+  Record<OptionalFieldKey, string>
+> {
+  sku: string;
+  cost: string;
+  soh: string | null; // null when the supplier sends no stock column
+}
+
+export interface MappingProfileConfig {
+  columns: MappingProfileColumns;
+  layout: CSVLayout;
+  parsing: CSVParsingOptions;
+  transforms?: FieldTransforms; // Missing in profiles saved before transforms
+  filters?: RowFilter[];
+  currency?: SupplierCurrency;
+  tax?: SupplierTax;
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  headers: string[]; // Header row the profile was saved from
+  config: MappingProfileConfig;
+  updatedAt: string;
+}
+
+// How duplicate SKUs across merged files are resolved
+export type DuplicateSkuPolicy = "first" | "last" | "lowestCost" | "sumStock";
+
 // Product data from CSV row
 export interface CSVProduct {
   sku: string;
   cost: number;
   soh?: number;
+  fields?: SupplierFields;
+  sourceCost?: SourceCost; // Set when cost was converted or uplifted
+  supplier?: string; // Mapping profile name of the file
+  profileId?: string; // Mapping profile of the file, for SKU cross-references
 }
 
 // Shopify GraphQL response types
@@ -36,8 +415,13 @@ export interface ShopifyVariant {
   id: string;
   sku: string;
   price: string;
+  compareAtPrice?: string | null;
+  barcode?: string | null;
   inventoryItem: {
     id: string;
+    measurement?: {
+      weight: { unit: string; value: number } | null;
+    } | null;
     unitCost: {
       amount: string;
       currencyCode: string;
@@ -53,6 +437,9 @@ export interface ShopifyVariant {
 export interface ShopifyProduct {
   id: string;
   title: string;
+  vendor?: string;
+  productType?: string;
+  tags?: string[];
   featuredMedia: {
     preview: {
       image: {
@@ -65,6 +452,30 @@ export interface ShopifyProduct {
   };
 }
 
+// How a supplier row was matched to a Shopify variant
+export type ProductMatchMethod =
+  | "crossReference"
+  | "sku"
+  | "barcode"
+  | "manual"; // Chosen in the not-found review for this import only
+
+// Variant suggested for a supplier row that did not match
+export interface MatchSuggestion {
+  supplierSku: string;
+  variantId: string;
+  sku: string;
+  title: string; // Product title
+  score: number; // 0 to 1
+  reason: "sku" | "title"; // Which similarity gave the score
+}
+
+// Variant a supplier row was matched to, and how
+export interface ProductMatch {
+  by: ProductMatchMethod;
+  variantId?: string; // Matched variant; found by SKU or barcode if not set
+  skuRules?: SkuRule[];
+}
+
 // Normalized product for UI (platform-agnostic)
 export interface NormalizedProduct {
   id: string;
@@ -82,10 +493,23 @@ export interface NormalizedProduct {
   // New values (from CSV)
   costNew: number;
   quantityNew: number;
+  priceNew: number; // Price to write: the RRP, a rule's suggestion or an edit
+  sourceCost?: SourceCost; // Supplier cost before conversion
 
   // Calculated fields
-  margin: number;
+  margin: number; // Ex tax on both sides
+  priceTaxRate?: number; // Tax included in price, taken out for the margin
   marginStatus: MarginStatus;
+  suggestedPrice?: SuggestedPrice; // Set when a pricing rule set priceNew
+
+  // Optional fields selected for update: supplier values and current values
+  supplierFields?: SupplierFields;
+  currentFields?: SupplierFields;
+
+  // How the variant was matched (not set for a SKU match)
+  matchedBy?: ProductMatchMethod;
+  supplierSku?: string; // SKU in the supplier file, when it differs
+  duplicateSku?: DuplicateSku; // Set when the SKU matched several variants
 
   // UI state
   update: boolean;
@@ -95,6 +519,15 @@ export interface NormalizedProduct {
   };
 }
 
+// Variants one supplier SKU matched, and which of them to update ("pending"
+// until chosen; such rows are not updated)
+export interface DuplicateSku {
+  variantIds: string[];
+  choice: DuplicateSkuChoice;
+}
+
+export type DuplicateSkuChoice = "pending" | "one" | "all";
+
 export type MarginStatus = "good" | "medium" | "negative";
 
 // Update state management
@@ -114,6 +547,33 @@ export interface UpdateResponse {
   updated: boolean;
   message: string;
   error?: string;
+  productId?: string; // Product GID, for products created from supplier rows
+}
+
+// Draft product to create from an unmatched supplier row
+export interface DraftProduct {
+  sku: string;
+  title: string;
+  vendor: string;
+  barcode: string;
+  cost: number;
+  price: number;
+  quantity: number;
+}
+
+// Optional field whose supplier value differs from Shopify
+export interface FieldChange {
+  key: OptionalFieldKey;
+  label: string;
+  from: string;
+  to: string;
+}
+
+// Outcome of writing the optional fields of one SKU
+export interface FieldUpdateResult {
+  sku: string;
+  fields: OptionalFieldKey[];
+  error?: string;
 }
 
 // Pricing state
@@ -126,7 +586,7 @@ export interface PricingState {
 export type FilterType = "all" | "med" | "neg";
 
 // Step in the workflow
-export type WorkflowStep = "csv" | "mapping" | "actions";
+export type WorkflowStep = "csv" | "mapping" | "actions" | "reconcile";
 
 // Action types for the form
 export interface SupplierUpdatesFormData {
@@ -176,3 +636,48 @@ export interface UpdateStockResponse {
 export interface UpdatePricingResponse {
   results: UpdateResponse[];
 }
+
+// State of a Shopify bulk operation
+export type BulkOperationStatus =
+  | "CREATED"
+  | "RUNNING"
+  | "COMPLETED"
+  | "CANCELING"
+  | "CANCELED"
+  | "FAILED"
+  | "EXPIRED";
+
+// Bulk export of the store's variants, used to look up large files
+export interface BulkExport {
+  id: string; // BulkOperation GID
+  status: BulkOperationStatus;
+  objectCount: number; // Variants exported so far
+  errorCode: string | null;
+}
+
+// Reconcile: store variants in a scope whose SKU is not in the supplier files
+export type ReconcileScopeType = "vendor" | "collection" | "tag";
+
+export interface ReconcileScope {
+  type: ReconcileScopeType;
+  value: string; // Vendor name, tag, or Collection GID
+  label?: string; // Collection title
+}
+
+export type ReconcileAction = "zeroStock" | "draft" | "tag";
+
+export interface ReconcileVariant {
+  variantId: string;
+  productId: string;
+  inventoryItemId: string;
+  sku: string;
+  name: string;
+  image: string;
+  quantity: number | null; // Available at the location (null if not stocked)
+  productInFile: boolean; // Another variant of the product is in the files
+}
+
+export interface ReconcilePreview {
+  variants: ReconcileVariant[];
+  truncated: boolean; // The scope had more variants than were read
+}
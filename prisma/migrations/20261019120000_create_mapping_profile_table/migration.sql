@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "MappingProfile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "headers" TEXT NOT NULL,
+    "config" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "MappingProfile_shop_idx" ON "MappingProfile"("shop");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MappingProfile_shop_name_key" ON "MappingProfile"("shop", "name");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "ExchangeRate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rate" REAL NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_shop_idx" ON "ExchangeRate"("shop");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExchangeRate_shop_currency_key" ON "ExchangeRate"("shop", "currency");
@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "ShopSettings" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "pricesIncludeTax" BOOLEAN NOT NULL,
+    "priceTaxRate" REAL NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
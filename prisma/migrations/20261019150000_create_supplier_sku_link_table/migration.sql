@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "SupplierSkuLink" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "supplierSku" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "SupplierSkuLink_shop_idx" ON "SupplierSkuLink"("shop");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SupplierSkuLink_shop_profileId_supplierSku_key" ON "SupplierSkuLink"("shop", "profileId", "supplierSku");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "skuRules" TEXT NOT NULL DEFAULT '[]';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "bulkLookupThreshold" INTEGER NOT NULL DEFAULT 5000;
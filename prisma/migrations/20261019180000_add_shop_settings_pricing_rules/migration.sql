@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "pricingRules" TEXT NOT NULL DEFAULT '[]';
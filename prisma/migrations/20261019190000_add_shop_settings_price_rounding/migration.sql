@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN "priceRounding" TEXT NOT NULL DEFAULT '[]';